@@ -5,9 +5,19 @@ import { ControlPanel } from './components/ControlPanel';
 import { CodeViewer } from './components/CodeViewer';
 import { AnalysisPanel } from './components/AnalysisPanel';
 import { VdpViewer } from './components/VdpViewer';
-import { AppState, ReachabilityResult, NavigationSnapshot, StepType, StackFrame, Z80Flags, Z80Registers } from './types';
+import { PsgViewer } from './components/PsgViewer';
+import { AppState, BiosRom, ReachabilityResult, NavigationSnapshot, StepType, StackFrame, Z80Flags, Z80Registers } from './types';
 import { analyzeZ80Code, checkLabelReachability } from './services/geminiService';
-import { simulateLine, executeSubroutine, checkCondition, executeLoopUntilCompletion } from './services/z80Simulator';
+import { simulateLine, executeSubroutine, checkCondition, executeLoopUntilCompletion, getIndirectJumpTarget, dispatchSourceInterrupt } from './services/z80Simulator';
+import { createMemory, readMemWord } from './services/z80Memory';
+import { stepInstruction, stepOverInstruction, stepOutInstruction, createBiosStub, CpuStopReason } from './services/z80Cpu';
+import { SimulationState } from './services/z80Simulator';
+import { profileSubroutine, ProfileResult } from './services/z80Profiler';
+import { createPsgState, clonePsgState, clearPsgLog } from './services/psg';
+import { createInterruptState, cloneInterruptState, setFramePeriod } from './services/interrupts';
+import { createVdpState, cloneVdpState, getVdpMode, setScreenRegisters, loadPaletteFromVram } from './services/vdp';
+import { applyVramImage, screenForFileName, VramImage, SC5_PALETTE_ADDRESS } from './services/vramImage';
+import { mapBiosRom, unmapBiosRom } from './services/biosRom';
 
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>({
@@ -20,13 +30,21 @@ const App: React.FC = () => {
     manualLine: null,
     callStack: [],
     history: [],
-    liveRegisters: { a: 0, b: 0, c: 0, d: 0, e: 0, h: 0, l: 0, sp: 0xF380 },
-    liveFlags: { z: false, c: false, s: false, pv: false },
-    liveMemory: {},
-    liveVDP: { vram: new Array(16384).fill(0), addressRegister: 0, writeLatch: false, registerLatch: 0 },
+    liveRegisters: { a: 0, b: 0, c: 0, d: 0, e: 0, h: 0, l: 0, sp: 0xF380, pc: 0, ix: 0, iy: 0, i: 0, r: 0, af_: 0, bc_: 0, de_: 0, hl_: 0 },
+    liveFlags: { s: false, z: false, f5: false, h: false, f3: false, pv: false, n: false, c: false },
+    liveMemory: createMemory(),
+    liveVDP: createVdpState(),
+    livePSG: createPsgState(),
+    liveInterrupts: createInterruptState(),
+    liveClobbered: [],
+    liveTStates: 0,
+    lastBlockOp: null,
     isPlaying: false,
     isEditing: false,
     showVDP: false,
+    showPSG: false,
+    executionMode: 'SOURCE',
+    biosRom: null,
     breakpoints: new Set<number>()
   });
 
@@ -38,8 +56,18 @@ const App: React.FC = () => {
     callStack: [...state.callStack],
     liveRegisters: { ...state.liveRegisters },
     liveFlags: { ...state.liveFlags },
-    liveMemory: { ...state.liveMemory },
-    liveVDP: { ...state.liveVDP, vram: [...state.liveVDP.vram] }
+    liveMemory: state.liveMemory, // Immutable, safe to share
+    liveVDP: cloneVdpState(state.liveVDP),
+    livePSG: clonePsgState(state.livePSG),
+    liveInterrupts: cloneInterruptState(state.liveInterrupts),
+    liveClobbered: [...state.liveClobbered],
+    liveTStates: state.liveTStates,
+    lastBlockOp: state.lastBlockOp
+  });
+
+  // Live machine state as seen by the simulators
+  const liveSimulationState = (state: AppState): SimulationState => ({
+    registers: state.liveRegisters, flags: state.liveFlags, memory: state.liveMemory, vdp: state.liveVDP, psg: state.livePSG, interrupts: state.liveInterrupts, clobbered: state.liveClobbered, tStates: state.liveTStates
   });
 
   const handleFileUpload = (content: string, fileName: string) => {
@@ -62,7 +90,8 @@ const App: React.FC = () => {
       liveFlags: {
         ...prev.liveFlags,
         [flag]: !prev.liveFlags[flag]
-      }
+      },
+      liveClobbered: prev.liveClobbered.filter(reg => reg !== 'f')
     }));
   };
 
@@ -71,11 +100,38 @@ const App: React.FC = () => {
       ...prev,
       liveRegisters: {
         ...prev.liveRegisters,
-        [reg]: value & 0xFFFF
-      }
+        [reg]: value & (['pc', 'sp', 'ix', 'iy', 'af_', 'bc_', 'de_', 'hl_'].includes(reg) ? 0xFFFF : 0xFF)
+      },
+      liveClobbered: prev.liveClobbered.filter(r => r !== reg)
     }));
   };
 
+  // BLOAD into the live VDP. The previous VRAM stays in the history, so Undo restores it.
+  // A .SC1-.SC3 file also selects its screen mode when the VDP is in another one.
+  const handleLoadVram = (image: VramImage, fileName: string) => {
+    setAppState(prev => {
+      const vdp = cloneVdpState(prev.liveVDP);
+      vdp.vram = applyVramImage(vdp.vram, image);
+      const screen = screenForFileName(fileName);
+      if (screen !== null && getVdpMode(vdp.registers).screen !== screen) setScreenRegisters(vdp, screen);
+      // SCREEN 5 images saved with the palette carry it in VRAM
+      if (screen === 5 && image.start <= SC5_PALETTE_ADDRESS && image.start + image.data.length >= SC5_PALETTE_ADDRESS + 32) {
+        loadPaletteFromVram(vdp, SC5_PALETTE_ADDRESS);
+      }
+      return { ...prev, history: [saveHistory(prev), ...prev.history.slice(0, 49)], liveVDP: vdp };
+    });
+  };
+
+  // Maps (or removes) the BIOS ROM. Older snapshots were taken with the other
+  // memory layout, so the history starts over.
+  const handleLoadBiosRom = (rom: BiosRom | null) => {
+    setAppState(prev => {
+      const memoryMap = prev.analysis?.memoryMap;
+      const memory = rom ? mapBiosRom(prev.liveMemory, rom, memoryMap) : prev.biosRom ? unmapBiosRom(prev.liveMemory, prev.biosRom, memoryMap) : prev.liveMemory;
+      return { ...prev, biosRom: rom, liveMemory: memory, history: [], isPlaying: false };
+    });
+  };
+
   const handleAnalyze = async () => {
     if (!appState.code) return;
     setAppState(prev => ({ ...prev, isLoading: true, error: null }));
@@ -98,6 +154,8 @@ const App: React.FC = () => {
           ...prev,
           isLoading: false,
           analysis: result,
+          // Static DB/DW data is written over the current RAM contents
+          liveMemory: createMemory(result.memoryMap, prev.liveMemory),
           currentStepIndex: newIndex,
           manualLine: null
         };
@@ -122,11 +180,10 @@ const App: React.FC = () => {
          const finalState = executeLoopUntilCompletion(
              step.lineNumber,
              label,
-             { registers: prev.liveRegisters, flags: prev.liveFlags, memory: prev.liveMemory, vdp: prev.liveVDP },
+             liveSimulationState(prev),
              lines,
              prev.analysis.labels,
-             prev.analysis.symbolTable,
-             prev.analysis.memoryMap || {}
+             prev.analysis.symbolTable
          );
 
          // Move to next line after loop
@@ -137,7 +194,12 @@ const App: React.FC = () => {
             liveRegisters: finalState.registers,
             liveFlags: finalState.flags,
             liveMemory: finalState.memory,
-            liveVDP: finalState.vdp
+            liveVDP: finalState.vdp,
+            livePSG: finalState.psg,
+            liveInterrupts: finalState.interrupts,
+            liveClobbered: finalState.clobbered,
+            liveTStates: finalState.tStates,
+            lastBlockOp: finalState.lastBlockOp || null
          };
       });
   };
@@ -153,8 +215,90 @@ const App: React.FC = () => {
       return 0; // Fallback
   };
 
+  // Frame interrupt accepted before the step at `nextIndex` runs: returns the step of the
+  // handler and records the frame its RET / RETI comes back to
+  const takeInterrupt = (prev: AppState, finalState: SimulationState, opcode: string, nextIndex: number, callStack: StackFrame[]): number => {
+      const analysis = prev.analysis;
+      // No interrupt is accepted right after EI
+      if (!analysis || opcode === 'EI' || nextIndex >= analysis.steps.length) return nextIndex;
+      const returnLine = analysis.steps[nextIndex].lineNumber;
+      const returnAddress = analysis.lineAddresses[returnLine];
+      const handlerLine = dispatchSourceInterrupt(finalState, returnAddress ?? null, addr => analysis.addressLines[addr]);
+      if (handlerLine === null) return nextIndex;
+      const handlerIndex = analysis.steps.findIndex(s => s.lineNumber >= handlerLine);
+      if (handlerIndex === -1) return nextIndex;
+      const entry = finalState.interrupts.log[finalState.interrupts.log.length - 1];
+      callStack.push({ returnLine, returnStepIndex: nextIndex, subroutineName: `INT ${entry.via}` });
+      return handlerIndex;
+  };
+
+  // --- CPU EXECUTION MODE (byte-level core) ---
+
+  // Breakpoints are set on source lines; the core stops on their addresses
+  const breakpointAddresses = (state: AppState): Set<number> => {
+    const addrs = new Set<number>();
+    state.breakpoints.forEach(line => {
+      if (state.analysis?.lineBytes[line]) addrs.add(state.analysis.lineAddresses[line]);
+    });
+    return addrs;
+  };
+
+  // Applies a CPU result and moves the source view to the line at PC
+  const applyCpuState = (prev: AppState, finalState: SimulationState, reason: CpuStopReason): AppState => {
+    const line = prev.analysis?.addressLines[finalState.registers.pc];
+    const stepIdx = line !== undefined && prev.analysis ? prev.analysis.steps.findIndex(s => s.lineNumber === line) : -1;
+    return {
+      ...prev,
+      history: [saveHistory(prev), ...prev.history.slice(0, 49)],
+      currentStepIndex: stepIdx !== -1 ? stepIdx : prev.currentStepIndex,
+      manualLine: line !== undefined ? line : null,
+      isPlaying: prev.isPlaying && reason === 'RETURNED' && !(line !== undefined && prev.breakpoints.has(line)),
+      liveRegisters: finalState.registers,
+      liveFlags: finalState.flags,
+      liveMemory: finalState.memory,
+      liveVDP: finalState.vdp,
+      livePSG: finalState.psg,
+      liveInterrupts: finalState.interrupts,
+      liveClobbered: finalState.clobbered,
+      liveTStates: finalState.tStates,
+      lastBlockOp: finalState.lastBlockOp || null
+    };
+  };
+
+  const runCpu = (prev: AppState, kind: 'IN' | 'OVER' | 'OUT'): AppState => {
+    if (!prev.analysis) return prev;
+    const romSize = prev.biosRom ? prev.biosRom.data.length : 0;
+    const options = { isBiosStub: createBiosStub(prev.analysis.addressLines, romSize), romSize };
+    const current = liveSimulationState(prev);
+    if (kind === 'IN') return applyCpuState(prev, stepInstruction(current, options), 'RETURNED');
+    const result = kind === 'OVER'
+      ? stepOverInstruction(current, options, breakpointAddresses(prev))
+      : stepOutInstruction(current, options, breakpointAddresses(prev));
+    return applyCpuState(prev, result.state, result.reason);
+  };
+
+  const handleToggleExecutionMode = () => {
+    setAppState(prev => {
+      if (!prev.analysis) return prev;
+      if (prev.executionMode === 'SOURCE') {
+        // PC starts at the instruction currently shown in the source view
+        const line = prev.manualLine || prev.analysis.steps[prev.currentStepIndex]?.lineNumber;
+        const pc = line !== undefined ? prev.analysis.lineAddresses[line] : undefined;
+        return {
+          ...prev,
+          executionMode: 'CPU',
+          isPlaying: false,
+          manualLine: line !== undefined ? line : null,
+          liveRegisters: { ...prev.liveRegisters, pc: pc !== undefined ? pc : prev.liveRegisters.pc }
+        };
+      }
+      return { ...prev, executionMode: 'SOURCE', isPlaying: false, manualLine: null, callStack: [] };
+    });
+  };
+
   const handleStep = () => {
     setAppState(prev => {
+      if (prev.executionMode === 'CPU') return runCpu(prev, 'OVER');
       if (!prev.analysis || prev.currentStepIndex >= prev.analysis.steps.length) {
         return { ...prev, isPlaying: false };
       }
@@ -186,17 +330,21 @@ const App: React.FC = () => {
                    // 1. Simulate the PUSH of the CALL instruction before running subroutine.
                    const sp = prev.liveRegisters.sp;
                    const preCallSp = (sp - 2) & 0xFFFF;
-                   const preCallMemory = { ...prev.liveMemory };
+                   const preCallMemory = prev.liveMemory.slice();
                    
                    // Push Return Address (Little Endian)
-                   preCallMemory[`STACK:${(sp - 1) & 0xFFFF}`] = (expectedRetAddr >> 8) & 0xFF;
-                   preCallMemory[`STACK:${(sp - 2) & 0xFFFF}`] = expectedRetAddr & 0xFF;
+                   preCallMemory[(sp - 1) & 0xFFFF] = (expectedRetAddr >> 8) & 0xFF;
+                   preCallMemory[(sp - 2) & 0xFFFF] = expectedRetAddr & 0xFF;
 
                    const preCallState = { 
                        registers: { ...prev.liveRegisters, sp: preCallSp }, 
                        flags: prev.liveFlags, 
                        memory: preCallMemory, 
-                       vdp: prev.liveVDP 
+                       vdp: prev.liveVDP,
+                       psg: prev.livePSG,
+                       interrupts: prev.liveInterrupts,
+                       clobbered: prev.liveClobbered,
+                       tStates: prev.liveTStates + step.cycles
                    };
 
                    // 2. Execute Subroutine
@@ -205,17 +353,14 @@ const App: React.FC = () => {
                         preCallState,
                         lines,
                         prev.analysis.labels,
-                        prev.analysis.symbolTable,
-                        prev.analysis.memoryMap || {}
+                        prev.analysis.symbolTable
                    );
                    
                    // 3. Determine actual destination from stack
                    // The final RET instruction in subroutine performed SP += 2. 
                    // The return address was popped from [SP-2, SP-1].
                    const finalSp = finalState.registers.sp;
-                   const retLow = finalState.memory[`STACK:${(finalSp - 2) & 0xFFFF}`] || 0;
-                   const retHigh = finalState.memory[`STACK:${(finalSp - 1) & 0xFFFF}`] || 0;
-                   const actualRetAddr = (retHigh << 8) | retLow;
+                   const actualRetAddr = readMemWord(finalState.memory, (finalSp - 2) & 0xFFFF);
 
                    let nextStepIdx = prev.currentStepIndex + 1;
 
@@ -236,11 +381,16 @@ const App: React.FC = () => {
                         liveRegisters: finalState.registers,
                         liveFlags: finalState.flags,
                         liveMemory: finalState.memory,
-                        liveVDP: finalState.vdp
+                        liveVDP: finalState.vdp,
+                        livePSG: finalState.psg,
+                        liveInterrupts: finalState.interrupts,
+                        liveClobbered: finalState.clobbered,
+                        liveTStates: finalState.tStates,
+                        lastBlockOp: finalState.lastBlockOp || null
                     };
                }
           } else {
-               return { ...prev, currentStepIndex: prev.currentStepIndex + 1, history: historySnapshot };
+               return { ...prev, currentStepIndex: prev.currentStepIndex + 1, history: historySnapshot, liveTStates: prev.liveTStates + (step.cyclesNotTaken ?? step.cycles), lastBlockOp: null };
           }
       }
 
@@ -250,9 +400,7 @@ const App: React.FC = () => {
            if (!condition || checkCondition(condition, prev.liveFlags)) {
                // READ RETURN ADDRESS FROM STACK MEMORY
                const sp = prev.liveRegisters.sp;
-               const low = prev.liveMemory[`STACK:${sp}`] || 0;
-               const high = prev.liveMemory[`STACK:${(sp + 1) & 0xFFFF}`] || 0;
-               const returnAddr = (high << 8) | low;
+               const returnAddr = readMemWord(prev.liveMemory, sp);
 
                // FIND LINE FOR ADDRESS
                // We need to find which step corresponds to this address
@@ -268,9 +416,8 @@ const App: React.FC = () => {
                // Perform State Update (SP += 2) via simulator
                const finalState = simulateLine(
                    lineContent,
-                   { registers: prev.liveRegisters, flags: prev.liveFlags, memory: prev.liveMemory, vdp: prev.liveVDP },
-                   prev.analysis.symbolTable,
-                   prev.analysis.memoryMap || {}
+                   liveSimulationState(prev),
+                   prev.analysis.symbolTable
                );
 
                // If address not found (e.g. invalid stack), fallback to Call Stack logic
@@ -290,7 +437,12 @@ const App: React.FC = () => {
                        liveRegisters: finalState.registers,
                        liveFlags: finalState.flags,
                        liveMemory: finalState.memory,
-                       liveVDP: finalState.vdp
+                       liveVDP: finalState.vdp,
+                       livePSG: finalState.psg,
+                       liveInterrupts: finalState.interrupts,
+                       liveClobbered: finalState.clobbered,
+                       liveTStates: finalState.tStates,
+                       lastBlockOp: finalState.lastBlockOp || null
                    };
                }
            }
@@ -299,9 +451,8 @@ const App: React.FC = () => {
       // 3. Normal Simulation
       const finalState = simulateLine(
         lineContent,
-        { registers: prev.liveRegisters, flags: prev.liveFlags, memory: prev.liveMemory, vdp: prev.liveVDP },
-        prev.analysis.symbolTable,
-        prev.analysis.memoryMap || {}
+        liveSimulationState(prev),
+        prev.analysis.symbolTable
       );
 
       let nextIndex = prev.currentStepIndex + 1;
@@ -330,8 +481,8 @@ const App: React.FC = () => {
                
                if (!condition || checkCondition(condition, prev.liveFlags)) {
                     const upperTarget = target.toUpperCase();
-                    if (upperTarget === '(HL)') {
-                         const addr = (finalState.registers.h << 8) | finalState.registers.l;
+                    if (['(HL)','(IX)','(IY)'].includes(upperTarget)) {
+                         const addr = getIndirectJumpTarget(upperTarget, finalState.registers);
                          const foundLine = Object.entries(prev.analysis.lineAddresses).find(([line, a]) => a === addr);
                          if (foundLine) {
                              const lineNum = parseInt(foundLine[0]);
@@ -349,13 +500,15 @@ const App: React.FC = () => {
            }
       }
 
+      nextIndex = takeInterrupt(prev, finalState, step.opcode, nextIndex, nextCallStack);
+
       if (nextIndex >= prev.analysis.steps.length) {
-          return { ...prev, isPlaying: false, liveRegisters: finalState.registers, liveFlags: finalState.flags, liveMemory: finalState.memory, liveVDP: finalState.vdp };
+          return { ...prev, isPlaying: false, liveRegisters: finalState.registers, liveFlags: finalState.flags, liveMemory: finalState.memory, liveVDP: finalState.vdp, livePSG: finalState.psg, liveInterrupts: finalState.interrupts, liveClobbered: finalState.clobbered, liveTStates: finalState.tStates, lastBlockOp: finalState.lastBlockOp || null };
       }
       
       const nextStep = prev.analysis.steps[nextIndex];
       if (nextStep && prev.breakpoints.has(nextStep.lineNumber)) {
-        return { ...prev, currentStepIndex: nextIndex, isPlaying: false, callStack: nextCallStack, history: historySnapshot, liveRegisters: finalState.registers, liveFlags: finalState.flags, liveMemory: finalState.memory, liveVDP: finalState.vdp };
+        return { ...prev, currentStepIndex: nextIndex, isPlaying: false, callStack: nextCallStack, history: historySnapshot, liveRegisters: finalState.registers, liveFlags: finalState.flags, liveMemory: finalState.memory, liveVDP: finalState.vdp, livePSG: finalState.psg, liveInterrupts: finalState.interrupts, liveClobbered: finalState.clobbered, liveTStates: finalState.tStates, lastBlockOp: finalState.lastBlockOp || null };
       }
 
       return {
@@ -366,13 +519,19 @@ const App: React.FC = () => {
         liveRegisters: finalState.registers,
         liveFlags: finalState.flags,
         liveMemory: finalState.memory,
-        liveVDP: finalState.vdp
+        liveVDP: finalState.vdp,
+        livePSG: finalState.psg,
+        liveInterrupts: finalState.interrupts,
+        liveClobbered: finalState.clobbered,
+        liveTStates: finalState.tStates,
+        lastBlockOp: finalState.lastBlockOp || null
       };
     });
   };
 
   const handleStepIn = () => {
     setAppState(prev => {
+        if (prev.executionMode === 'CPU') return runCpu(prev, 'IN');
         if (!prev.analysis) return prev;
         const step = prev.analysis.steps[prev.currentStepIndex];
         const historySnapshot = [saveHistory(prev), ...prev.history.slice(0, 49)];
@@ -400,13 +559,13 @@ const App: React.FC = () => {
                          // 2. Perform Stack PUSH in Memory
                          const sp = prev.liveRegisters.sp;
                          const newSp = (sp - 2) & 0xFFFF;
-                         const newMemory = { ...prev.liveMemory };
+                         const newMemory = prev.liveMemory.slice();
                          
                          // Little Endian Push:
                          // SP-1 = High Byte
                          // SP-2 = Low Byte
-                         newMemory[`STACK:${(sp - 1) & 0xFFFF}`] = (retAddr >> 8) & 0xFF;
-                         newMemory[`STACK:${(sp - 2) & 0xFFFF}`] = retAddr & 0xFF;
+                         newMemory[(sp - 1) & 0xFFFF] = (retAddr >> 8) & 0xFF;
+                         newMemory[(sp - 2) & 0xFFFF] = retAddr & 0xFF;
 
                          return {
                              ...prev,
@@ -421,7 +580,9 @@ const App: React.FC = () => {
                                 ...prev.liveRegisters, 
                                 sp: newSp 
                              },
-                             liveMemory: newMemory
+                             liveMemory: newMemory,
+                             liveTStates: prev.liveTStates + step.cycles,
+                             lastBlockOp: null
                          };
                      }
                  }
@@ -434,19 +595,26 @@ const App: React.FC = () => {
         
         const finalState = simulateLine(
             lineContent,
-            { registers: prev.liveRegisters, flags: prev.liveFlags, memory: prev.liveMemory, vdp: prev.liveVDP },
-            prev.analysis.symbolTable,
-            prev.analysis.memoryMap || {}
+            liveSimulationState(prev),
+            prev.analysis.symbolTable
         );
+        const nextCallStack = [...prev.callStack];
+        const nextIndex = takeInterrupt(prev, finalState, step.opcode, prev.currentStepIndex + 1, nextCallStack);
         
         return {
             ...prev,
-            currentStepIndex: prev.currentStepIndex + 1,
+            currentStepIndex: nextIndex,
+            callStack: nextCallStack,
             history: historySnapshot,
             liveRegisters: finalState.registers,
             liveFlags: finalState.flags,
             liveMemory: finalState.memory,
-            liveVDP: finalState.vdp
+            liveVDP: finalState.vdp,
+            livePSG: finalState.psg,
+            liveInterrupts: finalState.interrupts,
+            liveClobbered: finalState.clobbered,
+            liveTStates: finalState.tStates,
+            lastBlockOp: finalState.lastBlockOp || null
         };
     });
   };
@@ -455,6 +623,7 @@ const App: React.FC = () => {
     setAppState(prev => {
       // Step Out essentially runs until a RET is hit in current context
       // Simplified: Just pop the synthetic stack, but update state
+      if (prev.executionMode === 'CPU') return runCpu(prev, 'OUT');
       if (prev.callStack.length === 0) return prev;
       const stack = [...prev.callStack];
       const frame = stack.pop()!;
@@ -465,11 +634,10 @@ const App: React.FC = () => {
       
       const finalState = executeSubroutine(
             currentStep.lineNumber,
-            { registers: prev.liveRegisters, flags: prev.liveFlags, memory: prev.liveMemory, vdp: prev.liveVDP },
+            liveSimulationState(prev),
             lines,
             prev.analysis!.labels,
-            prev.analysis!.symbolTable,
-            prev.analysis!.memoryMap || {}
+            prev.analysis!.symbolTable
       );
 
       let returnIndex = frame.returnStepIndex;
@@ -483,11 +651,39 @@ const App: React.FC = () => {
         liveRegisters: finalState.registers,
         liveFlags: finalState.flags,
         liveMemory: finalState.memory,
-        liveVDP: finalState.vdp
+        liveVDP: finalState.vdp,
+        livePSG: finalState.psg,
+        liveInterrupts: finalState.interrupts,
+        liveClobbered: finalState.clobbered,
+        liveTStates: finalState.tStates,
+        lastBlockOp: finalState.lastBlockOp || null
       };
     });
   };
 
+  // --- LABEL SEARCH ---
+  const handleCheckLabel = (label: string): ReachabilityResult => {
+    if (!appState.analysis) {
+      return { isReachable: false, status: 'NOT_FOUND', tracePath: [], referenceCount: 0, labelLine: 0 };
+    }
+    return checkLabelReachability(appState.code, appState.analysis, label);
+  };
+
+  // --- PROFILER ---
+  // Profiles the routine at the current line on a copy of the live state
+  const handleProfile = (): ProfileResult | null => {
+    if (!appState.analysis) return null;
+    const line = appState.manualLine ?? appState.analysis.steps[appState.currentStepIndex]?.lineNumber;
+    if (line === undefined) return null;
+    return profileSubroutine(
+      line,
+      liveSimulationState(appState),
+      appState.code.split('\n'),
+      appState.analysis.labels,
+      appState.analysis.symbolTable
+    );
+  };
+
   const handleUndo = () => {
     setAppState(prev => {
       if (prev.history.length === 0) return prev;
@@ -520,13 +716,18 @@ const App: React.FC = () => {
           onStepIn={handleStepIn}
           onStepOut={handleStepOut}
           onUndo={handleUndo}
-          onReset={() => setAppState(prev => ({ ...prev, currentStepIndex: 0, isPlaying: false, history: [], callStack: [] }))}
+          onReset={() => setAppState(prev => ({ ...prev, currentStepIndex: 0, isPlaying: false, history: [], callStack: [], liveTStates: 0, liveInterrupts: createInterruptState(prev.liveInterrupts.framePeriod) }))}
           onAnalyze={handleAnalyze}
           onTogglePlay={() => setAppState(prev => ({ ...prev, isPlaying: !prev.isPlaying }))}
           onToggleEdit={() => setAppState(prev => ({ ...prev, isEditing: !prev.isEditing }))}
           onToggleVDP={() => setAppState(prev => ({ ...prev, showVDP: !prev.showVDP }))}
+          onTogglePSG={() => setAppState(prev => ({ ...prev, showPSG: !prev.showPSG }))}
+          onToggleExecutionMode={handleToggleExecutionMode}
           onRegisterChange={handleRegisterChange}
           onRunLoop={handleRunLoop}
+          onCheckLabel={handleCheckLabel}
+          onLoadVram={handleLoadVram}
+          onLoadBiosRom={handleLoadBiosRom}
         />
         <CodeViewer
           appState={appState}
@@ -538,8 +739,9 @@ const App: React.FC = () => {
           onCodeChange={(code) => setAppState(prev => ({ ...prev, code }))}
           onAnalyze={handleAnalyze}
         />
-        <AnalysisPanel appState={appState} onToggleFlag={handleToggleFlag} onRegisterChange={handleRegisterChange} />
-        {appState.showVDP && <VdpViewer vdpState={appState.liveVDP} onClose={() => setAppState(prev => ({ ...prev, showVDP: false }))} />}
+        <AnalysisPanel appState={appState} onToggleFlag={handleToggleFlag} onRegisterChange={handleRegisterChange} onProfile={handleProfile} onFramePeriodChange={(period) => setAppState(prev => ({ ...prev, liveInterrupts: setFramePeriod(prev.liveInterrupts, prev.liveTStates, period) }))} />
+        {appState.showVDP && <VdpViewer vdpState={appState.liveVDP} onClose={() => setAppState(prev => ({ ...prev, showVDP: false }))} onLoadVram={handleLoadVram} />}
+        {appState.showPSG && <PsgViewer psgState={appState.livePSG} onClose={() => setAppState(prev => ({ ...prev, showPSG: false }))} onClearLog={() => setAppState(prev => ({ ...prev, livePSG: clearPsgLog(prev.livePSG) }))} />}
       </main>
     </div>
   );
@@ -1,16 +1,42 @@
 import React, { useState } from 'react';
-import { AppState, StepType, Z80Flags, Z80Registers } from '../types';
-import { Activity, Database, List, Tag, Cpu, Flag, Repeat, ArrowRight, Layers, Hash } from 'lucide-react';
+import { AppState, RegisterName, StepType, Z80Flags, Z80Registers } from '../types';
+import { packFlags } from '../services/z80Alu';
+import { readMem, readMemWord, readVariable } from '../services/z80Memory';
+import { ProfileEntry, ProfileResult, frameShare, profileToCsv } from '../services/z80Profiler';
+import { FRAME_CYCLES, FrameStandard } from '../services/z80Timing';
+import { Activity, Database, List, Tag, Cpu, Flag, Repeat, ArrowRight, Layers, Hash, Gauge, Play, Download, AlertTriangle, Zap } from 'lucide-react';
+
+// Flag bits in F register order (bit 7 -> bit 0)
+const FLAG_BITS: { key: keyof Z80Flags; label: string; title: string }[] = [
+  { key: 's', label: 'S', title: 'Sign' },
+  { key: 'z', label: 'Z', title: 'Zero' },
+  { key: 'f5', label: '5', title: 'Undocumented F5' },
+  { key: 'h', label: 'H', title: 'Half Carry' },
+  { key: 'f3', label: '3', title: 'Undocumented F3' },
+  { key: 'pv', label: 'P', title: 'Parity/Overflow' },
+  { key: 'n', label: 'N', title: 'Add/Subtract' },
+  { key: 'c', label: 'C', title: 'Carry' },
+];
 
 interface AnalysisPanelProps {
   appState: AppState;
   onToggleFlag: (flag: keyof Z80Flags) => void;
   onRegisterChange: (reg: keyof Z80Registers, value: number) => void;
+  onProfile?: () => ProfileResult | null;
+  onFramePeriodChange?: (framePeriod: number) => void;
 }
 
-export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ appState, onToggleFlag, onRegisterChange }) => {
-  const { analysis, currentStepIndex, liveRegisters, liveFlags, liveMemory } = appState;
-  const [activeTab, setActiveTab] = useState<'LOG' | 'MEM' | 'CONST' | 'STACK' | 'LBL'>('LOG');
+// Latest interrupts listed in the execution log
+const INTERRUPT_ROWS = 8;
+
+type ProfileSortKey = 'label' | 'calls' | 'inclusive' | 'exclusive';
+
+export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ appState, onToggleFlag, onRegisterChange, onProfile, onFramePeriodChange }) => {
+  const { analysis, currentStepIndex, liveRegisters, liveFlags, liveMemory, liveInterrupts, liveClobbered } = appState;
+  const [activeTab, setActiveTab] = useState<'LOG' | 'MEM' | 'CONST' | 'STACK' | 'LBL' | 'PROF'>('LOG');
+  const [profile, setProfile] = useState<ProfileResult | null>(null);
+  const [frameStandard, setFrameStandard] = useState<FrameStandard>('NTSC');
+  const [profileSort, setProfileSort] = useState<{ key: ProfileSortKey; desc: boolean }>({ key: 'inclusive', desc: true });
 
   if (!analysis) {
     return (
@@ -23,10 +49,11 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ appState, onToggle
 
   // Helper to format Hex 8-bit
   const h8 = (val: number) => (val || 0).toString(16).toUpperCase().padStart(2, '0');
-  // Helper to format Hex 16-bit
-  const h16 = (high: number, low: number) => ((high << 8) | low).toString(16).toUpperCase().padStart(4, '0');
   // Helper for single number 16-bit
   const h16val = (val: number) => (val || 0).toString(16).toUpperCase().padStart(4, '0');
+  // Registers left undefined by a BIOS call read as ??
+  const r8 = (reg: RegisterName, val: number) => liveClobbered.includes(reg) ? '??' : h8(val);
+  const r16 = (reg: RegisterName, val: number) => liveClobbered.includes(reg) ? '????' : h16val(val);
 
   const editRegister = (reg: keyof Z80Registers, currentVal: number) => {
     const newVal = prompt(`Edit ${reg.toUpperCase()} Register (Hex or Decimal):`, currentVal.toString(16).toUpperCase());
@@ -54,23 +81,10 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ appState, onToggle
   }
 
   // --- MEMORY LOOKUP HELPERS ---
-  const readByte = (addr: number): number => {
-      // 1. Try Live Memory (Simulator writes STACK:addr for all RAM writes)
-      const stackKey = `STACK:${addr}`;
-      if (liveMemory[stackKey] !== undefined) return liveMemory[stackKey];
-      
-      // 2. Try Static Map
-      if (analysis.memoryMap && analysis.memoryMap[addr] !== undefined) {
-          return analysis.memoryMap[addr];
-      }
-      return 0;
-  };
+  // Live memory is the flat 64KB space (static DB/DW data already seeded)
+  const readByte = (addr: number): number => readMem(liveMemory, addr);
 
-  const readWord = (addr: number): number => {
-      const low = readByte(addr);
-      const high = readByte((addr + 1) & 0xFFFF);
-      return (high << 8) | low;
-  };
+  const readWord = (addr: number): number => readMemWord(liveMemory, addr);
 
   const readMemoryAtHL = (): number => {
       const addr = (liveRegisters.h << 8) | liveRegisters.l;
@@ -79,14 +93,16 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ appState, onToggle
 
   const hlValueContent = readMemoryAtHL();
 
+  // Packed F register (S Z F5 H F3 P/V N C)
+  const fRegister = packFlags(liveFlags);
+
   // --- MERGE STATIC VAR INFO WITH LIVE MEMORY ---
   const memoryVariables = analysis.initialVariables.map(v => {
-      const upperName = v.name.toUpperCase();
-      const liveVal = liveMemory[upperName];
+      const liveVal = readVariable(liveMemory, v);
       return {
           ...v,
-          value: liveVal !== undefined ? liveVal : v.value,
-          isModified: liveVal !== undefined && liveVal !== v.value
+          value: liveVal !== null ? liveVal : v.value,
+          isModified: liveVal !== null && liveVal !== v.value
       };
   }).sort((a, b) => {
       if (a.address && b.address) return a.address.localeCompare(b.address);
@@ -95,6 +111,11 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ appState, onToggle
   
   const constants = analysis.constants.sort((a, b) => a.name.localeCompare(b.name));
 
+  // User label defined at an address (interrupt handlers)
+  const labelAt = (addr: number): string | undefined =>
+      Object.entries(analysis.symbolTable).find(([name, val]) => val === addr && analysis.labels[name])?.[0];
+  const recentInterrupts = liveInterrupts.log.slice(-INTERRUPT_ROWS).reverse();
+
   const loopCount = analysis.steps.filter(s => s.type === StepType.LOOP).length;
   const bugCount = analysis.detectedBugs.length;
   const callCount = analysis.steps.filter(s => s.type === StepType.CALL).length;
@@ -121,6 +142,32 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ appState, onToggle
      }
   };
 
+  // --- PROFILER ---
+  const runProfile = () => {
+    if (onProfile) setProfile(onProfile());
+  };
+
+  const sortProfileBy = (key: ProfileSortKey) => {
+    setProfileSort(prev => ({ key, desc: prev.key === key ? !prev.desc : key !== 'label' }));
+  };
+
+  const sortedProfile: ProfileEntry[] = profile ? [...profile.entries].sort((a, b) => {
+    const cmp = profileSort.key === 'label' ? a.label.localeCompare(b.label) : a[profileSort.key] - b[profileSort.key];
+    return profileSort.desc ? -cmp : cmp;
+  }) : [];
+
+  const exportProfileCsv = () => {
+    if (!profile) return;
+    const url = URL.createObjectURL(new Blob([profileToCsv(profile, frameStandard)], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `profile_${profile.rootLabel}_${frameStandard}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const profileFrameShare = profile ? frameShare(profile.totalCycles, frameStandard) : 0;
+
   return (
     <div className="w-80 bg-[#111] border-l border-gray-800 flex flex-col h-full overflow-hidden">
       
@@ -137,14 +184,14 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ appState, onToggle
                <span className="text-xs font-bold text-blue-500 z-10">AF</span>
                <div className="text-right z-10">
                   <div className="text-sm font-mono text-white font-bold tracking-widest">
-                      {h8(liveRegisters.a)}{h8((liveFlags.z?0x40:0)|(liveFlags.c?0x01:0)|(liveFlags.s?0x80:0))}
+                      {r8('a', liveRegisters.a)}{r8('f', fRegister)}
                   </div>
                </div>
                {/* Flag indicators mini */}
                <div className="absolute bottom-0 right-0 left-0 h-0.5 bg-gray-800 flex">
-                   <div className={`flex-1 ${liveFlags.s ? 'bg-yellow-500':''}`} title="Sign"></div>
-                   <div className={`flex-1 ${liveFlags.z ? 'bg-yellow-500':''}`} title="Zero"></div>
-                   <div className={`flex-1 ${liveFlags.c ? 'bg-yellow-500':''}`} title="Carry"></div>
+                   {FLAG_BITS.map(bit => (
+                       <div key={bit.key} className={`flex-1 ${liveFlags[bit.key] ? 'bg-yellow-500':''}`} title={bit.title}></div>
+                   ))}
                </div>
             </div>
 
@@ -154,7 +201,7 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ appState, onToggle
                <div className="flex justify-between items-center w-full">
                    <span className="text-xs font-bold text-purple-500">HL</span>
                    <div className="text-sm font-mono text-white font-bold tracking-widest">
-                      {h16(liveRegisters.h, liveRegisters.l)}
+                      {r8('h', liveRegisters.h)}{r8('l', liveRegisters.l)}
                    </div>
                </div>
                {/* Dereferenced Value */}
@@ -170,7 +217,7 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ appState, onToggle
                <span className="text-xs font-bold text-green-600">BC</span>
                <div className="text-right">
                   <div className="text-sm font-mono text-gray-300 font-bold tracking-widest">
-                      {h16(liveRegisters.b, liveRegisters.c)}
+                      {r8('b', liveRegisters.b)}{r8('c', liveRegisters.c)}
                   </div>
                </div>
             </div>
@@ -181,11 +228,39 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ appState, onToggle
                <span className="text-xs font-bold text-yellow-600">DE</span>
                <div className="text-right">
                   <div className="text-sm font-mono text-gray-300 font-bold tracking-widest">
-                      {h16(liveRegisters.d, liveRegisters.e)}
+                      {r8('d', liveRegisters.d)}{r8('e', liveRegisters.e)}
                   </div>
                </div>
             </div>
             
+            {/* IX / IY Index Registers */}
+            {(['ix', 'iy'] as const).map(reg => (
+                <div key={reg} className="bg-black border border-gray-700 rounded p-1.5 flex flex-col justify-center cursor-pointer hover:border-cyan-500 transition-colors"
+                     onClick={() => editRegister(reg, liveRegisters[reg] || 0)}>
+                   <div className="flex justify-between items-center w-full">
+                       <span className="text-xs font-bold text-cyan-500">{reg.toUpperCase()}</span>
+                       <div className="text-sm font-mono text-gray-300 font-bold tracking-widest">
+                          {r16(reg, liveRegisters[reg])}
+                       </div>
+                   </div>
+                   <div className="w-full flex justify-end mt-1 pt-1 border-t border-gray-800">
+                        <span className="text-[9px] text-gray-500 mr-1">({reg.toUpperCase()})=</span>
+                        <span className="text-[10px] font-mono text-yellow-500 font-bold">${h8(readByte(liveRegisters[reg] || 0))}</span>
+                   </div>
+                </div>
+            ))}
+
+            {/* I / R Registers */}
+            {(['i', 'r'] as const).map(reg => (
+                <div key={reg} className="bg-black border border-gray-700 rounded p-1.5 flex justify-between items-center cursor-pointer hover:border-gray-500 transition-colors"
+                     onClick={() => editRegister(reg, liveRegisters[reg] || 0)}>
+                   <span className="text-xs font-bold text-gray-500">{reg.toUpperCase()}</span>
+                   <div className="text-sm font-mono text-gray-400 font-bold tracking-widest">
+                       {h8(liveRegisters[reg])}
+                   </div>
+                </div>
+            ))}
+            
             {/* SP Register */}
             <div className="col-span-2 bg-black border border-gray-700 rounded p-1.5 flex justify-between items-center cursor-pointer hover:border-red-500 transition-colors"
                  onClick={() => editRegister('sp', liveRegisters.sp)}>
@@ -197,34 +272,33 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ appState, onToggle
                   </div>
                </div>
             </div>
+
+            {/* Shadow Register Set (EX AF,AF' / EXX) */}
+            <div className="col-span-2 grid grid-cols-4 gap-1">
+                {([['af_', "AF'"], ['bc_', "BC'"], ['de_', "DE'"], ['hl_', "HL'"]] as const).map(([reg, label]) => (
+                    <div key={reg} className="bg-black border border-gray-800 rounded px-1 py-0.5 flex flex-col items-center cursor-pointer hover:border-gray-500 transition-colors"
+                         onClick={() => editRegister(reg, liveRegisters[reg] || 0)}
+                         title={`Shadow register ${label}`}>
+                       <span className="text-[9px] font-bold text-gray-600">{label}</span>
+                       <span className="text-[10px] font-mono text-gray-400 tracking-widest">{r16(reg, liveRegisters[reg])}</span>
+                    </div>
+                ))}
+            </div>
          </div>
          
          {/* FLAGS DETAILED */}
          <div className="bg-black border border-gray-800 rounded p-1.5 flex justify-between items-center">
              <span className="text-[10px] font-bold text-gray-500 flex items-center gap-1"><Flag size={10}/> Flags</span>
-             <div className="flex gap-2 font-mono text-xs">
-                <button 
-                    onClick={() => onToggleFlag('s')} 
-                    className={`w-4 text-center rounded transition-colors ${liveFlags?.s ? "text-black bg-yellow-500 font-bold" : "text-gray-700 hover:text-gray-400 hover:bg-gray-800"}`} 
-                    title="Toggle Sign Flag"
-                >S</button>
-                <button 
-                    onClick={() => onToggleFlag('z')} 
-                    className={`w-4 text-center rounded transition-colors ${liveFlags?.z ? "text-black bg-yellow-500 font-bold" : "text-gray-700 hover:text-gray-400 hover:bg-gray-800"}`} 
-                    title="Toggle Zero Flag"
-                >Z</button>
-                <span className="text-gray-800 w-4 text-center cursor-default">H</span>
-                <button 
-                    onClick={() => onToggleFlag('pv')} 
-                    className={`w-4 text-center rounded transition-colors ${liveFlags?.pv ? "text-black bg-yellow-500 font-bold" : "text-gray-700 hover:text-gray-400 hover:bg-gray-800"}`} 
-                    title="Toggle Parity/Overflow Flag"
-                >P</button>
-                <span className="text-gray-800 w-4 text-center cursor-default">N</span>
-                <button 
-                    onClick={() => onToggleFlag('c')} 
-                    className={`w-4 text-center rounded transition-colors ${liveFlags?.c ? "text-black bg-yellow-500 font-bold" : "text-gray-700 hover:text-gray-400 hover:bg-gray-800"}`} 
-                    title="Toggle Carry Flag"
-                >C</button>
+             <div className="flex gap-1 font-mono text-xs">
+                {FLAG_BITS.map(bit => (
+                    <button 
+                        key={bit.key}
+                        onClick={() => onToggleFlag(bit.key)} 
+                        className={`w-4 text-center rounded transition-colors ${liveFlags?.[bit.key] ? "text-black bg-yellow-500 font-bold" : "text-gray-700 hover:text-gray-400 hover:bg-gray-800"}`} 
+                        title={`Toggle ${bit.title} Flag`}
+                    >{bit.label}</button>
+                ))}
+                <span className="text-[10px] text-gray-500 ml-1 self-center">F=${h8(fRegister)}</span>
              </div>
          </div>
       </div>
@@ -259,6 +333,15 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ appState, onToggle
         >
           <Hash size={14} /> LBL
         </button>
+        {onProfile && (
+          <button 
+            onClick={() => setActiveTab('PROF')}
+            className={`flex-1 py-2 text-xs font-semibold flex items-center justify-center gap-1 transition-colors ${activeTab === 'PROF' ? 'text-cyan-400 border-b-2 border-cyan-500 bg-gray-900' : 'text-gray-500 hover:text-gray-300'}`}
+            title="Cycle Profiler"
+          >
+            <Gauge size={14} /> PRF
+          </button>
+        )}
       </div>
 
       {activeTab === 'LOG' ? (
@@ -278,6 +361,39 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ appState, onToggle
                    <div className="text-[10px] text-gray-500 uppercase">Bugs</div>
                 </div>
              </div>
+
+             {/* Interrupts: IFF / IM, the frame period and the latest accepted interrupts */}
+             <div className="bg-[#1a1a1a] p-2 rounded border border-gray-800">
+                <div className="flex justify-between items-center mb-1">
+                   <span className="text-[10px] font-bold text-gray-400 uppercase flex items-center gap-1"><Zap size={10} /> Interrupts</span>
+                   <span className="text-[10px] font-mono text-gray-500">
+                      <span className={liveInterrupts.iff1 ? 'text-green-400' : 'text-red-400'}>{liveInterrupts.iff1 ? 'EI' : 'DI'}</span> · IM {liveInterrupts.mode} · frame {liveInterrupts.frames}
+                   </span>
+                </div>
+                <div className="flex justify-between items-center text-[10px] font-mono text-gray-500 mb-1">
+                   <span>VBLANK every {liveInterrupts.framePeriod.toLocaleString()}T</span>
+                   {onFramePeriodChange && (
+                     <span className="flex gap-1">
+                        {(Object.keys(FRAME_CYCLES) as FrameStandard[]).map(std => (
+                          <button
+                            key={std}
+                            onClick={() => onFramePeriodChange(FRAME_CYCLES[std])}
+                            className={`px-1 rounded transition-colors ${liveInterrupts.framePeriod === FRAME_CYCLES[std] ? 'bg-yellow-600 text-black font-bold' : 'text-gray-500 hover:text-gray-300 hover:bg-gray-800'}`}
+                            title={`${FRAME_CYCLES[std].toLocaleString()} T-states per frame`}
+                          >{std}</button>
+                        ))}
+                     </span>
+                   )}
+                </div>
+                {recentInterrupts.map((entry, i) => (
+                   <div key={liveInterrupts.log.length - i} className="flex justify-between text-[10px] font-mono border-t border-gray-800 py-0.5">
+                      <span className="text-cyan-300">#{entry.frame}</span>
+                      <span className="text-yellow-500">{entry.via} {labelAt(entry.handler) || `$${h16val(entry.handler)}`}</span>
+                      <span className="text-gray-500" title="Return address">{entry.returnAddress !== null ? `$${h16val(entry.returnAddress)}` : '-'}</span>
+                      <span className="text-gray-600">{entry.tStates.toLocaleString()}T</span>
+                   </div>
+                ))}
+             </div>
              
              <div className="space-y-2">
                {analysis.steps.map((step, idx) => {
@@ -317,7 +433,7 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ appState, onToggle
                             {step.operands}
                         </div>
                         <div className="text-[9px] text-gray-600 bg-gray-900 px-1 rounded">
-                            {step.cycles}T
+                            {step.cyclesNotTaken !== undefined ? `${step.cycles}/${step.cyclesNotTaken}` : step.cycles}T
                         </div>
                      </div>
                      
@@ -415,6 +531,108 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ appState, onToggle
              </div>
            )}
         </div>
+      ) : activeTab === 'PROF' ? (
+        <div className="flex-1 overflow-y-auto custom-scrollbar bg-[#0d0d0d]">
+          <div className="p-4">
+            <div className="flex justify-between items-center mb-3">
+              <h3 className="text-xs font-bold text-cyan-500 uppercase tracking-wide">Cycle Profiler</h3>
+              <div className="flex gap-1">
+                {(Object.keys(FRAME_CYCLES) as FrameStandard[]).map(std => (
+                  <button
+                    key={std}
+                    onClick={() => setFrameStandard(std)}
+                    className={`text-[9px] font-bold px-1.5 py-0.5 rounded border ${frameStandard === std ? 'bg-cyan-900/40 border-cyan-600 text-cyan-300' : 'bg-gray-900 border-gray-700 text-gray-500 hover:text-gray-300'}`}
+                    title={`${FRAME_CYCLES[std].toLocaleString()} T-states per frame`}
+                  >
+                    {std}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex gap-2 mb-4">
+              <button
+                onClick={runProfile}
+                disabled={appState.isPlaying}
+                className="flex-1 bg-cyan-900/40 hover:bg-cyan-800/50 border border-cyan-700/60 text-cyan-200 py-1.5 rounded flex items-center justify-center gap-1.5 text-[10px] font-bold transition-colors disabled:opacity-30"
+                title="Runs the routine at the current line until it returns or loops back to its first line"
+              >
+                <Play size={12} fill="currentColor" /> PROFILE FROM CURRENT LINE
+              </button>
+              <button
+                onClick={exportProfileCsv}
+                disabled={!profile}
+                className="w-9 bg-gray-900 hover:bg-gray-800 border border-gray-700 text-gray-300 rounded flex items-center justify-center disabled:opacity-30 transition-colors"
+                title="Export CSV"
+              >
+                <Download size={12} />
+              </button>
+            </div>
+
+            {!profile ? (
+              <div className="p-6 text-center text-gray-600 flex flex-col items-center">
+                <Gauge size={32} className="mb-3 opacity-20" />
+                <p className="text-xs">Place the cursor on a routine (or the top of the game loop) and run the profiler.</p>
+              </div>
+            ) : (
+              <>
+                <div className="bg-[#1a1a1a] border border-gray-800 rounded p-2 mb-3">
+                  <div className="flex justify-between items-baseline font-mono">
+                    <span className="text-xs font-bold text-gray-200 truncate" title={profile.rootLabel}>{profile.rootLabel}</span>
+                    <span className="text-xs text-cyan-300">{profile.totalCycles.toLocaleString()}T</span>
+                  </div>
+                  <div className="w-full bg-gray-800 h-1.5 mt-2 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full ${profileFrameShare > 100 ? 'bg-red-500' : profileFrameShare > 80 ? 'bg-yellow-500' : 'bg-cyan-500'}`}
+                      style={{ width: `${Math.min(100, profileFrameShare)}%` }}
+                    />
+                  </div>
+                  <div className="flex justify-between mt-1 text-[9px] text-gray-500">
+                    <span>{profile.instructions.toLocaleString()} instructions</span>
+                    <span className={profileFrameShare > 100 ? 'text-red-400 font-bold' : ''}>
+                      {profileFrameShare.toFixed(1)}% of a {frameStandard} frame
+                    </span>
+                  </div>
+                  {!profile.completed && (
+                    <div className="flex items-center gap-1 mt-1 text-[9px] text-yellow-500">
+                      <AlertTriangle size={10} /> Step limit reached before the routine returned
+                    </div>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-[1fr_36px_56px_56px] gap-1 text-[9px] font-bold text-gray-500 uppercase border-b border-gray-800 pb-1 mb-1">
+                  {([['label', 'Routine'], ['calls', 'Calls'], ['inclusive', 'Incl'], ['exclusive', 'Excl']] as [ProfileSortKey, string][]).map(([key, title]) => (
+                    <button
+                      key={key}
+                      onClick={() => sortProfileBy(key)}
+                      className={`text-left hover:text-gray-300 ${profileSort.key === key ? 'text-cyan-400' : ''} ${key !== 'label' ? 'text-right' : ''}`}
+                    >
+                      {title}{profileSort.key === key ? (profileSort.desc ? ' ▼' : ' ▲') : ''}
+                    </button>
+                  ))}
+                </div>
+                <div className="space-y-0.5">
+                  {sortedProfile.map(entry => {
+                    const share = frameShare(entry.inclusive, frameStandard);
+                    return (
+                      <div
+                        key={entry.label}
+                        onClick={() => jumpToLine(entry.line)}
+                        className="grid grid-cols-[1fr_36px_56px_56px] gap-1 items-center font-mono text-[10px] px-1 py-1 rounded hover:bg-cyan-900/20 cursor-pointer"
+                        title={`Inclusive: ${share.toFixed(2)}% / Exclusive: ${frameShare(entry.exclusive, frameStandard).toFixed(2)}% of a ${frameStandard} frame`}
+                      >
+                        <span className="text-gray-300 truncate">{entry.label}</span>
+                        <span className="text-right text-gray-500">{entry.calls}</span>
+                        <span className={`text-right ${share > 100 ? 'text-red-400' : 'text-cyan-300'}`}>{entry.inclusive.toLocaleString()}</span>
+                        <span className="text-right text-gray-400">{entry.exclusive.toLocaleString()}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
       ) : activeTab === 'LBL' ? (
         <div className="flex-1 overflow-y-auto custom-scrollbar bg-[#0d0d0d]">
           {Object.keys(analysis.labels).length === 0 ? (
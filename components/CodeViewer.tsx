@@ -1,7 +1,11 @@
 
 import React, { useEffect, useRef, useState } from 'react';
-import { AppState } from '../types';
-import { Edit2, Check, X as CloseX, Microscope, CornerRightDown, Tag } from 'lucide-react';
+import { AppState, CycleSelection } from '../types';
+import { readMem } from '../services/z80Memory';
+import { calculateCodeSelectionCycles } from '../services/geminiService';
+import { disassembleRange, createLabelLookup } from '../services/z80Disassembler';
+import { getMSXInfo } from '../services/msxContext';
+import { Edit2, Check, X as CloseX, Microscope, CornerRightDown, Tag, Clock, Binary, BookOpen } from 'lucide-react';
 
 interface CodeViewerProps {
   appState: AppState;
@@ -10,15 +14,24 @@ interface CodeViewerProps {
   onAnalyze: () => void;
 }
 
+// Instructions shown from PC when it runs code without a source line
+const DISASSEMBLY_ROWS = 16;
+
 export const CodeViewer: React.FC<CodeViewerProps> = ({ appState, onToggleBreakpoint, onCodeChange, onAnalyze }) => {
   const lineRefs = useRef<{ [key: number]: HTMLDivElement | null }>({});
   const containerRef = useRef<HTMLDivElement>(null);
   const [editingLine, setEditingLine] = useState<number | null>(null);
   const [editValue, setEditValue] = useState('');
+  const [cycleSelection, setCycleSelection] = useState<{ from: number; to: number; result: CycleSelection } | null>(null);
   
   const lines = appState.code ? appState.code.split('\n') : [];
   const currentStep = appState.analysis?.steps[appState.currentStepIndex];
-  const activeLineNumber = appState.manualLine || currentStep?.lineNumber;
+  // CPU mode in BIOS ROM or other code without source: no line is current
+  const pc = appState.liveRegisters.pc;
+  const isOffSource = appState.executionMode === 'CPU' && !!appState.analysis && appState.analysis.addressLines[pc] === undefined;
+  const activeLineNumber = isOffSource ? undefined : appState.manualLine || currentStep?.lineNumber;
+  const labelAt = isOffSource ? createLabelLookup(appState.analysis) : null;
+  const disassembly = labelAt ? disassembleRange(appState.liveMemory, pc, DISASSEMBLY_ROWS, labelAt) : [];
 
   useEffect(() => {
     if (activeLineNumber && lineRefs.current[activeLineNumber] && !appState.isEditing && editingLine === null) {
@@ -83,30 +96,31 @@ export const CodeViewer: React.FC<CodeViewerProps> = ({ appState, onToggleBreakp
     setEditingLine(null);
   };
 
-  // Helper to read memory safely from AppState
-  const readMemoryValue = (addr: number): number => {
-      // 1. Try Live Memory (Stack/Raw)
-      const stackKey = `STACK:${addr}`;
-      if (appState.liveMemory[stackKey] !== undefined) return appState.liveMemory[stackKey];
-
-      // 2. Try Live Memory (Labels)
-      // We need to reverse lookup the address to a label
-      if (appState.analysis?.symbolTable) {
-          const labelEntry = Object.entries(appState.analysis.symbolTable).find(([_, val]) => val === addr);
-          if (labelEntry) {
-              const labelName = labelEntry[0];
-              if (appState.liveMemory[labelName] !== undefined) return appState.liveMemory[labelName];
-          }
-      }
+  // --- SELECTION CYCLE COUNTER ---
+  // Selecting source lines shows their T-state breakdown
+  const lineOfNode = (node: Node | null): number | null => {
+      const el = (node instanceof Element ? node : node?.parentElement)?.closest('[id^="code-line-"]');
+      return el ? parseInt(el.id.replace('code-line-', '')) : null;
+  };
 
-      // 3. Try Static Map
-      if (appState.analysis?.memoryMap && appState.analysis.memoryMap[addr] !== undefined) {
-          return appState.analysis.memoryMap[addr];
-      }
+  const handleSelectionEnd = () => {
+      const selection = window.getSelection();
+      if (!selection || selection.isCollapsed || !appState.analysis || editingLine !== null) return;
+      const anchor = lineOfNode(selection.anchorNode);
+      const focus = lineOfNode(selection.focusNode);
+      if (anchor === null || focus === null) return;
+      // A single word on one line is the double-click label navigation
+      if (anchor === focus && !/\s/.test(selection.toString().trim())) return;
 
-      return 0; // Default or 0x00
+      const from = Math.min(anchor, focus);
+      const to = Math.max(anchor, focus);
+      const result = calculateCodeSelectionCycles(lines.slice(from - 1, to).join('\n'), from);
+      setCycleSelection(result.details.length > 0 ? { from, to, result } : null);
   };
 
+  // Helper to read memory safely from AppState
+  const readMemoryValue = (addr: number): number => readMem(appState.liveMemory, addr);
+
   // Helper to get register pair value
   const getPairValue = (pair: string): number => {
       const { h, l, b, c, d, e } = appState.liveRegisters;
@@ -147,7 +161,7 @@ export const CodeViewer: React.FC<CodeViewerProps> = ({ appState, onToggleBreakp
           </div>
       </div>
 
-      <div className="flex-1 overflow-y-auto custom-scrollbar p-2" ref={containerRef}>
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-2" ref={containerRef} onMouseUp={handleSelectionEnd}>
         <div className="min-w-full inline-block">
           {lines.map((line, idx) => {
             const lineNum = idx + 1;
@@ -156,6 +170,8 @@ export const CodeViewer: React.FC<CodeViewerProps> = ({ appState, onToggleBreakp
             const isEditingThis = editingLine === lineNum;
             const address = appState.analysis?.lineAddresses[lineNum];
             const addrString = address !== undefined ? address.toString(16).toUpperCase().padStart(4, '0') : '';
+            const lineBytes = appState.analysis?.lineBytes?.[lineNum];
+            const bytesString = lineBytes ? lineBytes.map(b => b.toString(16).toUpperCase().padStart(2, '0')).join(' ') : '';
             
             let infoTag = null;
 
@@ -172,7 +188,7 @@ export const CodeViewer: React.FC<CodeViewerProps> = ({ appState, onToggleBreakp
                             <span className="text-[10px] text-teal-200 font-mono">
                                 {pair}: <span className="text-white font-bold">${addr.toString(16).toUpperCase().padStart(4,'0')}</span>
                             </span>
-                            <span className="text-[10px] text-gray-400">-></span>
+                            <span className="text-[10px] text-gray-400">{"->"}</span>
                             <span className="text-[10px] text-teal-200 font-mono">
                                 Val: <span className="text-yellow-400 font-bold">${val.toString(16).toUpperCase().padStart(2,'0')}</span>
                             </span>
@@ -214,7 +230,28 @@ export const CodeViewer: React.FC<CodeViewerProps> = ({ appState, onToggleBreakp
                  }
             }
 
-            // 3. EQU Value Inspector (Show on definition lines)
+            // 3. BIOS Call Inspector (Active Line Only): documented inputs, outputs and registers changed
+            if (isActive && !isEditingThis && !infoTag) {
+                 const callMatch = line.split(';')[0].match(/^\s*(?:[A-Z0-9_.]+:?\s+)?(?:CALL|JP|RST)\s+(?:(?:NZ|Z|NC|C|PO|PE|P|M)\s*,\s*)?([A-Z0-9_.$#]+)\s*$/i);
+                 const name = callMatch?.[1].toUpperCase();
+                 const entry = name && appState.analysis?.symbolTable[name] === undefined ? getMSXInfo(name) : null;
+                 if (entry && entry.type === 'BIOS') {
+                     const changes = entry.clobbers && entry.clobbers.length > 0 ? entry.clobbers.join(' ').toUpperCase() : 'none';
+                     infoTag = (
+                         <div className="ml-4 flex items-center gap-1.5 bg-orange-900/30 border border-orange-500/30 px-2 py-0.5 rounded animate-fade-in whitespace-nowrap" title={entry.description}>
+                            <BookOpen size={12} className="text-orange-400" />
+                            <span className="text-[10px] text-orange-200 font-mono">
+                                {entry.label}
+                                {entry.inputs && <span className="text-gray-400 ml-2">in: {entry.inputs}</span>}
+                                {entry.outputs && <span className="text-green-400 ml-2">out: {entry.outputs}</span>}
+                                <span className="text-gray-500 ml-2">changes: {changes}</span>
+                            </span>
+                        </div>
+                     );
+                 }
+            }
+
+            // 4. EQU Value Inspector (Show on definition lines)
             if (!infoTag && !isEditingThis) {
                 // Regex to find "LABEL EQU VALUE"
                 const equMatch = line.match(/^\s*([A-Z0-9_]+)[:]?\s+EQU\b/i);
@@ -252,8 +289,15 @@ export const CodeViewer: React.FC<CodeViewerProps> = ({ appState, onToggleBreakp
                 >
                   {isBreakpoint && <div className="w-1.5 h-1.5 bg-red-600 rounded-full shrink-0 shadow-[0_0_5px_red]" />}
                   <span className="w-8">{lineNum}</span>
-                  <span className={`text-[10px] font-mono w-8 text-center ${isActive ? 'text-gray-400' : 'text-gray-800'}`}>{addrString}</span>
+                  <span className={`text-[10px] font-mono w-8 text-center ${isActive ? 'text-gray-400' : 'text-gray-800'}`} title={bytesString}>{addrString}</span>
                 </div>
+
+                {/* Assembled Bytes */}
+                {appState.analysis && (
+                  <div className={`w-24 flex-shrink-0 text-[10px] font-mono truncate select-none mr-2 ${isActive ? 'text-gray-400' : 'text-gray-700'}`} title={bytesString}>
+                    {bytesString}
+                  </div>
+                )}
                 
                 {/* Code or Editor */}
                 {isEditingThis ? (
@@ -306,6 +350,76 @@ export const CodeViewer: React.FC<CodeViewerProps> = ({ appState, onToggleBreakp
           })}
         </div>
       </div>
+
+      {/* On-the-fly disassembly at PC */}
+      {isOffSource && labelAt && (
+        <div className="absolute top-12 right-4 w-80 flex flex-col bg-[#111] border border-orange-900/60 rounded shadow-2xl z-30 animate-fade-in">
+          <div className="flex items-center justify-between px-3 py-2 border-b border-gray-800">
+            <div className="flex items-center gap-2">
+              <Binary size={12} className="text-orange-400" />
+              <span className="text-[10px] font-bold text-gray-300 uppercase tracking-wider">Disassembly</span>
+            </div>
+            <span className="text-[10px] font-mono text-orange-300">
+              {labelAt(pc) ?? (appState.biosRom && pc < appState.biosRom.data.length ? appState.biosRom.name : 'No source')}
+            </span>
+          </div>
+          <div className="px-3 py-1">
+            {disassembly.map((instr, i) => {
+              const name = i > 0 ? labelAt(instr.address) : undefined;
+              return (
+                <div key={instr.address} className={`flex items-center gap-2 font-mono text-[10px] py-0.5 ${i === 0 ? 'bg-blue-900/30 text-white font-bold' : 'text-gray-400'}`}>
+                  <span className={i === 0 ? 'text-blue-400 w-9 shrink-0' : 'text-gray-600 w-9 shrink-0'}>{instr.address.toString(16).toUpperCase().padStart(4, '0')}</span>
+                  <span className="text-gray-600 w-20 shrink-0 truncate">{instr.bytes.map(b => b.toString(16).toUpperCase().padStart(2, '0')).join(' ')}</span>
+                  <span className="truncate flex-1">{instr.text}</span>
+                  {name && <span className="text-indigo-400 truncate">{name}:</span>}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Selection T-State Breakdown */}
+      {cycleSelection && (
+        <div className="absolute bottom-3 right-4 w-72 max-h-80 flex flex-col bg-[#111] border border-cyan-900/60 rounded shadow-2xl z-30 animate-fade-in">
+          <div className="flex items-center justify-between px-3 py-2 border-b border-gray-800">
+            <div className="flex items-center gap-2">
+              <Clock size={12} className="text-cyan-400" />
+              <span className="text-[10px] font-bold text-gray-300 uppercase tracking-wider">
+                Lines {cycleSelection.from}-{cycleSelection.to}
+              </span>
+            </div>
+            <CloseX size={14} className="text-gray-500 hover:text-white cursor-pointer" onClick={() => setCycleSelection(null)} />
+          </div>
+          <div className="flex-1 overflow-y-auto custom-scrollbar px-3 py-1">
+            {cycleSelection.result.details.map(detail => (
+              <div
+                key={detail.lineNumber}
+                onClick={() => scrollToLine(detail.lineNumber)}
+                className="flex items-center justify-between gap-2 font-mono text-[10px] py-0.5 cursor-pointer hover:bg-gray-900"
+              >
+                <span className="text-gray-600 w-8 shrink-0">{detail.lineNumber}</span>
+                <span className="text-gray-300 truncate flex-1">{detail.instruction}</span>
+                <span className={detail.cyclesNotTaken !== undefined ? 'text-yellow-400' : 'text-cyan-300'}>
+                  {detail.cyclesNotTaken !== undefined ? `${detail.cycles}/${detail.cyclesNotTaken}` : detail.cycles}T
+                </span>
+              </div>
+            ))}
+          </div>
+          <div className="px-3 py-2 border-t border-gray-800 font-mono">
+            <div className="flex justify-between text-xs">
+              <span className="text-gray-500">{cycleSelection.result.details.length} instr.</span>
+              <span className="text-cyan-300 font-bold">{cycleSelection.result.total}T</span>
+            </div>
+            {cycleSelection.result.minTotal !== cycleSelection.result.maxTotal && (
+              <div className="flex justify-between text-[10px] text-yellow-500 mt-0.5">
+                <span>Conditional range</span>
+                <span>{cycleSelection.result.minTotal}T - {cycleSelection.result.maxTotal}T</span>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -1,7 +1,11 @@
 
 import React, { useRef, useState } from 'react';
-import { Upload, SkipForward, RotateCcw, FileCode, AlertTriangle, Cpu, CornerDownRight, CornerUpLeft, Layers, Search, X, CheckCircle, XCircle, Undo2, Play, Pause, Edit, Eye, Monitor, Zap, FastForward } from 'lucide-react';
-import { AppState, StepType, ReachabilityResult, Z80Registers } from '../types';
+import { Upload, SkipForward, RotateCcw, FileCode, AlertTriangle, Cpu, CornerDownRight, CornerUpLeft, Layers, Search, X, CheckCircle, XCircle, Undo2, Play, Pause, Edit, Eye, Monitor, Zap, FastForward, Repeat, Download, Clock, Music, HardDrive } from 'lucide-react';
+import { AppState, BiosRom, StepType, ReachabilityResult, Z80Registers } from '../types';
+import { buildBinaryImage, padRomImage } from '../services/z80Assembler';
+import { getVdpMode } from '../services/vdp';
+import { readVramImageFile, VramImage } from '../services/vramImage';
+import { readBiosRomFile } from '../services/biosRom';
 
 interface ControlPanelProps {
   appState: AppState;
@@ -16,8 +20,12 @@ interface ControlPanelProps {
   onTogglePlay: () => void;
   onToggleEdit: () => void;
   onToggleVDP: () => void;
+  onTogglePSG?: () => void;
   onRegisterChange: (reg: keyof Z80Registers, value: number) => void;
   onRunLoop?: () => void;
+  onToggleExecutionMode?: () => void;
+  onLoadVram?: (image: VramImage, fileName: string) => void;
+  onLoadBiosRom?: (rom: BiosRom | null) => void;
 }
 
 export const ControlPanel: React.FC<ControlPanelProps> = ({ 
@@ -33,10 +41,18 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
   onTogglePlay,
   onToggleEdit,
   onToggleVDP,
+  onTogglePSG,
   onRegisterChange,
-  onRunLoop
+  onRunLoop,
+  onToggleExecutionMode,
+  onLoadVram,
+  onLoadBiosRom
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const vramInputRef = useRef<HTMLInputElement>(null);
+  const [vramLoadError, setVramLoadError] = useState<string | null>(null);
+  const biosInputRef = useRef<HTMLInputElement>(null);
+  const [biosLoadError, setBiosLoadError] = useState<string | null>(null);
   const [showSearchDialog, setShowSearchDialog] = useState(false);
   const [searchLabel, setSearchLabel] = useState('');
   const [searchResult, setSearchResult] = useState<ReachabilityResult | null>(null);
@@ -60,6 +76,42 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
     setSearchResult(result);
   };
 
+  // Assembled output: cartridges (starting with the "AB" header) are padded to a ROM size
+  const binaryImage = appState.analysis ? buildBinaryImage(appState.analysis.memoryMap) : null;
+  const isRomImage = !!binaryImage && binaryImage.bytes[0] === 0x41 && binaryImage.bytes[1] === 0x42;
+
+  const handleDownloadBinary = () => {
+    if (!binaryImage) return;
+    const data = isRomImage ? padRomImage(binaryImage.bytes) : binaryImage.bytes;
+    const baseName = (appState.fileName || 'untitled.asm').replace(/\.[^.]+$/, '');
+    const url = URL.createObjectURL(new Blob([data], { type: 'application/octet-stream' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${baseName}.${isRomImage ? 'ROM' : 'BIN'}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // BLOAD-style VRAM image (.SC2 or raw dump) into the live VDP
+  const handleVramFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !onLoadVram) return;
+    const image = await readVramImageFile(file);
+    setVramLoadError(image ? null : `${file.name} is not a BSAVE image or a raw VRAM dump`);
+    if (image) onLoadVram(image, file.name);
+  };
+
+  // C-BIOS or a real machine's main ROM, mapped at $0000 for CPU mode
+  const handleBiosFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !onLoadBiosRom) return;
+    const rom = await readBiosRomFile(file);
+    setBiosLoadError(rom ? null : `${file.name} is not a 16KB / 32KB MSX BIOS image`);
+    if (rom) onLoadBiosRom(rom);
+  };
+
   const closeDialog = () => {
     setShowSearchDialog(false);
     setSearchLabel('');
@@ -68,16 +120,21 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
 
   const currentStep = appState.analysis?.steps[appState.currentStepIndex];
   const totalSteps = appState.analysis?.steps.length || 0;
-  const isFinished = !appState.manualLine && appState.analysis && appState.currentStepIndex >= totalSteps - 1;
+  // CPU mode: execution follows PC through memory, never "finishes" on the step list
+  const isCpuMode = appState.executionMode === 'CPU';
+  const pcLine = appState.analysis?.addressLines[appState.liveRegisters.pc];
+  const isFinished = !isCpuMode && !appState.manualLine && appState.analysis && appState.currentStepIndex >= totalSteps - 1;
   
   const isManualMode = appState.manualLine !== null;
-  const canStepIn = isManualMode 
+  const canStepIn = isCpuMode || isManualMode 
     ? true 
     : currentStep?.type === StepType.CALL;
     
-  const canStepOut = appState.callStack.length > 0;
+  const canStepOut = isCpuMode || appState.callStack.length > 0;
   const canUndo = appState.history.length > 0;
   const isDJNZ = currentStep?.opcode === 'DJNZ';
+  // Cost of the last step: difference with the previous history snapshot
+  const lastStepTStates = canUndo ? appState.liveTStates - appState.history[0].liveTStates : null;
 
   return (
     <div className="w-80 bg-[#111] border-r border-gray-800 flex flex-col h-full overflow-y-auto relative">
@@ -131,6 +188,16 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
                <Search size={16} />
             </button>
           )}
+
+          {binaryImage && (
+            <button
+               onClick={handleDownloadBinary}
+               className="w-10 bg-gray-800 hover:bg-gray-700 border border-gray-600 rounded flex items-center justify-center text-gray-300"
+               title={`Download .${isRomImage ? 'ROM' : 'BIN'} ($${binaryImage.start.toString(16).toUpperCase().padStart(4, '0')}, ${binaryImage.bytes.length} bytes)`}
+            >
+               <Download size={16} />
+            </button>
+          )}
         </div>
         
         {appState.analysis && (
@@ -145,8 +212,22 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
       <div className="p-6 flex-1">
         <div className="flex justify-between items-center mb-4">
             <h2 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">
-               {isManualMode ? "Manual Debugger" : "Flow Debugger"}
+               {isCpuMode ? "CPU Debugger" : isManualMode ? "Manual Debugger" : "Flow Debugger"}
             </h2>
+            {onToggleExecutionMode && appState.analysis && (
+                <button
+                  onClick={onToggleExecutionMode}
+                  disabled={appState.isPlaying}
+                  className={`text-[10px] font-bold px-1.5 py-0.5 rounded border transition-colors disabled:opacity-30 ${
+                    isCpuMode
+                      ? 'bg-orange-900/30 border-orange-600 text-orange-300'
+                      : 'bg-gray-900 border-gray-700 text-gray-400 hover:text-gray-200'
+                  }`}
+                  title={isCpuMode ? "Executing bytes from memory (click for source stepping)" : "Stepping source lines (click to execute bytes from memory)"}
+                >
+                  {isCpuMode ? 'CPU' : 'SRC'}
+                </button>
+            )}
             {/* Breakpoint status */}
             {appState.breakpoints.size > 0 && (
                 <div className="flex items-center gap-1 text-[10px] text-red-400 bg-red-900/20 px-1.5 py-0.5 rounded border border-red-900/50">
@@ -156,6 +237,41 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             )}
         </div>
         
+        {isCpuMode && (
+            <div className="mb-2 flex items-center justify-between text-[10px] font-mono bg-orange-950/20 border border-orange-900/40 rounded px-2 py-1">
+                <span className="text-orange-300">PC=${appState.liveRegisters.pc.toString(16).toUpperCase().padStart(4, '0')}</span>
+                <span className={pcLine !== undefined ? 'text-gray-400' : 'text-yellow-500'}>
+                    {pcLine !== undefined ? `Line ${pcLine}` : 'No source line'}
+                </span>
+            </div>
+        )}
+
+        {/* BIOS: emulated entry points or a real ROM image */}
+        {onLoadBiosRom && (
+            <div className="mb-2">
+                <div className="flex items-center justify-between gap-2 text-[10px] font-mono bg-gray-900/50 border border-gray-800 rounded px-2 py-1">
+                    <span className="flex items-center gap-1.5 overflow-hidden">
+                        <HardDrive size={12} className={appState.biosRom ? 'text-orange-400 shrink-0' : 'text-gray-600 shrink-0'} />
+                        <span className={`truncate ${appState.biosRom ? 'text-gray-200' : 'text-gray-500'}`} title={appState.biosRom ? `${appState.biosRom.data.length / 1024}KB at $0000 (executed in CPU mode)` : 'BIOS calls are emulated at high level'}>
+                            {appState.biosRom ? appState.biosRom.name : 'BIOS: emulated'}
+                        </span>
+                    </span>
+                    <span className="flex gap-2 shrink-0">
+                        <button onClick={() => biosInputRef.current?.click()} disabled={appState.isPlaying} className="text-gray-400 hover:text-white disabled:opacity-30 underline" title="Load a C-BIOS or MSX main ROM image (16KB / 32KB)">
+                            {appState.biosRom ? 'Change' : 'Load ROM'}
+                        </button>
+                        {appState.biosRom && (
+                            <button onClick={() => onLoadBiosRom(null)} disabled={appState.isPlaying} className="text-gray-500 hover:text-red-400 disabled:opacity-30" title="Unload the ROM (back to emulated BIOS calls)">
+                                <X size={12} />
+                            </button>
+                        )}
+                    </span>
+                </div>
+                <input type="file" accept=".rom,.bin" ref={biosInputRef} className="hidden" onChange={handleBiosFileChange} />
+                {biosLoadError && <p className="text-[10px] text-red-400 mt-1">{biosLoadError}</p>}
+            </div>
+        )}
+
         {/* Play/Step/Reset */}
         <div className="flex gap-2 mb-2">
           {appState.analysis && !isFinished ? (
@@ -225,6 +341,22 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             <span className="text-xs font-bold">OUT</span>
           </button>
         </div>
+
+        {/* T-State Counter */}
+        {appState.analysis && (
+            <div className="mb-4 flex items-center justify-between bg-[#0a0a0a] border border-gray-800 rounded px-2 py-1.5" title="MSX T-states (including the M1 wait state) since the last reset">
+                <div className="flex items-center gap-2">
+                    <Clock size={12} className="text-cyan-400" />
+                    <span className="text-[10px] font-bold text-gray-400 uppercase">T-States</span>
+                </div>
+                <div className="flex items-center gap-2 font-mono">
+                    {lastStepTStates !== null && (
+                        <span className="text-[10px] text-gray-500">+{lastStepTStates}</span>
+                    )}
+                    <span className="text-xs text-cyan-300">{appState.liveTStates.toLocaleString()}</span>
+                </div>
+            </div>
+        )}
         
         {/* DJNZ Controls */}
         {isDJNZ && (
@@ -249,14 +381,39 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
 
         {/* VDP Monitor Toggle */}
         <div className="mb-6">
-           <button 
-              onClick={onToggleVDP}
-              disabled={!appState.analysis}
-              className="w-full bg-[#1a1a1a] border border-gray-700 hover:border-blue-500 hover:text-white text-gray-400 py-2 rounded flex items-center justify-center gap-2 transition-all disabled:opacity-50"
-           >
-              <Monitor size={16} />
-              <span className="text-xs font-bold">VDP MONITOR (Screen 2)</span>
-           </button>
+           <div className="flex gap-2">
+             <button 
+                onClick={onToggleVDP}
+                disabled={!appState.analysis}
+                className="flex-1 bg-[#1a1a1a] border border-gray-700 hover:border-blue-500 hover:text-white text-gray-400 py-2 rounded flex items-center justify-center gap-2 transition-all disabled:opacity-50"
+             >
+                <Monitor size={16} />
+                <span className="text-xs font-bold">VDP MONITOR (Screen {getVdpMode(appState.liveVDP.registers).screen})</span>
+             </button>
+             {onLoadVram && (
+               <button
+                  onClick={() => vramInputRef.current?.click()}
+                  disabled={!appState.analysis || appState.isPlaying}
+                  className="bg-[#1a1a1a] border border-gray-700 hover:border-blue-500 hover:text-white text-gray-400 px-3 py-2 rounded flex items-center justify-center gap-1 transition-all disabled:opacity-50"
+                  title="BLOAD a .SC2 / raw VRAM image into the VDP (undoable)"
+               >
+                  <Upload size={14} />
+                  <span className="text-[10px] font-bold">VRAM</span>
+               </button>
+             )}
+           </div>
+           <input type="file" accept=".sc2,.sc1,.sc3,.sc0,.sc5,.sc8,.vram,.bin" ref={vramInputRef} className="hidden" onChange={handleVramFileChange} />
+           {vramLoadError && <p className="text-[10px] text-red-400 mt-1">{vramLoadError}</p>}
+           {onTogglePSG && (
+             <button
+                onClick={onTogglePSG}
+                disabled={!appState.analysis}
+                className="w-full mt-2 bg-[#1a1a1a] border border-gray-700 hover:border-green-500 hover:text-white text-gray-400 py-2 rounded flex items-center justify-center gap-2 transition-all disabled:opacity-50"
+             >
+                <Music size={16} />
+                <span className="text-xs font-bold">PSG MONITOR</span>
+             </button>
+           )}
         </div>
 
         {/* Call Stack */}
@@ -318,6 +475,20 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
                 </div>
               </div>
             )}
+
+            {/* Last Block Instruction (LDIR/OTIR...) */}
+            {appState.lastBlockOp && (
+              <div className="bg-cyan-950/20 border border-cyan-900/40 rounded p-2 flex items-center justify-between animate-fade-in">
+                <div className="flex items-center gap-2">
+                  <Repeat size={12} className="text-cyan-400" />
+                  <span className="text-[10px] font-bold text-cyan-300 font-mono">{appState.lastBlockOp.opcode}</span>
+                  <span className="text-[10px] text-gray-400">
+                    {appState.lastBlockOp.iterations} {appState.lastBlockOp.iterations === 1 ? 'byte' : 'bytes'}
+                  </span>
+                </div>
+                <span className="text-[9px] text-gray-500 bg-gray-900 px-1 rounded font-mono">{appState.lastBlockOp.cycles}T</span>
+              </div>
+            )}
           </div>
         )}
 
@@ -392,6 +563,11 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
                        {searchResult.status === 'REFERENCED' && "Referenced but not executed."}
                        {searchResult.status === 'NOT_FOUND' && "Not found."}
                     </p>
+                    {searchResult.status !== 'NOT_FOUND' && (
+                      <p className="text-[10px] text-gray-500 font-mono">
+                        Line {searchResult.labelLine} · {searchResult.referenceCount} {searchResult.referenceCount === 1 ? 'reference' : 'references'}
+                      </p>
+                    )}
                  </div>
                  {searchResult.tracePath.length > 0 && (
                    <div className="bg-[#0a0a0a] rounded p-3 border border-gray-800">
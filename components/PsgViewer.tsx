@@ -0,0 +1,217 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { PSGState } from '../types';
+import {
+  PSG_CHANNELS, getTonePeriod, getNoisePeriod, getEnvelopePeriod, isToneEnabled, isNoiseEnabled,
+  usesEnvelope, getVolume, toneFrequency, envelopeFrequency, frequencyToNote, envelopeShapeName, renderPsgSamples,
+  getPsgLog, getPsgLogLength
+} from '../services/psg';
+import { encodePsgVgm, getPsgLogDuration } from '../services/vgm';
+import { X, Music, Play, Square, Download, Trash2 } from 'lucide-react';
+
+interface PsgViewerProps {
+  psgState: PSGState;
+  onClose: () => void;
+  onClearLog?: () => void;
+}
+
+// Length of the audio preview of the current registers
+const PREVIEW_SECONDS = 2;
+// Latest writes listed under the log
+const LOG_ROWS = 16;
+
+export const PsgViewer: React.FC<PsgViewerProps> = ({ psgState, onClose, onClearLog }) => {
+  const [playing, setPlaying] = useState(false);
+  // One AudioContext for the viewer's lifetime; each preview only swaps the buffer source
+  const audioRef = useRef<AudioContext | null>(null);
+  const gainRef = useRef<GainNode | null>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const { registers } = psgState;
+  const hex2 = (val: number) => val.toString(16).toUpperCase().padStart(2, '0');
+  const hz = (freq: number) => freq >= 1000 ? `${(freq / 1000).toFixed(2)} kHz` : `${freq.toFixed(1)} Hz`;
+
+  // --- AUDIO PREVIEW ---
+
+  const stopSource = () => {
+    const source = sourceRef.current;
+    if (source) {
+      source.onended = null;
+      source.stop();
+      source.disconnect();
+      sourceRef.current = null;
+    }
+  };
+
+  const stopPreview = () => {
+    stopSource();
+    setPlaying(false);
+  };
+
+  const startPreview = () => {
+    stopSource();
+    if (!audioRef.current) {
+      audioRef.current = new AudioContext();
+      gainRef.current = audioRef.current.createGain();
+      gainRef.current.gain.value = 0.5;
+      gainRef.current.connect(audioRef.current.destination);
+    }
+    const ctx = audioRef.current;
+    if (ctx.state === 'suspended') ctx.resume();
+    const samples = renderPsgSamples(psgState, ctx.sampleRate, PREVIEW_SECONDS);
+    const buffer = ctx.createBuffer(1, samples.length, ctx.sampleRate);
+    buffer.getChannelData(0).set(samples);
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(gainRef.current!);
+    source.onended = () => { if (sourceRef.current === source) stopPreview(); };
+    source.start();
+    sourceRef.current = source;
+    setPlaying(true);
+  };
+
+  // While the preview plays, stepping through a sound routine restarts it with the new
+  // registers. Keyed on the register contents: play mode hands over a new PSGState every tick.
+  const registerKey = registers.join(',');
+  useEffect(() => {
+    if (playing) startPreview();
+  }, [registerKey]);
+
+  useEffect(() => () => {
+    stopSource();
+    if (audioRef.current) audioRef.current.close();
+  }, []);
+
+  // --- LOG EXPORT ---
+
+  const handleExportVgm = () => {
+    const url = URL.createObjectURL(new Blob([encodePsgVgm(psgState)], { type: 'application/octet-stream' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'psg_log.vgm';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const logLength = getPsgLogLength(psgState);
+  const recentWrites = getPsgLog(psgState, LOG_ROWS).reverse();
+  const noisePeriod = getNoisePeriod(registers);
+  const envelopePeriod = getEnvelopePeriod(registers);
+
+  return (
+    <div className="absolute inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center animate-fade-in p-1 md:p-2">
+       <div className="bg-[#1a1a1a] rounded-lg shadow-2xl border border-gray-700 w-full max-w-3xl max-h-[98vh] flex flex-col overflow-hidden">
+          {/* Header */}
+          <div className="bg-[#252526] p-3 flex justify-between items-center border-b border-gray-800 flex-shrink-0">
+             <div className="flex items-center gap-2 text-gray-200">
+                <Music size={18} className="text-green-400" />
+                <h2 className="font-bold text-sm tracking-wide uppercase">PSG MONITOR</h2>
+                <span className="text-[10px] text-gray-500 font-mono">AY-3-8910 · R#{psgState.selected} selected</span>
+             </div>
+             <div className="flex gap-2">
+                 <button
+                    onClick={playing ? stopPreview : startPreview}
+                    className={`transition-colors p-1 flex items-center gap-1 text-[10px] font-bold ${playing ? 'text-green-400 hover:text-white' : 'text-gray-400 hover:text-white'}`}
+                    title={`Play ${PREVIEW_SECONDS}s of the current register state`}
+                 >
+                     {playing ? <Square size={14} /> : <Play size={14} />} {playing ? 'STOP' : 'PLAY'}
+                 </button>
+                 <button onClick={handleExportVgm} disabled={logLength === 0} className="text-gray-400 hover:text-white disabled:opacity-30 transition-colors p-1 flex items-center gap-1 text-[10px] font-bold" title="Export the register log as a VGM file">
+                     <Download size={14} /> .VGM
+                 </button>
+                 {onClearLog && (
+                   <button onClick={onClearLog} disabled={logLength === 0} className="text-gray-400 hover:text-white disabled:opacity-30 transition-colors p-1" title="Clear the register log (start a new recording)">
+                       <Trash2 size={14} />
+                   </button>
+                 )}
+                 <div className="w-px bg-gray-700 mx-1" />
+                 <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors p-1"><X size={20} /></button>
+             </div>
+          </div>
+
+          {/* Content */}
+          <div className="flex-1 overflow-y-auto custom-scrollbar bg-[#0d0d0d] p-4 space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  {PSG_CHANNELS.map((name, ch) => {
+                      const period = getTonePeriod(registers, ch);
+                      const freq = toneFrequency(period);
+                      const envelope = usesEnvelope(registers, ch);
+                      const volume = getVolume(registers, ch);
+                      return (
+                          <div key={name} className="bg-gray-900/50 p-3 rounded border border-gray-800">
+                             <h4 className="text-xs font-bold text-gray-400 mb-2 uppercase">Channel {name}</h4>
+                             <div className="grid grid-cols-1 gap-1 text-[10px] font-mono">
+                                <div className="flex justify-between border-b border-gray-800 py-1"><span>Period:</span> <span className="text-blue-400">{period}</span></div>
+                                <div className="flex justify-between border-b border-gray-800 py-1"><span>Freq:</span> <span className="text-blue-400">{hz(freq)}</span></div>
+                                <div className="flex justify-between border-b border-gray-800 py-1"><span>Note:</span> <span className="text-purple-300">{frequencyToNote(freq)}</span></div>
+                                <div className="flex justify-between border-b border-gray-800 py-1">
+                                   <span>Mixer:</span>
+                                   <span>
+                                      <span className={isToneEnabled(registers, ch) ? 'text-green-400' : 'text-gray-700'}>TONE</span>{' '}
+                                      <span className={isNoiseEnabled(registers, ch) ? 'text-yellow-400' : 'text-gray-700'}>NOISE</span>
+                                   </span>
+                                </div>
+                                <div className="flex justify-between items-center py-1">
+                                   <span>Volume:</span>
+                                   {envelope
+                                     ? <span className="text-yellow-400">ENV</span>
+                                     : <span className="flex items-center gap-2">
+                                         <span className="w-16 h-1.5 bg-black border border-gray-800 rounded-sm overflow-hidden">
+                                           <span className="block h-full bg-green-500" style={{ width: `${volume * 100 / 15}%` }} />
+                                         </span>
+                                         <span className="text-green-400 w-4 text-right">{volume}</span>
+                                       </span>}
+                                </div>
+                             </div>
+                          </div>
+                      );
+                  })}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <div className="bg-gray-900/50 p-3 rounded border border-gray-800">
+                     <h4 className="text-xs font-bold text-gray-400 mb-2 uppercase">Noise (R#6)</h4>
+                     <div className="grid grid-cols-1 gap-1 text-[10px] font-mono">
+                        <div className="flex justify-between border-b border-gray-800 py-1"><span>Period:</span> <span className="text-blue-400">{noisePeriod}</span></div>
+                        <div className="flex justify-between border-b border-gray-800 py-1"><span>Freq:</span> <span className="text-blue-400">{hz(toneFrequency(noisePeriod))}</span></div>
+                     </div>
+                  </div>
+                  <div className="bg-gray-900/50 p-3 rounded border border-gray-800">
+                     <h4 className="text-xs font-bold text-gray-400 mb-2 uppercase">Envelope (R#11 - R#13)</h4>
+                     <div className="grid grid-cols-1 gap-1 text-[10px] font-mono">
+                        <div className="flex justify-between border-b border-gray-800 py-1"><span>Period:</span> <span className="text-blue-400">{envelopePeriod}</span></div>
+                        <div className="flex justify-between border-b border-gray-800 py-1"><span>Cycle:</span> <span className="text-blue-400">{hz(envelopeFrequency(envelopePeriod))}</span></div>
+                        <div className="flex justify-between border-b border-gray-800 py-1"><span>Shape:</span> <span className="text-purple-300">${hex2(registers[13])} {envelopeShapeName(registers[13])}</span></div>
+                     </div>
+                  </div>
+              </div>
+
+              <div className="bg-gray-900/50 p-3 rounded border border-gray-800">
+                 <h4 className="text-xs font-bold text-gray-400 mb-2 uppercase">R#0 - R#15</h4>
+                 <div className="grid grid-cols-4 md:grid-cols-8 gap-2 text-[10px] font-mono">
+                    {registers.map((val, reg) => (
+                      <div key={reg} className={`flex justify-between bg-black border rounded px-1.5 py-1 ${reg === psgState.selected ? 'border-green-700' : 'border-gray-800'}`} title={val.toString(2).padStart(8, '0')}>
+                        <span className="text-gray-500">R{reg}</span>
+                        <span className="text-purple-300">{hex2(val)}</span>
+                      </div>
+                    ))}
+                 </div>
+              </div>
+
+              <div className="bg-gray-900/50 p-3 rounded border border-gray-800">
+                 <h4 className="text-xs font-bold text-gray-400 mb-2 uppercase">Register Log ({logLength.toLocaleString()} writes · {getPsgLogDuration(psgState).toFixed(2)} s)</h4>
+                 <div className="grid grid-cols-1 gap-0.5 text-[10px] font-mono">
+                    {recentWrites.map((entry, i) => (
+                      <div key={logLength - i} className="flex gap-4 border-b border-gray-800 py-0.5">
+                        <span className="text-cyan-300 w-24 text-right">{entry.tStates.toLocaleString()}</span>
+                        <span className="text-gray-500 w-8">R{entry.register}</span>
+                        <span className="text-purple-300">${hex2(entry.value)}</span>
+                      </div>
+                    ))}
+                    {logLength === 0 && <div className="text-center py-4 text-gray-600 text-xs">No PSG writes yet (OUT $A0/$A1, WRTPSG, GICINI)</div>}
+                 </div>
+              </div>
+          </div>
+       </div>
+    </div>
+  );
+};
@@ -1,46 +1,39 @@
 
 import React, { useEffect, useRef, useState } from 'react';
 import { VDPState } from '../types';
-import { X, Grid, Image, Binary, RefreshCw, Ghost, ArrowRight } from 'lucide-react';
+import { getVdpMode, getVdpTables, isDisplayEnabled, isBitmapMode, getSpriteSize, isSpriteMagnified, getScreenHeight, getVramAddress, VRAM_SIZE } from '../services/vdp';
+import { renderScreen, paletteRgba, paletteCss } from '../services/vdpRender';
+import { scanSprites, NO_SPRITE, MAX_SPRITES_PER_LINE } from '../services/vdpSprites';
+import { VDP_COMMAND_NAMES, LOGICAL_OP_NAMES } from '../services/vdpCommands';
+import { encodeVramImage, readVramImageFile, VramImage, VramImageFormat } from '../services/vramImage';
+import { X, Grid, Image, Binary, RefreshCw, Ghost, ArrowRight, Camera, Save, Upload } from 'lucide-react';
 
 interface VdpViewerProps {
   vdpState: VDPState;
   onClose: () => void;
+  onLoadVram?: (image: VramImage, fileName: string) => void;
 }
 
-export const VdpViewer: React.FC<VdpViewerProps> = ({ vdpState, onClose }) => {
+export const VdpViewer: React.FC<VdpViewerProps> = ({ vdpState, onClose, onLoadVram }) => {
   const [activeTab, setActiveTab] = useState<'SCREEN' | 'PATTERNS' | 'SPRITES' | 'MEM'>('SCREEN');
   const [forceUpdate, setForceUpdate] = useState(0); 
   const [viewBaseAddress, setViewBaseAddress] = useState(0);
   const [addressInput, setAddressInput] = useState("0000");
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  
-  const PALETTE = [
-    '#00000000', // 0 Transparent
-    '#000000',   // 1 Black
-    '#20C020',   // 2 Medium Green
-    '#60E060',   // 3 Light Green
-    '#2020E0',   // 4 Dark Blue
-    '#4060E0',   // 5 Light Blue
-    '#A02020',   // 6 Dark Red
-    '#4060E0',   // 7 Cyan
-    '#E02020',   // 8 Medium Red
-    '#E06060',   // 9 Light Red
-    '#C0C020',   // 10 Dark Yellow
-    '#C0C080',   // 11 Light Yellow
-    '#208020',   // 12 Dark Green
-    '#C040A0',   // 13 Magenta
-    '#A0A0A0',   // 14 Gray
-    '#FFFFFF',   // 15 White
-  ];
-
-  const parseColor = (hex: string) => {
-    if (hex.length > 7) return [0,0,0,0]; // Transparent
-    const r = parseInt(hex.slice(1, 3), 16);
-    const g = parseInt(hex.slice(3, 5), 16);
-    const b = parseInt(hex.slice(5, 7), 16);
-    return [r, g, b, 255];
-  };
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  // Mode and table addresses as programmed in the VDP registers
+  const modeInfo = getVdpMode(vdpState.registers);
+  const tables = getVdpTables(vdpState.registers);
+  const bitmap = isBitmapMode(modeInfo.mode);
+  const drawnMode = !['TEXT2', 'GRAPHIC5', 'GRAPHIC6'].includes(modeInfo.mode);
+  const hex4 = (val: number) => '$' + val.toString(16).toUpperCase().padStart(val > 0xFFFF ? 5 : 4, '0');
+  const hex2 = (val: number) => val.toString(16).toUpperCase().padStart(2, '0');
+  const spriteScan = scanSprites(vdpState);
+  const canvasHeight = activeTab === 'SCREEN' ? getScreenHeight(vdpState.registers) : 192;
+  const { palette } = vdpState;
+  const reg16 = (reg: number) => vdpState.registers[reg] | (vdpState.registers[reg + 1] << 8);
 
   useEffect(() => {
     if (!canvasRef.current) return;
@@ -51,67 +44,38 @@ export const VdpViewer: React.FC<VdpViewerProps> = ({ vdpState, onClose }) => {
     ctx.fillRect(0, 0, canvasRef.current.width, canvasRef.current.height);
 
     const { vram } = vdpState;
-    const PGT_BASE = 0x0000;
-    const PCT_BASE = 0x2000;
-    const PNT_BASE = 0x1800;
-    const SAT_BASE = 0x1B00;
-    const SPT_BASE = 0x3800;
 
     if (activeTab === 'SCREEN') {
-        const imgData = ctx.createImageData(256, 192);
-        const data = imgData.data;
-
-        for (let row = 0; row < 24; row++) {
-            for (let col = 0; col < 32; col++) {
-                const pntIndex = PNT_BASE + (row * 32) + col;
-                const charCode = vram[pntIndex] || 0;
-                const bank = Math.floor(row / 8); 
-                const offset = (bank * 0x800) + (charCode * 8);
-                const pgtAddr = PGT_BASE + offset;
-                const pctAddr = PCT_BASE + offset;
-
-                for (let y = 0; y < 8; y++) {
-                    const patternByte = vram[pgtAddr + y] || 0;
-                    const colorByte = vram[pctAddr + y] || 0;
-                    const fgColor = parseColor(PALETTE[(colorByte >> 4) & 0x0F]);
-                    const bgColor = parseColor(PALETTE[colorByte & 0x0F]);
-
-                    for (let x = 0; x < 8; x++) {
-                        const bit = (patternByte >> (7 - x)) & 1;
-                        const pixelX = (col * 8) + x;
-                        const pixelY = (row * 8) + y;
-                        const pixelIdx = (pixelY * 256 + pixelX) * 4;
-                        const color = bit ? fgColor : bgColor;
-                        data[pixelIdx] = color[0];
-                        data[pixelIdx + 1] = color[1];
-                        data[pixelIdx + 2] = color[2];
-                        data[pixelIdx + 3] = color[3];
-                    }
-                }
-            }
-        }
+        const imgData = ctx.createImageData(256, canvasHeight);
+        renderScreen(vdpState, imgData.data);
         ctx.putImageData(imgData, 0, 0);
     } 
     else if (activeTab === 'PATTERNS') {
         const imgData = ctx.createImageData(256, 192);
         const data = imgData.data;
-        for (let i = 0; i < 768; i++) {
+        // Graphic 2/3 have three pattern banks; the other modes a single set of 256
+        // (none in the bitmap modes)
+        const graphic2 = modeInfo.mode === 'GRAPHIC2' || modeInfo.mode === 'GRAPHIC3';
+        const count = bitmap ? 0 : graphic2 ? 768 : 256;
+        for (let i = 0; i < count; i++) {
              const bank = Math.floor(i / 256);
              const charCode = i % 256;
              const tileCol = i % 32;
              const tileRow = Math.floor(i / 32);
              const offset = (bank * 0x800) + (charCode * 8);
-             const pgtAddr = PGT_BASE + offset;
-             const pctAddr = PCT_BASE + offset;
 
              for (let y = 0; y < 8; y++) {
-                const patternByte = vram[pgtAddr + y] || 0;
-                const colorByte = vram[pctAddr + y] || 0;
+                const patternByte = graphic2
+                    ? vram[tables.patternTable | ((offset + y) & tables.patternMask)]
+                    : vram[(tables.patternTable + offset + y) & (VRAM_SIZE - 1)];
+                const colorByte = graphic2
+                    ? vram[tables.colorTable | ((offset + y) & tables.colorMask)]
+                    : modeInfo.mode === 'GRAPHIC1' ? vram[(tables.colorTable + (charCode >> 3)) & (VRAM_SIZE - 1)] : 0;
                 let fgIdx = (colorByte >> 4) & 0x0F;
                 let bgIdx = colorByte & 0x0F;
                 if (fgIdx === bgIdx) { fgIdx = 15; bgIdx = 4; }
-                const fgColor = parseColor(PALETTE[fgIdx]);
-                const bgColor = parseColor(PALETTE[bgIdx]);
+                const fgColor = paletteRgba(palette, fgIdx);
+                const bgColor = paletteRgba(palette, bgIdx);
 
                 for (let x = 0; x < 8; x++) {
                     const bit = (patternByte >> (7 - x)) & 1;
@@ -129,64 +93,76 @@ export const VdpViewer: React.FC<VdpViewerProps> = ({ vdpState, onClose }) => {
         ctx.putImageData(imgData, 0, 0);
     }
     else if (activeTab === 'SPRITES') {
-        ctx.clearRect(0,0, 256, 192);
-        for (let i = 0; i < 32; i++) {
-            const addr = SAT_BASE + (i * 4);
-            const y = vram[addr];
-            if (y === 208) break; 
-
-            const x = vram[addr + 1];
-            const pattern = vram[addr + 2];
-            const colorByte = vram[addr + 3];
-            const colorIdx = colorByte & 0x0F;
-            const ec = (colorByte & 0x80) !== 0;
-            const realX = ec ? x - 32 : x;
-            const realY = y + 1;
-
-            const color = PALETTE[colorIdx === 0 ? 1 : colorIdx];
-            ctx.fillStyle = color;
-
-            const patternAddr = SPT_BASE + (pattern * 8);
-            for (let py = 0; py < 8; py++) {
-                const byte = vram[patternAddr + py] || 0;
-                for (let px = 0; px < 8; px++) {
-                    if ((byte >> (7 - px)) & 1) {
-                        ctx.fillRect(realX + px, realY + py, 1, 1);
-                    }
-                }
-            }
-        }
+        // Sprite layer as the VDP shows it (4 per line, size/magnification from R1)
+        const imgData = ctx.createImageData(256, 192);
+        const data = imgData.data;
+        spriteScan.pixels.forEach((color, i) => {
+            const rgb = color === NO_SPRITE ? [5, 5, 5, 255] : paletteRgba(palette, color);
+            data[i * 4] = rgb[0];
+            data[i * 4 + 1] = rgb[1];
+            data[i * 4 + 2] = rgb[2];
+            data[i * 4 + 3] = 255;
+        });
+        ctx.putImageData(imgData, 0, 0);
+
+        // Scanlines over the 4-sprite limit
+        ctx.fillStyle = 'rgba(239, 68, 68, 0.35)';
+        spriteScan.overflowLines.forEach(line => ctx.fillRect(0, line, 256, 1));
     }
-  }, [vdpState, activeTab, forceUpdate]);
+  }, [vdpState, activeTab, forceUpdate, canvasHeight]);
 
-  const renderSpriteAttributes = () => {
-    const sprites = [];
-    for (let i = 0; i < 32; i++) {
-        const addr = 0x1B00 + (i * 4);
-        const y = vdpState.vram[addr];
-        if (y === 208) break;
-        sprites.push({
-            id: i,
-            y, x: vdpState.vram[addr+1],
-            p: vdpState.vram[addr+2],
-            c: vdpState.vram[addr+3] & 0x0F,
-            ec: (vdpState.vram[addr+3] & 0x80) !== 0
-        });
+  // --- EXPORT / IMPORT ---
+
+  const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // The canvas holds the active view (screen, pattern sheet or sprite layer)
+  const handleSavePng = () => {
+    if (!canvasRef.current) return;
+    const name = activeTab === 'SCREEN' ? `screen${modeInfo.screen}` : activeTab.toLowerCase();
+    canvasRef.current.toBlob(blob => { if (blob) downloadBlob(blob, `vdp_${name}.png`); }, 'image/png');
+  };
+
+  const handleSaveVram = (format: VramImageFormat) => {
+    downloadBlob(new Blob([encodeVramImage(vdpState.vram, format)], { type: 'application/octet-stream' }), `vram.${format}`);
+  };
+
+  const handleVramFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !onLoadVram) return;
+    const image = await readVramImageFile(file);
+    if (!image) {
+      setLoadError(`${file.name}: not a BSAVE image or raw dump of up to 128KB`);
+      return;
     }
+    setLoadError(null);
+    onLoadVram(image, file.name);
+  };
+
+  const renderSpriteAttributes = () => {
+    const sprites = spriteScan.sprites;
 
     return (
         <div className="grid grid-cols-1 gap-2 p-2">
             {sprites.map(s => (
-                <div key={s.id} className="flex items-center gap-4 bg-gray-900 border border-gray-800 p-2 rounded text-[10px] font-mono hover:border-blue-500 transition-colors">
+                <div key={s.index} className={`flex items-center gap-4 bg-gray-900 border p-2 rounded text-[10px] font-mono hover:border-blue-500 transition-colors ${s.droppedLines > 0 ? 'border-red-900' : 'border-gray-800'}`}>
                     <div className="w-6 h-6 bg-black border border-gray-700 flex items-center justify-center">
-                        <div style={{ backgroundColor: PALETTE[s.c === 0 ? 1 : s.c], width: '8px', height: '8px' }} />
+                        <div style={{ backgroundColor: paletteCss(palette, s.color === 0 ? 1 : s.color), width: '8px', height: '8px' }} />
                     </div>
-                    <div className="grid grid-cols-5 gap-4 flex-1">
-                        <div><span className="text-gray-600">ID:</span> <span className="text-white">{s.id}</span></div>
+                    <div className="grid grid-cols-6 gap-4 flex-1">
+                        <div><span className="text-gray-600">ID:</span> <span className="text-white">{s.index}</span></div>
                         <div><span className="text-gray-600">X:</span> <span className="text-blue-400">{s.x}</span></div>
                         <div><span className="text-gray-600">Y:</span> <span className="text-blue-400">{s.y}</span></div>
-                        <div><span className="text-gray-600">PTN:</span> <span className="text-purple-400">{s.p}</span></div>
-                        <div><span className="text-gray-600">EC:</span> <span className={s.ec ? "text-yellow-500" : "text-gray-700"}>{s.ec ? 'Y' : 'N'}</span></div>
+                        <div><span className="text-gray-600">PTN:</span> <span className="text-purple-400">{s.pattern}</span></div>
+                        <div><span className="text-gray-600">EC:</span> <span className={s.earlyClock ? "text-yellow-500" : "text-gray-700"}>{s.earlyClock ? 'Y' : 'N'}</span></div>
+                        <div title="Scanlines where the 4-sprite limit hides this sprite"><span className="text-gray-600">HID:</span> <span className={s.droppedLines > 0 ? "text-red-400" : "text-gray-700"}>{s.droppedLines}</span></div>
                     </div>
                 </div>
             ))}
@@ -197,15 +173,15 @@ export const VdpViewer: React.FC<VdpViewerProps> = ({ vdpState, onClose }) => {
 
   const renderHexDump = () => {
     const rows = 128; // Show 2KB
-    const currentPointer = vdpState.addressRegister & 0x3FFF;
+    const currentPointer = getVramAddress(vdpState);
 
     const handleAddressSubmit = () => {
         let val = parseInt(addressInput, 16);
         if (isNaN(val)) val = 0;
-        val = val & 0x3FFF; // Clamp to 16KB
+        val = val & (VRAM_SIZE - 1); // Clamp to 128KB
         val = val & 0xFFF0; // Align to 16 bytes
         setViewBaseAddress(val);
-        setAddressInput(val.toString(16).toUpperCase().padStart(4, '0'));
+        setAddressInput(val.toString(16).toUpperCase().padStart(val > 0xFFFF ? 5 : 4, '0'));
     };
 
     return (
@@ -222,7 +198,7 @@ export const VdpViewer: React.FC<VdpViewerProps> = ({ vdpState, onClose }) => {
                     onChange={(e) => setAddressInput(e.target.value)}
                     onBlur={handleAddressSubmit}
                     onKeyDown={(e) => e.key === 'Enter' && handleAddressSubmit()}
-                    className="bg-transparent border-none outline-none text-white text-[11px] font-mono w-10 py-0.5 focus:bg-gray-700 transition-colors"
+                    className="bg-transparent border-none outline-none text-white text-[11px] font-mono w-12 py-0.5 focus:bg-gray-700 transition-colors"
                 />
               </div>
 
@@ -231,7 +207,7 @@ export const VdpViewer: React.FC<VdpViewerProps> = ({ vdpState, onClose }) => {
               <span className="font-bold text-gray-400">VDP Ptr</span>
               <div className="flex items-center gap-1 text-yellow-500 font-mono">
                   <ArrowRight size={10} />
-                  <span>0x{vdpState.addressRegister.toString(16).toUpperCase().padStart(4, '0')}</span>
+                  <span>0x{getVramAddress(vdpState).toString(16).toUpperCase().padStart(5, '0')}</span>
               </div>
 
               <span className="ml-auto opacity-50 text-gray-500 cursor-help" title="Enter Hex Address to Jump">(Type & Enter)</span>
@@ -241,9 +217,9 @@ export const VdpViewer: React.FC<VdpViewerProps> = ({ vdpState, onClose }) => {
             <div className="inline-block min-w-full p-2">
                 {Array.from({ length: rows }).map((_, rowIndex) => {
                     const rowAddr = viewBaseAddress + (rowIndex * 16);
-                    if (rowAddr >= 16384) return null; // Out of VRAM bounds
+                    if (rowAddr >= VRAM_SIZE) return null; // Out of VRAM bounds
 
-                    const bytes = vdpState.vram.slice(rowAddr, rowAddr + 16);
+                    const bytes: number[] = Array.from(vdpState.vram.subarray(rowAddr, rowAddr + 16));
                     
                     const asciiStr = bytes.map(b => {
                         return (b >= 32 && b <= 126) ? String.fromCharCode(b) : '.';
@@ -253,7 +229,7 @@ export const VdpViewer: React.FC<VdpViewerProps> = ({ vdpState, onClose }) => {
                         <div key={rowIndex} className="flex hover:bg-[#1a1a1a] group leading-5 min-w-max">
                             {/* Address */}
                             <div className="text-gray-500 w-[50px] flex-shrink-0 select-none opacity-80 group-hover:opacity-100 group-hover:text-gray-400">
-                                {rowAddr.toString(16).toUpperCase().padStart(4, '0')}:
+                                {rowAddr.toString(16).toUpperCase().padStart(5, '0')}:
                             </div>
 
                             {/* Hex Data */}
@@ -293,7 +269,7 @@ export const VdpViewer: React.FC<VdpViewerProps> = ({ vdpState, onClose }) => {
                     );
                 })}
             </div>
-             {viewBaseAddress + (rows * 16) < 16384 && (
+             {viewBaseAddress + (rows * 16) < VRAM_SIZE && (
                 <div className="p-2 text-center text-gray-700 italic text-[9px] border-t border-gray-900 bg-[#0a0a0a]">
                     ...
                 </div>
@@ -313,6 +289,22 @@ export const VdpViewer: React.FC<VdpViewerProps> = ({ vdpState, onClose }) => {
                 <h2 className="font-bold text-sm tracking-wide uppercase">VDP MONITOR</h2>
              </div>
              <div className="flex gap-2">
+                 <input type="file" accept=".vram,.sc2,.sc1,.sc3,.sc5,.sc8,.bin" ref={fileInputRef} className="hidden" onChange={handleVramFileChange} />
+                 <button onClick={handleSavePng} disabled={activeTab === 'MEM'} className="text-gray-400 hover:text-white disabled:opacity-30 transition-colors p-1" title="Save current view as PNG">
+                     <Camera size={16} />
+                 </button>
+                 <button onClick={() => handleSaveVram('VRAM')} className="text-gray-400 hover:text-white transition-colors p-1 flex items-center gap-1 text-[10px] font-bold" title="Save raw VRAM dump (16KB, or 128KB when the upper VRAM is used)">
+                     <Save size={14} /> .VRAM
+                 </button>
+                 <button onClick={() => handleSaveVram('SC2')} className="text-gray-400 hover:text-white transition-colors p-1 flex items-center gap-1 text-[10px] font-bold" title="Save $0000-$37FF as a BSAVE .SC2 file">
+                     <Save size={14} /> .SC2
+                 </button>
+                 {onLoadVram && (
+                   <button onClick={() => fileInputRef.current?.click()} className="text-gray-400 hover:text-white transition-colors p-1" title="Load .VRAM / .SC2 into VRAM">
+                       <Upload size={16} />
+                   </button>
+                 )}
+                 <div className="w-px bg-gray-700 mx-1" />
                  <button onClick={() => setForceUpdate(n => n + 1)} className="text-gray-400 hover:text-white transition-colors p-1" title="Refresh VRAM View">
                      <RefreshCw size={16} />
                  </button>
@@ -320,6 +312,13 @@ export const VdpViewer: React.FC<VdpViewerProps> = ({ vdpState, onClose }) => {
              </div>
           </div>
 
+          {loadError && (
+            <div className="bg-red-900/30 border-b border-red-900/50 text-red-300 text-[10px] px-3 py-1 flex justify-between flex-shrink-0">
+              <span>{loadError}</span>
+              <button onClick={() => setLoadError(null)} className="hover:text-white"><X size={12} /></button>
+            </div>
+          )}
+
           {/* Controls */}
           <div className="bg-[#111] p-2 flex gap-1 md:gap-2 border-b border-gray-800 overflow-x-auto no-scrollbar flex-shrink-0">
               <button onClick={() => setActiveTab('SCREEN')} className={`px-2 md:px-3 py-1 text-[10px] md:text-xs rounded font-bold flex items-center gap-2 transition-all flex-shrink-0 ${activeTab === 'SCREEN' ? 'bg-blue-600 text-white shadow-lg' : 'bg-gray-800 text-gray-400 hover:bg-gray-700'}`}>
@@ -340,11 +339,11 @@ export const VdpViewer: React.FC<VdpViewerProps> = ({ vdpState, onClose }) => {
           <div className="flex-1 bg-[#0a0a0a] overflow-hidden flex flex-col lg:flex-row min-h-0">
               <div className="p-2 md:p-4 flex flex-col gap-4 border-b lg:border-b-0 lg:border-r border-gray-800 bg-black flex-shrink-0 items-center justify-center overflow-auto">
                   <div className="border-4 border-gray-800 rounded shadow-2xl bg-black overflow-hidden flex items-center justify-center flex-shrink-0">
-                    <canvas ref={canvasRef} width={256} height={192} className="image-pixelated w-[256px] sm:w-[384px] md:w-[480px] h-auto" style={{ imageRendering: 'pixelated' }} />
+                    <canvas ref={canvasRef} width={256} height={canvasHeight} className="image-pixelated w-[256px] sm:w-[384px] md:w-[480px] h-auto" style={{ imageRendering: 'pixelated' }} />
                   </div>
                   <div className="flex justify-between w-full text-[10px] text-gray-500 font-mono">
-                    <span>256 x 192</span>
-                    <span className="text-blue-500">TMS9918 CORE</span>
+                    <span>256 x {canvasHeight}</span>
+                    <span className="text-blue-500">V9938 · SCREEN {modeInfo.screen}</span>
                   </div>
               </div>
 
@@ -352,8 +351,20 @@ export const VdpViewer: React.FC<VdpViewerProps> = ({ vdpState, onClose }) => {
                   {activeTab === 'SPRITES' && (
                       <div className="space-y-4">
                         <div className="bg-blue-900/10 border border-blue-900/30 p-2 rounded mb-2">
-                           <h4 className="text-[10px] font-bold text-blue-400 uppercase mb-1">Sprite Attribute Table ($1B00)</h4>
-                           <p className="text-[9px] text-gray-500">Showing hardware sprite slots. Y=208 ($D0) terminates processing.</p>
+                           <h4 className="text-[10px] font-bold text-blue-400 uppercase mb-1">Sprite Attribute Table ({hex4(tables.spriteAttributeTable)})</h4>
+                           <p className="text-[9px] text-gray-500">Showing hardware sprite slots. Y=208 ($D0) terminates processing. Size {getSpriteSize(vdpState.registers)}x{getSpriteSize(vdpState.registers)}{isSpriteMagnified(vdpState.registers) ? ', magnified' : ''}.</p>
+                        </div>
+                        <div className="grid grid-cols-2 gap-2 text-[10px] font-mono px-2">
+                           <div className="flex justify-between border-b border-gray-800 py-1">
+                              <span>5S:</span>
+                              <span className={spriteScan.fifthSprite !== null ? 'text-red-400' : 'text-gray-600'}>
+                                {spriteScan.fifthSprite !== null ? `#${spriteScan.fifthSprite} · ${spriteScan.overflowLines.length} lines > ${MAX_SPRITES_PER_LINE}` : 'No'}
+                              </span>
+                           </div>
+                           <div className="flex justify-between border-b border-gray-800 py-1">
+                              <span>Collision:</span>
+                              <span className={spriteScan.collision ? 'text-yellow-400' : 'text-gray-600'}>{spriteScan.collision ? 'Yes' : 'No'}</span>
+                           </div>
                         </div>
                         {renderSpriteAttributes()}
                       </div>
@@ -361,8 +372,8 @@ export const VdpViewer: React.FC<VdpViewerProps> = ({ vdpState, onClose }) => {
                   {activeTab === 'MEM' && renderHexDump()}
                   {activeTab === 'PATTERNS' && (
                       <div className="p-2">
-                          <p className="text-[9px] text-gray-500 mb-2 uppercase font-bold">Graphic Pattern Table (0000h - 17FFh)</p>
-                          <p className="text-[9px] text-gray-600 italic">Tile visualization based on current VRAM content.</p>
+                          <p className="text-[9px] text-gray-500 mb-2 uppercase font-bold">Pattern Generator Table ({hex4(tables.patternTable)}) / Colors ({hex4(tables.colorTable)})</p>
+                          <p className="text-[9px] text-gray-600 italic">{bitmap ? 'Bitmap mode: no pattern or color tables, pixels are read from the page at ' + hex4(tables.nameTable) + '.' : 'Tile visualization based on current VRAM content.'}</p>
                       </div>
                   )}
                   {activeTab === 'SCREEN' && (
@@ -370,9 +381,61 @@ export const VdpViewer: React.FC<VdpViewerProps> = ({ vdpState, onClose }) => {
                           <div className="bg-gray-900/50 p-3 rounded border border-gray-800">
                              <h4 className="text-xs font-bold text-gray-400 mb-2 uppercase">VDP Registers (Live)</h4>
                              <div className="grid grid-cols-2 gap-2 text-[10px] font-mono">
-                                <div className="flex justify-between border-b border-gray-800 py-1"><span>Mode:</span> <span className="text-green-400">Screen 2</span></div>
-                                <div className="flex justify-between border-b border-gray-800 py-1"><span>Addr:</span> <span className="text-blue-400">${vdpState.addressRegister.toString(16).toUpperCase()}</span></div>
+                                <div className="flex justify-between border-b border-gray-800 py-1"><span>Mode:</span> <span className="text-green-400">SCREEN {modeInfo.screen}</span></div>
+                                <div className="flex justify-between border-b border-gray-800 py-1"><span>Addr:</span> <span className="text-blue-400">{hex4(getVramAddress(vdpState))}</span></div>
                                 <div className="flex justify-between border-b border-gray-800 py-1"><span>Latch:</span> <span className="text-yellow-400">{vdpState.writeLatch ? '1' : '0'}</span></div>
+                                <div className="flex justify-between border-b border-gray-800 py-1"><span>Status:</span> <span className="text-yellow-400">${hex2(vdpState.status)}</span></div>
+                                <div className="flex justify-between border-b border-gray-800 py-1"><span>Read buf:</span> <span className="text-blue-400">${hex2(vdpState.readAhead)}</span></div>
+                             </div>
+                             <p className="text-[10px] text-gray-500 mt-2">{modeInfo.name}{isDisplayEnabled(vdpState.registers) ? '' : ' · display disabled'}{drawnMode ? '' : ' · not rendered (backdrop only)'}</p>
+                          </div>
+
+                          <div className="bg-gray-900/50 p-3 rounded border border-gray-800">
+                             <h4 className="text-xs font-bold text-gray-400 mb-2 uppercase">R#0 - R#23</h4>
+                             <div className="grid grid-cols-4 gap-2 text-[10px] font-mono">
+                                {vdpState.registers.slice(0, 24).map((val, reg) => (
+                                  <div key={reg} className="flex justify-between bg-black border border-gray-800 rounded px-1.5 py-1" title={val.toString(2).padStart(8, '0')}>
+                                    <span className="text-gray-500">R{reg}</span>
+                                    <span className="text-purple-300">{hex2(val)}</span>
+                                  </div>
+                                ))}
+                             </div>
+                          </div>
+
+                          <div className="bg-gray-900/50 p-3 rounded border border-gray-800">
+                             <h4 className="text-xs font-bold text-gray-400 mb-2 uppercase">Tables</h4>
+                             <div className="grid grid-cols-1 gap-1 text-[10px] font-mono">
+                                <div className="flex justify-between border-b border-gray-800 py-1"><span>Name (R2):</span> <span className="text-blue-400">{hex4(tables.nameTable)}</span></div>
+                                <div className="flex justify-between border-b border-gray-800 py-1"><span>Color (R3):</span> <span className="text-blue-400">{hex4(tables.colorTable)}</span></div>
+                                <div className="flex justify-between border-b border-gray-800 py-1"><span>Pattern (R4):</span> <span className="text-blue-400">{hex4(tables.patternTable)}</span></div>
+                                <div className="flex justify-between border-b border-gray-800 py-1"><span>Sprite Attr (R5):</span> <span className="text-blue-400">{hex4(tables.spriteAttributeTable)}</span></div>
+                                <div className="flex justify-between border-b border-gray-800 py-1"><span>Sprite Pattern (R6):</span> <span className="text-blue-400">{hex4(tables.spritePatternTable)}</span></div>
+                             </div>
+                          </div>
+
+                          <div className="bg-gray-900/50 p-3 rounded border border-gray-800">
+                             <h4 className="text-xs font-bold text-gray-400 mb-2 uppercase">Command Engine (R#32 - R#46)</h4>
+                             <div className="grid grid-cols-2 gap-2 text-[10px] font-mono">
+                                <div className="flex justify-between border-b border-gray-800 py-1"><span>SX, SY:</span> <span className="text-blue-400">{reg16(32) & 0x1FF}, {reg16(34) & 0x3FF}</span></div>
+                                <div className="flex justify-between border-b border-gray-800 py-1"><span>DX, DY:</span> <span className="text-blue-400">{reg16(36) & 0x1FF}, {reg16(38) & 0x3FF}</span></div>
+                                <div className="flex justify-between border-b border-gray-800 py-1"><span>NX, NY:</span> <span className="text-blue-400">{reg16(40) & 0x3FF}, {reg16(42) & 0x3FF}</span></div>
+                                <div className="flex justify-between border-b border-gray-800 py-1"><span>CLR / ARG:</span> <span className="text-purple-300">${hex2(vdpState.registers[44])} / ${hex2(vdpState.registers[45])}</span></div>
+                                <div className="flex justify-between border-b border-gray-800 py-1"><span>CMD:</span> <span className="text-green-400">{VDP_COMMAND_NAMES[vdpState.registers[46] >> 4] || '?'} {LOGICAL_OP_NAMES[vdpState.registers[46] & 0x0F] || '?'}</span></div>
+                                <div className="flex justify-between border-b border-gray-800 py-1"><span>CE:</span> <span className={vdpState.command ? 'text-yellow-400' : 'text-gray-600'}>{vdpState.command ? `${vdpState.command.row * vdpState.command.width + vdpState.command.column} / ${vdpState.command.width * vdpState.command.height}` : 'Idle'}</span></div>
+                                <div className="flex justify-between border-b border-gray-800 py-1"><span>S#7:</span> <span className="text-yellow-400">${hex2(vdpState.commandColor)}</span></div>
+                                <div className="flex justify-between border-b border-gray-800 py-1"><span>SRCH X:</span> <span className={vdpState.borderFound ? 'text-yellow-400' : 'text-gray-600'}>{vdpState.borderFound ? vdpState.borderX : 'Not found'}</span></div>
+                             </div>
+                          </div>
+
+                          <div className="bg-gray-900/50 p-3 rounded border border-gray-800">
+                             <h4 className="text-xs font-bold text-gray-400 mb-2 uppercase">Palette (R#16 = {vdpState.registers[16] & 0x0F})</h4>
+                             <div className="grid grid-cols-8 gap-2 text-[10px] font-mono">
+                                {palette.map((entry, idx) => (
+                                  <div key={idx} className="flex flex-col items-center gap-0.5" title={`Color ${idx}: R${(entry >> 8) & 7} G${(entry >> 4) & 7} B${entry & 7}`}>
+                                    <div className="w-5 h-5 border border-gray-700 rounded-sm" style={{ backgroundColor: paletteCss(palette, idx) }} />
+                                    <span className="text-gray-500">{entry.toString(16).toUpperCase().padStart(3, '0')}</span>
+                                  </div>
+                                ))}
                              </div>
                           </div>
                       </div>
@@ -383,10 +446,10 @@ export const VdpViewer: React.FC<VdpViewerProps> = ({ vdpState, onClose }) => {
           {/* Footer Info */}
           <div className="bg-[#111] p-2 border-t border-gray-800 flex justify-between text-[10px] text-gray-500 font-mono flex-shrink-0">
              <div className="hidden sm:flex gap-4">
-                <span>PGT: $0000</span>
-                <span>PNT: $1800</span>
-                <span>SAT: $1B00</span>
-                <span>SPT: $3800</span>
+                <span>PGT: {hex4(tables.patternTable)}</span>
+                <span>PNT: {hex4(tables.nameTable)}</span>
+                <span>SAT: {hex4(tables.spriteAttributeTable)}</span>
+                <span>SPT: {hex4(tables.spritePatternTable)}</span>
              </div>
              <span className="text-blue-700 ml-auto uppercase tracking-tighter">VDP Debugger Ready</span>
           </div>
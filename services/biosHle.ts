@@ -0,0 +1,283 @@
+import { RegisterName, Z80Flags, Z80Registers } from "../types";
+import type { SimulationState } from "./z80Simulator";
+import {
+  writeVdpRegister, writeVdpControl, readVdpStatus, initScreenMode, getVdpMode, getVdpTables, isBitmapMode
+} from "./vdp";
+import { initPsg, readPsgRegister, writePsgRegister } from "./psg";
+import { emulateKeyint } from "./interrupts";
+import { MSX_KNOWLEDGE_BASE } from "./msxContext";
+
+/**
+ * BIOS HIGH-LEVEL EMULATION
+ * -------------------------
+ * No BIOS ROM is loaded, so a CALL to a documented entry point applies the
+ * routine's effects on registers, RAM, VRAM and the PSG directly. Registers
+ * the real routine destroys are marked as clobbered (shown as undefined)
+ * until an instruction writes them again; registers a routine returns a
+ * result in are defined by the call. The register lists come from the
+ * knowledge base (msxContext), so documented routines without an emulation
+ * here still leave their registers undefined.
+ *
+ * There is one flat 64KB space, so the slot routines work on it directly,
+ * and there is no keyboard or joystick: input routines report nothing pressed.
+ */
+
+// --- SYSTEM VARIABLES ---
+const LINL40 = 0xF3AE;
+const LINL32 = 0xF3AF;
+const LINLEN = 0xF3B0;
+const CRTCNT = 0xF3B1;
+const CSRY = 0xF3DC;
+const CSRX = 0xF3DD;
+const FORCLR = 0xF3E9;
+const BAKCLR = 0xF3EA;
+const BDRCLR = 0xF3EB;
+const DAC = 0xF7F6;  // Math-pack accumulator (8-byte BCD float)
+const RNDX = 0xF857; // Last random number (BCD float)
+const SCRMOD = 0xFCAF;
+
+interface BiosRoutine {
+  outputs?: RegisterName[]; // Hold the result (defined, not clobbered)
+  run?: (state: SimulationState) => void;
+}
+
+// --- HELPERS ---
+
+const pair = (hi: number, lo: number) => (hi << 8) | lo;
+
+// The MSX2 BIOS takes 16-bit VRAM addresses in the bitmap modes
+const vramMask = (state: SimulationState) =>
+  isBitmapMode(getVdpMode(state.vdp.registers).mode) ? 0xFFFF : 0x3FFF;
+
+const disableInterrupts = (state: SimulationState) => {
+  state.interrupts.iff1 = false;
+  state.interrupts.iff2 = false;
+};
+
+// Text screen geometry, or null in the graphic modes (no console there)
+const textScreen = (state: SimulationState) => {
+  const mode = getVdpMode(state.vdp.registers).mode;
+  if (mode !== 'TEXT1' && mode !== 'TEXT2' && mode !== 'GRAPHIC1') return null;
+  const columns = mode === 'TEXT2' ? 80 : mode === 'TEXT1' ? 40 : 32;
+  const mem = state.memory;
+  return {
+    nameTable: getVdpTables(state.vdp.registers).nameTable,
+    columns,
+    width: Math.min(mem[LINLEN] || columns, columns),
+    rows: mem[CRTCNT] || 24
+  };
+};
+
+const clearTextScreen = (state: SimulationState) => {
+  const screen = textScreen(state);
+  if (!screen) return;
+  state.vdp.vram.fill(0x20, screen.nameTable, screen.nameTable + screen.columns * screen.rows);
+  state.memory[CSRX] = 1;
+  state.memory[CSRY] = 1;
+};
+
+// CHPUT: prints A at CSRX/CSRY (1-based) with the usual control codes, scrolling at the bottom
+const putChar = (state: SimulationState) => {
+  const screen = textScreen(state);
+  if (!screen) return;
+  const { nameTable, columns, width, rows } = screen;
+  const mem = state.memory;
+  const vram = state.vdp.vram;
+  let x = mem[CSRX] || 1;
+  let y = mem[CSRY] || 1;
+  const c = state.registers.a;
+
+  if (c === 0x0D) x = 1;                       // CR
+  else if (c === 0x0A) y++;                    // LF
+  else if (c === 0x08) {                       // BS
+    if (x > 1) x--;
+    else if (y > 1) { y--; x = width; }
+  }
+  else if (c === 0x0B) { x = 1; y = 1; }       // HOME
+  else if (c === 0x0C) { clearTextScreen(state); return; } // CLS
+  else if (c >= 0x20) {
+    vram[nameTable + (y - 1) * columns + (x - 1)] = c;
+    if (++x > width) { x = 1; y++; }
+  }
+
+  if (y > rows) {
+    vram.copyWithin(nameTable, nameTable + columns, nameTable + columns * rows);
+    vram.fill(0x20, nameTable + columns * (rows - 1), nameTable + columns * rows);
+    y = rows;
+  }
+  mem[CSRX] = x;
+  mem[CSRY] = y;
+};
+
+// INITXT / INIT32 / CHGMOD: screen set up, console reset for the text modes
+const initScreen = (state: SimulationState, screen: number) => {
+  initScreenMode(state.vdp, screen);
+  const mem = state.memory;
+  mem[SCRMOD] = screen;
+  if (screen === 0 || screen === 1) {
+    mem[LINLEN] = mem[screen === 0 ? LINL40 : LINL32] || (screen === 0 ? 40 : 32);
+    mem[CSRX] = 1;
+    mem[CSRY] = 1;
+  }
+};
+
+// CHGCLR: FORCLR / BAKCLR / BDRCLR to the VDP (SCREEN 1 also recolors the color table)
+const changeColors = (state: SimulationState) => {
+  const mem = state.memory;
+  const fg = mem[FORCLR] & 0x0F, bg = mem[BAKCLR] & 0x0F, border = mem[BDRCLR] & 0x0F;
+  const mode = getVdpMode(state.vdp.registers).mode;
+  if (mode === 'TEXT1' || mode === 'TEXT2') {
+    writeVdpRegister(state.vdp, 7, (fg << 4) | bg);
+    return;
+  }
+  writeVdpRegister(state.vdp, 7, mode === 'GRAPHIC7' ? border : border | (fg << 4));
+  if (mode === 'GRAPHIC1') {
+    const colorTable = getVdpTables(state.vdp.registers).colorTable;
+    state.vdp.vram.fill((fg << 4) | bg, colorTable, colorTable + 32);
+  }
+};
+
+// RND (math pack): a new number 0 < x < 1 from RNDX, left in DAC and RNDX as a BCD float
+const random = (state: SimulationState) => {
+  const mem = state.memory;
+  let seed = 0x2545F491;
+  for (let i = 0; i < 8; i++) seed = Math.imul(seed ^ mem[RNDX + i], 0x01000193) >>> 0;
+  const digits: number[] = [];
+  while (digits.length < 14) {
+    seed ^= seed << 13; seed ^= seed >>> 17; seed ^= seed << 5; seed >>>= 0;
+    digits.push(seed % 10);
+  }
+  // Normalized: the first digit is never 0
+  let exponent = 0x40;
+  while (digits[0] === 0 && exponent > 0x31) { digits.shift(); digits.push(0); exponent--; }
+  if (digits[0] === 0) digits[0] = 1;
+  for (let i = 0; i < 7; i++) {
+    const byte = (digits[i * 2] << 4) | digits[i * 2 + 1];
+    mem[DAC + 1 + i] = byte;
+    mem[RNDX + 1 + i] = byte;
+  }
+  mem[DAC] = exponent;
+  mem[RNDX] = exponent;
+};
+
+// --- ROUTINES (by knowledge base label) ---
+
+export const BIOS_ROUTINES: { [label: string]: BiosRoutine } = {
+  RDSLT: { outputs: ['a'], run: s => {
+    s.registers.a = s.memory[pair(s.registers.h, s.registers.l)];
+    disableInterrupts(s);
+  } },
+  WRSLT: { run: s => {
+    s.memory[pair(s.registers.h, s.registers.l)] = s.registers.e;
+    disableInterrupts(s);
+  } },
+  ENASLT: { run: disableInterrupts },
+  KEYINT: { run: s => { emulateKeyint(s); } },
+  DISSCR: { run: s => writeVdpRegister(s.vdp, 1, s.vdp.registers[1] & ~0x40) },
+  ENASCR: { run: s => writeVdpRegister(s.vdp, 1, s.vdp.registers[1] | 0x40) },
+  WRTVDP: { run: s => writeVdpRegister(s.vdp, s.registers.c, s.registers.b) },
+  RDVRM: { outputs: ['a'], run: s => {
+    s.registers.a = s.vdp.vram[pair(s.registers.h, s.registers.l) & vramMask(s)];
+  } },
+  WRTVRM: { run: s => {
+    s.vdp.vram[pair(s.registers.h, s.registers.l) & vramMask(s)] = s.registers.a;
+  } },
+  SETRD: { run: s => {
+    writeVdpControl(s.vdp, s.registers.l);
+    writeVdpControl(s.vdp, s.registers.h & 0x3F);
+  } },
+  SETWRT: { run: s => {
+    writeVdpControl(s.vdp, s.registers.l);
+    writeVdpControl(s.vdp, (s.registers.h & 0x3F) | 0x40);
+  } },
+  FILVRM: { run: s => {
+    const { a, b, c, h, l } = s.registers;
+    const mask = vramMask(s);
+    for (let i = 0; i < pair(b, c); i++) s.vdp.vram[(pair(h, l) + i) & mask] = a;
+  } },
+  LDIRMV: { run: s => {
+    const { b, c, d, e, h, l } = s.registers;
+    const mask = vramMask(s);
+    for (let i = 0; i < pair(b, c); i++) s.memory[(pair(d, e) + i) & 0xFFFF] = s.vdp.vram[(pair(h, l) + i) & mask];
+  } },
+  LDIRVM: { run: s => {
+    const { b, c, d, e, h, l } = s.registers;
+    const mask = vramMask(s);
+    for (let i = 0; i < pair(b, c); i++) s.vdp.vram[(pair(d, e) + i) & mask] = s.memory[(pair(h, l) + i) & 0xFFFF];
+  } },
+  CHGMOD: { run: s => initScreen(s, s.registers.a) },
+  CHGCLR: { run: changeColors },
+  INITXT: { run: s => initScreen(s, 0) },
+  INIT32: { run: s => initScreen(s, 1) },
+  INIGRP: { run: s => initScreen(s, 2) },
+  INIMLT: { run: s => initScreen(s, 3) },
+  GICINI: { run: s => initPsg(s.psg, s.tStates) },
+  WRTPSG: { run: s => writePsgRegister(s.psg, s.registers.a & 0x0F, s.registers.e, s.tStates) },
+  RDPSG: { outputs: ['a'], run: s => { s.registers.a = readPsgRegister(s.psg, s.registers.a & 0x0F); } },
+  // No keyboard: a RETURN is always waiting
+  CHGET: { outputs: ['a'], run: s => { s.registers.a = 0x0D; } },
+  CHPUT: { run: putChar },
+  // Only clears with Z set, as the BASIC CLS statement calls it
+  CLS: { run: s => { if (s.flags.z) clearTextScreen(s); } },
+  POSIT: { run: s => {
+    s.memory[CSRX] = s.registers.h;
+    s.memory[CSRY] = s.registers.l;
+  } },
+  GTSTCK: { outputs: ['a'], run: s => { s.registers.a = 0; } },
+  GTTRIG: { outputs: ['a'], run: s => { s.registers.a = 0; } },
+  GTPAD: { outputs: ['a'], run: s => { s.registers.a = 0; } },
+  RDVDP: { outputs: ['a'], run: s => { s.registers.a = readVdpStatus(s.vdp); } },
+  RND: { run: random },
+};
+
+// Side effects of the BIOS routine at `target` (nothing for unknown addresses)
+export const applyBiosCall = (state: SimulationState, target: number) => {
+  const entry = MSX_KNOWLEDGE_BASE[target];
+  if (!entry || entry.type !== 'BIOS') return;
+  const routine = BIOS_ROUTINES[entry.label];
+  routine?.run?.(state);
+  const outputs = routine?.outputs || [];
+  const clobbered = state.clobbered.filter(reg => !outputs.includes(reg));
+  (entry.clobbers || []).forEach(reg => {
+    if (!outputs.includes(reg) && !clobbered.includes(reg)) clobbered.push(reg);
+  });
+  state.clobbered = clobbered;
+};
+
+// --- CLOBBERED REGISTERS ---
+
+/**
+ * A clobbered register is defined again once an instruction writes it,
+ * whatever the value (XOR A with A already 0 still defines A). While some
+ * register is clobbered, watchRegisterWrites records the writes of the
+ * instruction about to run and settleClobbered applies them. F counts as
+ * written when the instruction replaced state.flags.
+ */
+export interface RegisterWatch {
+  registers: Z80Registers; // The register file behind the recording proxy
+  flags: Z80Flags;
+  clobbered: RegisterName[];
+  written: Set<RegisterName>;
+}
+
+export const watchRegisterWrites = (state: SimulationState): RegisterWatch | null => {
+  if (state.clobbered.length === 0) return null;
+  const registers = state.registers;
+  const written = new Set<RegisterName>();
+  state.registers = new Proxy(registers, {
+    set: (target, key, value) => {
+      written.add(key as RegisterName);
+      return Reflect.set(target, key, value);
+    }
+  });
+  return { registers, flags: state.flags, clobbered: state.clobbered, written };
+};
+
+export const settleClobbered = (state: SimulationState, watch: RegisterWatch | null) => {
+  if (!watch) return;
+  state.registers = watch.registers;
+  // The instruction was a BIOS call: the routine's own list stands
+  if (state.clobbered !== watch.clobbered) return;
+  if (state.flags !== watch.flags) watch.written.add('f');
+  state.clobbered = state.clobbered.filter(reg => !watch.written.has(reg));
+};
@@ -0,0 +1,57 @@
+import { BiosRom } from "../types";
+import { Memory, createMemory } from "./z80Memory";
+
+/**
+ * BIOS ROM IMAGES
+ * ---------------
+ * A main ROM image (C-BIOS or a dump of a real machine) is mapped at $0000:
+ *   16KB  page 0: BIOS jump table, VDP/PSG/keyboard routines
+ *   32KB  pages 0-1: BIOS plus BASIC (C-BIOS: the rest of its code)
+ * Every MSX BIOS starts with DI / JP init, which is what is checked.
+ *
+ * The address space stays flat (no slot switching): assembled program bytes
+ * are written over the ROM, so a cartridge at $4000 still runs. In CPU mode
+ * writes below the ROM size are ignored and calls into it execute the real
+ * code; source stepping keeps the high-level emulation of biosHle.
+ *
+ * The BIOS fills the hook area with RET while booting, and KEYINT calls
+ * H.KEYI first thing. Since the boot code is not run, untouched (all zero)
+ * hooks get their RET here.
+ */
+export const BIOS_ROM_SIZES = [0x4000, 0x8000];
+export const HOOKS_START = 0xFD9A; // H.KEYI
+export const HOOKS_END = 0xFFCA;   // After H.PLAY
+const HOOK_SIZE = 5;
+
+// Null when the file is not a 16/32KB image starting with DI / JP
+export const decodeBiosRom = (bytes: Uint8Array): Uint8Array | null => {
+  if (!BIOS_ROM_SIZES.includes(bytes.length)) return null;
+  if (bytes[0] !== 0xF3 || bytes[1] !== 0xC3) return null;
+  return bytes.slice();
+};
+
+export const readBiosRomFile = async (file: File): Promise<BiosRom | null> => {
+  const data = decodeBiosRom(new Uint8Array(await file.arrayBuffer()));
+  return data ? { name: file.name, data } : null;
+};
+
+const initHooks = (mem: Memory) => {
+  for (let hook = HOOKS_START; hook < HOOKS_END; hook += HOOK_SIZE) {
+    if (mem.subarray(hook, hook + HOOK_SIZE).every(b => b === 0)) mem.fill(0xC9, hook, hook + HOOK_SIZE);
+  }
+};
+
+// New address space with the ROM mapped and the program bytes written on top
+export const mapBiosRom = (memory: Memory, rom: BiosRom, memoryMap?: { [address: number]: number }): Memory => {
+  const mem = memory.slice();
+  mem.set(rom.data, 0);
+  initHooks(mem);
+  return createMemory(memoryMap, mem);
+};
+
+// Unloading leaves empty memory where the ROM was (program bytes are kept)
+export const unmapBiosRom = (memory: Memory, rom: BiosRom, memoryMap?: { [address: number]: number }): Memory => {
+  const mem = memory.slice();
+  mem.fill(0, 0, rom.data.length);
+  return createMemory(memoryMap, mem);
+};
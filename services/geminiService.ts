@@ -1,5 +1,10 @@
 
-import { AnalysisResult, StepType, ExecutionStep, MemoryVariable, ReachabilityResult, Constant } from "../types";
+import { AnalysisResult, StepType, ExecutionStep, MemoryVariable, ReachabilityResult, Constant, CycleSelection, CycleDetail } from "../types";
+import { assembleZ80, SourceLine } from "./z80Assembler";
+import { buildAddressLineMap } from "./z80Cpu";
+import { getMSXInfo } from "./msxContext";
+import { getInstructionTiming, getSourceTiming } from "./z80Timing";
+import { buildControlFlowGraph, findShortestPath } from "./z80Cfg";
 
 const parseValue = (valStr: string, symbolTable?: { [label: string]: number }): number | null => {
   if (!valStr) return null;
@@ -38,25 +43,11 @@ const VALID_MNEMONICS = new Set([
   'SRA', 'SRL', 'SUB', 'XOR'
 ]);
 
+// T-states of a source instruction on MSX (taken cost for conditional ones), see z80Timing
 export const getZ80Cycles = (opcode: string, operands: string): number => {
     const op = opcode.toUpperCase();
     if (!VALID_MNEMONICS.has(op)) return 0; // Return 0 for unknown opcodes
-
-    switch(op) {
-        case 'NOP': return 4;
-        case 'LD': return operands.includes('(') ? 13 : 7;
-        case 'INC': 
-        case 'DEC': return 4;
-        case 'ADD': return 7;
-        case 'CP': return 7;
-        case 'DJNZ': return 13;
-        case 'JR': return 12;
-        case 'JP': return 10;
-        case 'CALL': return 17;
-        case 'RET': return 10;
-        case 'BIT': return 8;
-        default: return 4;
-    }
+    return getSourceTiming(op, operands)?.cycles ?? 0;
 };
 
 const DIRECTIVES = ['EQU', 'ORG', 'DB', 'DW', 'DS', 'DEFB', 'DEFW', 'DEFS', 'DEFM', 'INCLUDE', 'INCBIN', 'END', 'MACRO', 'ENDM'];
@@ -76,51 +67,6 @@ const getConditionDescription = (operands: string): string => {
     }
 };
 
-// Helper to calculate instruction/directive size consistently
-const getEntitySize = (directive: string, args: string): number => {
-    const dir = directive.toUpperCase();
-    
-    if (dir === 'DB' || dir === 'DEFB') {
-        // Naive token split by comma, respecting quotes approx
-        const tokens = args.split(/,(?=(?:[^"']*["'][^"']*["'])*[^"']*$)/);
-        let size = 0;
-        tokens.forEach(t => {
-            const trim = t.trim();
-            if ((trim.startsWith('"') && trim.endsWith('"')) || (trim.startsWith("'") && trim.endsWith("'"))) {
-                 size += trim.length - 2;
-            } else {
-                 size += 1;
-            }
-        });
-        return size;
-    }
-    if (dir === 'DW' || dir === 'DEFW') {
-        const tokens = args.split(',');
-        return tokens.length * 2;
-    }
-    if (dir === 'DS' || dir === 'DEFS') {
-        const val = parseInt(args);
-        return isNaN(val) ? 0 : val;
-    }
-    
-    if (VALID_MNEMONICS.has(dir)) {
-         if (['JR','DJNZ'].includes(dir)) return 2;
-         if (['JP','CALL'].includes(dir)) return 3;
-         if (['LD'].includes(dir)) {
-             if (args.includes(',')) {
-                 // LD A, n (2) vs LD A, (nn) (3) vs LD HL, nn (3)
-                 // Heuristic: if contains 4 hex digits or (nn), likely 3 bytes
-                 if (args.match(/[0-9A-Fa-f]{3,4}H?/)) return 3;
-                 if (args.includes('(') && !args.includes('(HL)') && !args.includes('(BC)') && !args.includes('(DE)')) return 3;
-                 return 2; 
-             }
-         }
-         if (['IM','OUT','IN'].includes(dir)) return 2;
-         return 1;
-    }
-    return 0;
-};
-
 // Helper to parse a line into components
 const parseLineComponents = (line: string) => {
     const clean = line.split(';')[0].trim();
@@ -195,153 +141,81 @@ const parseLineComponents = (line: string) => {
 export const analyzeZ80Code = async (code: string): Promise<AnalysisResult> => {
   const lines = code.split('\n');
   const labels: { [label: string]: number } = {};
-  const symbolTable: { [label: string]: number } = {};
   const constants: Constant[] = [];
   const initialVariables: MemoryVariable[] = [];
-  const memoryMap: { [address: number]: number } = {};
-  const lineAddresses: { [line: number]: number } = {}; // Map Visual Line -> Address
   const detectedBugs: string[] = [];
   
-  // Helper to resolve a value (literal or previously defined symbol)
-  const resolve = (val: string) => parseValue(val, symbolTable);
-
   let initLabel = "";
 
   // ---------------------------------------------------------
-  // PASS 0: Build Symbol Table & Calculate Addresses
+  // PASS 0: Assemble (exact addresses, symbols and bytes per line)
   // ---------------------------------------------------------
-  let currentAddress = 0;
-
+  const source: SourceLine[] = [];
   lines.forEach((line, idx) => {
-      const lineNum = idx + 1;
       const comp = parseLineComponents(line);
-      
       if (!comp) return;
-      const { labels: lineLabels, directive, args } = comp;
 
       // Detect ROM Header
       if (/db\s+(["']AB["']|#41|#42|\$41|\$42|41h|42h)/i.test(line)) {
           if (!initLabel) initLabel = "ROM_HEADER"; 
       }
-
-      // 1. Handle Directives that change Address OR represent Values (EQU)
-      if (directive === 'ORG') {
-          const addr = resolve(args);
-          if (addr !== null) currentAddress = addr;
-          lineAddresses[lineNum] = currentAddress;
-      }
-      else if (directive === 'EQU') {
-          // For EQU, the "Address" displayed is the Value
-          const val = resolve(args);
-          if (val !== null) {
-              lineAddresses[lineNum] = val;
-              // Register ALL aliases for this EQU
-              lineLabels.forEach(label => {
-                  const upLabel = label.toUpperCase();
-                  constants.push({ name: upLabel, value: val, hex: '$' + val.toString(16).toUpperCase() });
-                  symbolTable[upLabel] = val;
-              });
-          }
-      }
-      else {
-          // Standard Instruction or DB/DW
-          lineAddresses[lineNum] = currentAddress;
-          
-          lineLabels.forEach(label => {
-              const upLabel = label.toUpperCase();
-              labels[upLabel] = lineNum; // Visual Line Number
-              symbolTable[upLabel] = currentAddress;
-          });
-
-          currentAddress += getEntitySize(directive, args);
-      }
+      source.push({ lineNum: idx + 1, ...comp });
   });
 
+  const assembly = assembleZ80(source, name => getMSXInfo(name)?.address ?? null);
+  const { symbolTable, lineAddresses, lineBytes, memoryMap } = assembly;
+  assembly.errors.forEach(err => detectedBugs.push(`ASM: ${err}`));
+
   // ---------------------------------------------------------
-  // PASS 1: Populate Memory Map & Variables (using full Symbol Table)
+  // PASS 1: Labels, Constants & Variables (from the assembled output)
   // ---------------------------------------------------------
-  currentAddress = 0; // Reset for second pass
+  const dataAddresses = new Set<number>(); // First byte of every DB/DW line
+  source.forEach(({ lineNum, labels: lineLabels, directive }) => {
+      const address = lineAddresses[lineNum];
+      if (address === undefined) return;
 
-  lines.forEach((line, idx) => {
-      const comp = parseLineComponents(line);
-      if (!comp) return;
-      const { labels: lineLabels, directive, args } = comp;
-
-      if (directive === 'ORG') {
-          const addr = resolve(args);
-          if (addr !== null) currentAddress = addr;
-      }
-      else if (directive === 'DB' || directive === 'DEFB') {
-        const tokens = args.split(/,(?=(?:[^"']*["'][^"']*["'])*[^"']*$)/);
-        let offset = 0;
-        tokens.forEach(token => {
-            const trim = token.trim();
-            if (trim.startsWith('"') || trim.startsWith("'")) {
-                const str = trim.slice(1, -1);
-                for (let i = 0; i < str.length; i++) {
-                    memoryMap[currentAddress + offset] = str.charCodeAt(i);
-                    offset++;
-                }
-            } else {
-                const val = resolve(trim);
-                if (val !== null) {
-                    memoryMap[currentAddress + offset] = val & 0xFF;
-                    offset++;
-                } else {
-                    offset++; // Skip but increment
-                }
-            }
-        });
-        
-        // Register variables for ALL labels on this line
-        lineLabels.forEach(label => {
-            initialVariables.push({
-                name: label.toUpperCase(),
-                value: memoryMap[currentAddress] || 0,
-                address: '$' + currentAddress.toString(16).toUpperCase(),
-                lastModifiedStepId: 0
-            });
-        });
-        currentAddress += offset;
-      }
-      else if (directive === 'DW' || directive === 'DEFW') {
-        const tokens = args.split(',');
-        let offset = 0;
-        tokens.forEach(token => {
-             const val = resolve(token.trim());
-             const safeVal = val !== null ? val : 0;
-             // Little Endian
-             memoryMap[currentAddress + offset] = safeVal & 0xFF;
-             memoryMap[currentAddress + offset + 1] = (safeVal >> 8) & 0xFF;
-             offset += 2;
-        });
-
-        lineLabels.forEach(label => {
-             const valLow = memoryMap[currentAddress] || 0;
-             const valHigh = memoryMap[currentAddress+1] || 0;
-             initialVariables.push({
-                name: label.toUpperCase(),
-                value: (valHigh << 8) | valLow, 
-                address: '$' + currentAddress.toString(16).toUpperCase(),
-                lastModifiedStepId: 0
-            });
-        });
-        currentAddress += offset;
-      }
-      else {
-          currentAddress += getEntitySize(directive, args);
+      if (directive === 'EQU') {
+          // Register ALL aliases for this EQU
+          lineLabels.forEach(label => {
+              const upLabel = label.toUpperCase();
+              constants.push({ name: upLabel, value: address, hex: '$' + address.toString(16).toUpperCase() });
+          });
+          return;
       }
+      if (directive === 'ORG') return;
+
+      lineLabels.forEach(label => {
+          labels[label.toUpperCase()] = lineNum; // Visual Line Number
+      });
+
+      const isByteData = ['DB', 'DEFB', 'DEFM'].includes(directive);
+      const isWordData = directive === 'DW' || directive === 'DEFW';
+      if (!isByteData && !isWordData) return;
+
+      // Register variables for ALL labels on this line
+      const bytes = lineBytes[lineNum] || [];
+      dataAddresses.add(address);
+      lineLabels.forEach(label => {
+          initialVariables.push({
+              name: label.toUpperCase(),
+              value: isWordData ? ((bytes[1] || 0) << 8) | (bytes[0] || 0) : (bytes[0] || 0),
+              address: '$' + address.toString(16).toUpperCase(),
+              size: isWordData ? 2 : 1,
+              lastModifiedStepId: 0
+          });
+      });
   });
 
   // Re-Pass for Variables check (Aliases defined outside DB/DW lines but pointing to data)
   Object.keys(labels).forEach(label => {
       const addr = symbolTable[label];
       if (!initialVariables.find(v => v.name === label) && !constants.find(c => c.name === label)) {
-          if (memoryMap[addr] !== undefined) {
+          if (dataAddresses.has(addr) && memoryMap[addr] !== undefined) {
                initialVariables.push({
                    name: label,
                    value: memoryMap[addr],
                    address: '$' + addr.toString(16).toUpperCase(),
+                   size: 1,
                    lastModifiedStepId: 0
                });
           }
@@ -398,6 +272,11 @@ export const analyzeZ80Code = async (code: string): Promise<AnalysisResult> => {
          }
     }
 
+    // Timing from the assembled bytes when available, otherwise from the source text
+    const bytes = lineBytes[i + 1];
+    const timing = !VALID_MNEMONICS.has(opcode) ? null
+      : bytes && bytes.length > 0 ? getInstructionTiming(bytes) : getSourceTiming(opcode, operands);
+
     steps.push({
       id: idCounter++,
       lineNumber: i + 1,
@@ -407,7 +286,8 @@ export const analyzeZ80Code = async (code: string): Promise<AnalysisResult> => {
             (opcode === 'JP' || opcode === 'JR' || opcode === 'DJNZ') ? StepType.JUMP :
             opcode.startsWith('RET') ? StepType.RETURN : StepType.INSTRUCTION,
       description: description,
-      cycles: getZ80Cycles(opcode, operands)
+      cycles: timing ? timing.cycles : 0,
+      cyclesNotTaken: timing && timing.cyclesNotTaken !== timing.cycles ? timing.cyclesNotTaken : undefined
     });
   }
 
@@ -431,14 +311,102 @@ export const analyzeZ80Code = async (code: string): Promise<AnalysisResult> => {
     labels,
     memoryMap,
     lineAddresses,
+    lineBytes,
+    addressLines: buildAddressLineMap(lineAddresses, lineBytes),
     entryLine
   };
 };
 
-export const checkLabelReachability = (code: string, targetLabel: string): ReachabilityResult => {
-    return { isReachable: true, status: 'EXECUTED', tracePath: [], referenceCount: 1, labelLine: 1 };
+// Occurrences of a symbol in the operands of every source line (instructions and data)
+const countLabelReferences = (code: string, label: string): number => {
+    let count = 0;
+    code.split('\n').forEach(line => {
+        const comp = parseLineComponents(line);
+        if (!comp || !comp.args || comp.directive === 'EQU') return;
+        const unquoted = comp.args.replace(/"[^"]*"|'[^']*'/g, '');
+        (unquoted.match(/[A-Za-z_.@?][\w.@?]*/g) || []).forEach(token => {
+            if (token.toUpperCase() === label) count++;
+        });
+    });
+    return count;
+};
+
+/**
+ * Reachability of a label over the control-flow graph of the analyzed steps:
+ * EXECUTED when a path exists from an entry point, otherwise REFERENCED when
+ * some operand still mentions it (data tables, LD HL,label...) or DEAD_CODE.
+ */
+export const checkLabelReachability = (code: string, analysis: AnalysisResult, targetLabel: string): ReachabilityResult => {
+    const label = targetLabel.trim().toUpperCase();
+    const labelLine = analysis.labels[label];
+    if (labelLine === undefined) {
+        return { isReachable: false, status: 'NOT_FOUND', tracePath: [], referenceCount: 0, labelLine: 0 };
+    }
+
+    const referenceCount = countLabelReferences(code, label);
+    const graph = buildControlFlowGraph(analysis);
+    let targetStep = graph.stepForLine(labelLine);
+    // A label on DB/DW data is never executed, even if code follows it
+    if (targetStep !== -1) {
+        for (let line = labelLine; line < analysis.steps[targetStep].lineNumber; line++) {
+            if (analysis.lineBytes[line]?.length) { targetStep = -1; break; }
+        }
+    }
+    const path = targetStep !== -1 ? findShortestPath(graph, targetStep) : null;
+
+    if (!path) {
+        return {
+            isReachable: false,
+            status: referenceCount > 0 ? 'REFERENCED' : 'DEAD_CODE',
+            tracePath: [],
+            referenceCount,
+            labelLine
+        };
+    }
+
+    // Name the path by the labels it goes through (the first label of each step line)
+    const labelsByStep = new Map<number, string>();
+    Object.entries(analysis.labels)
+        .sort((a, b) => a[1] - b[1])
+        .forEach(([name, line]) => {
+            const idx = graph.stepForLine(line);
+            if (idx !== -1 && !labelsByStep.has(idx)) labelsByStep.set(idx, name);
+        });
+    labelsByStep.set(targetStep, label);
+
+    const tracePath: string[] = [];
+    path.forEach((idx, i) => {
+        const name = labelsByStep.get(idx) || (i === 0 ? `LINE ${analysis.steps[idx].lineNumber}` : null);
+        if (name && tracePath[tracePath.length - 1] !== name) tracePath.push(name);
+    });
+
+    return { isReachable: true, status: 'EXECUTED', tracePath, referenceCount, labelLine };
 };
 
-export const calculateCodeSelectionCycles = (text: string) => {
-    return { total: 0, details: [] };
+/**
+ * T-state breakdown of a block of source lines (e.g. a selection in the code
+ * viewer). `firstLine` is the line number of the first line of `text`.
+ */
+export const calculateCodeSelectionCycles = (text: string, firstLine: number = 1): CycleSelection => {
+    const details: CycleDetail[] = [];
+    text.split('\n').forEach((line, idx) => {
+        const comp = parseLineComponents(line);
+        if (!comp || !VALID_MNEMONICS.has(comp.directive)) return;
+        const timing = getSourceTiming(comp.directive, comp.args);
+        if (!timing) return;
+        details.push({
+            lineNumber: firstLine + idx,
+            instruction: `${comp.directive} ${comp.args}`.trim(),
+            cycles: timing.cycles,
+            cyclesNotTaken: timing.cyclesNotTaken !== timing.cycles ? timing.cyclesNotTaken : undefined
+        });
+    });
+
+    return details.reduce((acc, d) => {
+        const alt = d.cyclesNotTaken ?? d.cycles;
+        acc.total += d.cycles;
+        acc.minTotal += Math.min(d.cycles, alt);
+        acc.maxTotal += Math.max(d.cycles, alt);
+        return acc;
+    }, { total: 0, minTotal: 0, maxTotal: 0, details } as CycleSelection);
 };
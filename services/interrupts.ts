@@ -0,0 +1,229 @@
+import { InterruptState } from "../types";
+import type { SimulationState } from "./z80Simulator";
+import { VDP_STATUS_F, readVdpStatus } from "./vdp";
+import { readMemWord } from "./z80Memory";
+import { packFlags, unpackFlags } from "./z80Alu";
+import { FRAME_CYCLES, MSX_M1_WAIT } from "./z80Timing";
+
+/**
+ * INTERRUPTS
+ * ----------
+ * The VDP raises INT at the start of every VBLANK: S#0 bit 7 (F) is set and
+ * stays set until S#0 is read; R#1 bit 5 (IE0) connects it to the CPU. The
+ * CPU accepts it when IFF1 is set, except right after EI:
+ *   IM 0 / IM 1  RST $38 (the floating MSX data bus reads $FF, so IM 0 lands there too)
+ *   IM 2         call through the word at (I << 8) | $FF
+ * Accepting clears IFF1 and IFF2; RETN copies IFF2 back to IFF1.
+ *
+ * With no BIOS ROM loaded, $0038 is emulated (KEYINT): S#0 is read, JIFFY
+ * ($FC9E) is incremented and, when a program hooked H.TIMI ($FD9F) with a
+ * JP or CALL, the hook runs before returning to the interrupted code.
+ * As in the BIOS, the hook gets A = S#0 and everything it changes is undone:
+ *   HL DE BC AF HL' DE' BC' AF' IY IX  pushed, then KEYINT_EXIT as return
+ * The hook's RET to KEYINT_EXIT pops them back and returns to the program.
+ * Interrupts are re-enabled before the hook instead of after it, which only
+ * differs for hooks that run longer than a frame. A program with its own
+ * code at $0038 gets that code run instead.
+ */
+export const KEYINT = 0x0038;
+export const H_TIMI = 0xFD9F;
+export const JIFFY = 0xFC9E;
+// Return address of H.TIMI: inside the JP at $0038, never a call target of its own
+export const KEYINT_EXIT = 0x0039;
+export const INTERRUPT_LOG_LIMIT = 1000; // Oldest entries are dropped past this
+
+// Acceptance cost (PC push included) plus the wait state of the acknowledge cycle
+const IM1_CYCLES = 13 + MSX_M1_WAIT;
+const IM2_CYCLES = 19 + MSX_M1_WAIT;
+
+const IE0 = 0x20; // R#1: frame interrupt enable
+
+// As the BIOS leaves it for programs: IM 1, interrupts enabled
+export const createInterruptState = (framePeriod: number = FRAME_CYCLES.NTSC): InterruptState => ({
+  iff1: true,
+  iff2: true,
+  mode: 1,
+  framePeriod,
+  nextFrame: framePeriod,
+  frames: 0,
+  log: [],
+  hookFrames: []
+});
+
+export const cloneInterruptState = (irq: InterruptState): InterruptState => ({
+  ...irq,
+  log: [...irq.log],
+  hookFrames: [...irq.hookFrames]
+});
+
+// A new frame period takes effect from the current T-state
+export const setFramePeriod = (irq: InterruptState, tStates: number, framePeriod: number): InterruptState => ({
+  ...cloneInterruptState(irq),
+  framePeriod,
+  nextFrame: tStates + framePeriod
+});
+
+// --- FRAME TIMER ---
+
+// Sets F for every VBLANK the T-state counter went past
+export const updateFrameTimer = (state: SimulationState) => {
+  const irq = state.interrupts;
+  // The counter was reset (or the period shortened): restart from here
+  if (irq.nextFrame > state.tStates + irq.framePeriod) irq.nextFrame = state.tStates + irq.framePeriod;
+  while (state.tStates >= irq.nextFrame) {
+    state.vdp.status |= VDP_STATUS_F;
+    irq.frames++;
+    irq.nextFrame += irq.framePeriod;
+  }
+};
+
+const canInterrupt = (state: SimulationState): boolean =>
+  state.interrupts.iff1 && (state.vdp.registers[1] & IE0) !== 0;
+
+export const isInterruptPending = (state: SimulationState): boolean => {
+  updateFrameTimer(state);
+  return canInterrupt(state) && (state.vdp.status & VDP_STATUS_F) !== 0;
+};
+
+/**
+ * HALT: the CPU idles until the next VBLANK. Returns false when nothing can
+ * wake it up (DI or IE0 off), i.e. the program is stuck.
+ */
+export const waitForInterrupt = (state: SimulationState): boolean => {
+  if (!canInterrupt(state)) return false;
+  updateFrameTimer(state);
+  if (!(state.vdp.status & VDP_STATUS_F)) state.tStates = Math.max(state.tStates, state.interrupts.nextFrame);
+  updateFrameTimer(state);
+  return true;
+};
+
+// --- DISPATCH ---
+
+// JP nn / CALL nn written into a hook
+const isHookPatched = (memory: Uint8Array, hook: number): boolean =>
+  memory[hook] === 0xC3 || memory[hook] === 0xCD;
+
+// Where a patched hook sends execution (the hook itself otherwise)
+export const resolveHookJump = (memory: Uint8Array, hook: number): number =>
+  isHookPatched(memory, hook) ? readMemWord(memory, hook + 1) : hook;
+
+/**
+ * KEYINT as seen by programs: acknowledges the VDP, counts the frame and
+ * re-enables interrupts. Returns the S#0 value it read.
+ */
+export const emulateKeyint = (state: SimulationState): number => {
+  const status = readVdpStatus(state.vdp);
+  const jiffy = (readMemWord(state.memory, JIFFY) + 1) & 0xFFFF;
+  state.memory[JIFFY] = jiffy & 0xFF;
+  state.memory[JIFFY + 1] = jiffy >> 8;
+  state.interrupts.iff1 = true;
+  state.interrupts.iff2 = true;
+  return status;
+};
+
+// --- KEYINT REGISTER FRAME ---
+
+const pushWord = (state: SimulationState, val: number | null) => {
+  const sp = (state.registers.sp - 2) & 0xFFFF;
+  state.registers.sp = sp;
+  if (val === null) return;
+  state.memory[sp] = val & 0xFF;
+  state.memory[(sp + 1) & 0xFFFF] = (val >> 8) & 0xFF;
+};
+
+const popWord = (state: SimulationState): number => {
+  const val = readMemWord(state.memory, state.registers.sp);
+  state.registers.sp = (state.registers.sp + 2) & 0xFFFF;
+  return val;
+};
+
+// Saves the register file as KEYINT does and calls H.TIMI with A = S#0
+const enterKeyintHook = (state: SimulationState, status: number) => {
+  const regs = state.registers;
+  const af = (regs.a << 8) | packFlags(state.flags);
+  [(regs.h << 8) | regs.l, (regs.d << 8) | regs.e, (regs.b << 8) | regs.c, af,
+    regs.hl_, regs.de_, regs.bc_, regs.af_, regs.iy, regs.ix].forEach(val => pushWord(state, val));
+  pushWord(state, KEYINT_EXIT);
+  state.interrupts.hookFrames.push(state.registers.sp);
+  regs.a = status;
+};
+
+/**
+ * Called after a RET: when it popped an emulated KEYINT exit address, the
+ * saved registers are restored and the interrupted program's return address
+ * is popped and returned. Null for any other return.
+ */
+export const leaveKeyintHook = (state: SimulationState): number | null => {
+  const frames = state.interrupts.hookFrames;
+  const sp = state.registers.sp;
+  // Frames the stack was unwound past without returning through them
+  while (frames.length > 0 && frames[frames.length - 1] + 2 < sp) frames.pop();
+  if (frames.length === 0 || frames[frames.length - 1] + 2 !== sp) return null;
+  frames.pop();
+  const regs = state.registers;
+  regs.ix = popWord(state);
+  regs.iy = popWord(state);
+  regs.af_ = popWord(state);
+  regs.bc_ = popWord(state);
+  regs.de_ = popWord(state);
+  regs.hl_ = popWord(state);
+  const af = popWord(state);
+  regs.a = af >> 8;
+  state.flags = unpackFlags(af & 0xFF);
+  const bc = popWord(state);
+  regs.b = bc >> 8;
+  regs.c = bc & 0xFF;
+  const de = popWord(state);
+  regs.d = de >> 8;
+  regs.e = de & 0xFF;
+  const hl = popWord(state);
+  regs.h = hl >> 8;
+  regs.l = hl & 0xFF;
+  return popWord(state);
+};
+
+/**
+ * Accepts the pending interrupt, pushes `returnAddress` (only moves SP when
+ * it is null) and logs it. Returns the address where program code takes
+ * over, or null when the emulated KEYINT handled everything (nothing is
+ * pushed then). `hasCode` tells whether the program has its own code at an
+ * address.
+ */
+export const acceptInterrupt = (
+  state: SimulationState,
+  returnAddress: number | null,
+  hasCode: (addr: number) => boolean
+): number | null => {
+  const irq = state.interrupts;
+  irq.iff1 = false;
+  irq.iff2 = false;
+  state.tStates += irq.mode === 2 ? IM2_CYCLES : IM1_CYCLES;
+
+  let handler = KEYINT;
+  let via: 'KEYINT' | 'H.TIMI' | 'IM 2' = 'KEYINT';
+  let target: number | null = KEYINT;
+  let status: number | null = null;
+  if (irq.mode === 2) {
+    handler = readMemWord(state.memory, ((state.registers.i << 8) | 0xFF) & 0xFFFF);
+    target = hasCode(handler) ? handler : null;
+    via = 'IM 2';
+  } else if (!hasCode(KEYINT)) {
+    status = emulateKeyint(state);
+    handler = resolveHookJump(state.memory, H_TIMI);
+    if (isHookPatched(state.memory, H_TIMI) && hasCode(handler)) {
+      target = H_TIMI;
+      via = 'H.TIMI';
+    } else {
+      handler = KEYINT;
+      target = null;
+    }
+  }
+
+  if (target !== null) {
+    pushWord(state, returnAddress);
+    if (status !== null) enterKeyintHook(state, status);
+  }
+  irq.log.push({ tStates: state.tStates, frame: irq.frames, returnAddress, handler, via });
+  if (irq.log.length > INTERRUPT_LOG_LIMIT) irq.log.shift();
+  return target;
+};
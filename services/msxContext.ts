@@ -1,3 +1,4 @@
+import { RegisterName } from "../types";
 
 export interface MSXEntry {
   label: string;
@@ -5,77 +6,691 @@ export interface MSXEntry {
   description: string;
   inputs?: string;
   outputs?: string;
-  type: 'BIOS' | 'SYSVAR' | 'IO';
+  clobbers?: RegisterName[]; // BIOS / SUB-ROM: registers the routine changes, outputs included
+  size?: number; // SYSVAR / HOOK: bytes
+  type: 'BIOS' | 'SUBROM' | 'SYSVAR' | 'HOOK' | 'IO';
 }
 
-// Helper to convert hex string to number
-const h = (hex: string) => parseInt(hex, 16);
-
-export const MSX_KNOWLEDGE_BASE: { [address: number]: MSXEntry } = {
-  // --- BIOS: RST Vectors ---
-  0x0000: { label: 'RESET', address: 0, description: 'System Reset / Cold Start', type: 'BIOS' },
-  0x0038: { label: 'KEYINT', address: 0x38, description: 'Timer Interrupt Handler (50/60Hz). Updates JIFFY, scans keyboard/sprites.', type: 'BIOS' },
-
-  // --- BIOS: Slot / Inter-slot ---
-  0x000C: { label: 'RDSLT', address: 0x000C, description: 'Read RAM in any slot', inputs: 'A=Data, HL=Addr, D=SlotID', type: 'BIOS' },
-  0x0014: { label: 'WRSLT', address: 0x0014, description: 'Write to RAM in any slot', inputs: 'E=Data, HL=Addr, D=SlotID', type: 'BIOS' },
-  0x001C: { label: 'CALSLT', address: 0x001C, description: 'Call routine in another slot', inputs: 'IY=Addr, IX=SlotID', type: 'BIOS' },
-  0x0024: { label: 'ENASLT', address: 0x0024, description: 'Enable slot permanently', inputs: 'A=SlotID, HL=Addr', type: 'BIOS' },
-
-  // --- BIOS: VDP / Screen ---
-  0x0041: { label: 'CALLF', address: 0x0041, description: 'Call routine in current slot', type: 'BIOS' },
-  0x0047: { label: 'WRTVDP', address: 0x0047, description: 'Write to VDP Register', inputs: 'B=Data, C=Register#', type: 'BIOS' },
-  0x004A: { label: 'RDVRM', address: 0x004A, description: 'Read Byte from VRAM', inputs: 'HL=VRAM Addr', outputs: 'A=Data', type: 'BIOS' },
-  0x004D: { label: 'WRTVRM', address: 0x004D, description: 'Write Byte to VRAM', inputs: 'HL=VRAM Addr, A=Data', type: 'BIOS' },
-  0x005C: { label: 'LDIRVM', address: 0x005C, description: 'Block Transfer RAM -> VRAM', inputs: 'HL=RAM Src, DE=VRAM Dst, BC=Len', type: 'BIOS' },
-  0x0059: { label: 'LDIRMV', address: 0x0059, description: 'Block Transfer VRAM -> RAM', inputs: 'HL=VRAM Src, DE=RAM Dst, BC=Len', type: 'BIOS' },
-  0x005F: { label: 'CHGMOD', address: 0x005F, description: 'Switch Screen Mode', inputs: 'A = Screen Mode (0-3)', type: 'BIOS' },
-  0x0062: { label: 'CHGCLR', address: 0x0062, description: 'Change Screen Colors', inputs: 'FORCLR, BAKCLR, BDRCLR', type: 'BIOS' },
-  0x0069: { label: 'DISSCR', address: 0x0069, description: 'Disable Screen (Blank). Increases VDP access speed.', type: 'BIOS' },
-  0x006C: { label: 'ENASCR', address: 0x006C, description: 'Enable Screen (Display On).', type: 'BIOS' },
-  0x006F: { label: 'INIT32', address: 0x006F, description: 'Initialize Screen 1 (32x24 Text)', type: 'BIOS' },
-  0x0072: { label: 'INITXT', address: 0x0072, description: 'Initialize Screen 0 (40x24 Text)', type: 'BIOS' },
-  0x00C0: { label: 'TOTEXT', address: 0x00C0, description: 'Force Text Mode 1 (Screen 0)', type: 'BIOS' },
-  
-  // --- BIOS: Input / Keyboard ---
-  0x009F: { label: 'CHGET', address: 0x009F, description: 'Wait and get character from keyboard buffer', outputs: 'A=Char', type: 'BIOS' },
-  0x00A2: { label: 'CHPUT', address: 0x00A2, description: 'Output character to screen (Console)', inputs: 'A=Char', type: 'BIOS' },
-  0x00D5: { label: 'GTSTCK', address: 0x00D5, description: 'Get Joystick Direction', inputs: 'A=Port(0=Space, 1=Port1, 2=Port2)', outputs: 'A=Dir(0-8)', type: 'BIOS' },
-  0x00D8: { label: 'GTTRIG', address: 0x00D8, description: 'Get Trigger Status', inputs: 'A=Port(0=Space, 1=Port1...)', outputs: 'A=0(Press)/FF(Rel)', type: 'BIOS' },
-  0x00DB: { label: 'GTPAD',  address: 0x00DB, description: 'Get Touchpad/Mouse Data', inputs: 'A=ID', outputs: 'A=Value', type: 'BIOS' },
-
-  // --- BIOS: Sound (PSG) ---
-  0x0090: { label: 'GICINI', address: 0x0090, description: 'Initialize PSG (Sound Chip)', type: 'BIOS' },
-  0x0093: { label: 'WRTPSG', address: 0x0093, description: 'Write to PSG Register', inputs: 'A=Reg#, E=Data', type: 'BIOS' },
-  0x0096: { label: 'RDPSG',  address: 0x0096, description: 'Read from PSG Register', inputs: 'A=Reg#', outputs: 'A=Data', type: 'BIOS' },
-
-  // --- BIOS: Misc ---
-  0x013E: { label: 'RND',    address: 0x013E, description: 'Generate Random Number', inputs: 'R# register', outputs: 'BC=Random', type: 'BIOS' },
-
-  // --- SYSTEM VARIABLES (RAM: F380 - FFFF) ---
-  0xF3E9: { label: 'BAKCLR', address: 0xF3E9, description: 'Background Color (Screen 0-3)', type: 'SYSVAR' },
-  0xF3EA: { label: 'BDRCLR', address: 0xF3EA, description: 'Border Color', type: 'SYSVAR' },
-  0xF3EB: { label: 'FORCLR', address: 0xF3EB, description: 'Foreground Color (Text)', type: 'SYSVAR' },
-  
-  0xF3DB: { label: 'CLIKSW', address: 0xF3DB, description: 'Key Click Switch (0=Off, 1=On)', type: 'SYSVAR' },
-  0xF3DC: { label: 'CSRY',   address: 0xF3DC, description: 'Cursor Y Position', type: 'SYSVAR' },
-  0xF3DD: { label: 'CSRX',   address: 0xF3DD, description: 'Cursor X Position', type: 'SYSVAR' },
-  0xF3AE: { label: 'LINL40', address: 0xF3AE, description: 'Width of Screen 0 (Default 40)', type: 'SYSVAR' },
-  0xF3AF: { label: 'LINL32', address: 0xF3AF, description: 'Width of Screen 1 (Default 32)', type: 'SYSVAR' },
-
-  0xFC9E: { label: 'JIFFY',  address: 0xFC9E, description: 'Software Clock (Increments every 1/50 or 1/60 sec)', type: 'SYSVAR' },
-  0xFCA0: { label: 'INTCNT', address: 0xFCA0, description: 'Interrupt Counter (for BASIC ON INTERVAL)', type: 'SYSVAR' },
-  
-  0xF398: { label: 'LINLEN', address: 0xF398, description: 'Current Line Length', type: 'SYSVAR' },
-  0xF39A: { label: 'CRTCNT', address: 0xF39A, description: 'Rows on screen', type: 'SYSVAR' },
-  
-  // Hooks
-  0xFD9A: { label: 'H_KEYI', address: 0xFD9A, description: 'Hook: Interrupt Handler', type: 'SYSVAR' },
-  0xFD9F: { label: 'H_TIMI', address: 0xFD9F, description: 'Hook: Timer Interrupt (1/60s)', type: 'SYSVAR' },
+/**
+ * MSX KNOWLEDGE BASE
+ * ------------------
+ * Catalogue of the documented MSX1/MSX2 interface, after the MSX2 Technical
+ * Handbook and the MSX Red Book:
+ *   BIOS      main ROM jump table ($0000-$0177) and the math-pack RND
+ *   SUBROM    MSX2 SUB-ROM entries, reached through EXTROM / CALSLT with IX
+ *             (their addresses overlap the main ROM, so they have their own table)
+ *   SYSVAR    system variables from $F380 up
+ *   HOOK      the 5-byte H.xxxx hooks ($FD9A-$FFC9), RET until patched
+ * `changes` lists the registers a routine changes ("Registers:" in the
+ * handbook); biosHle marks them as clobbered after an emulated call.
+ * Hooks are labelled H_xxxx; H.xxxx in a source resolves to the same entry.
+ */
+
+// --- REGISTER LISTS ---
+
+const ALL: RegisterName[] = ['a', 'f', 'b', 'c', 'd', 'e', 'h', 'l', 'ix', 'iy', 'af_', 'bc_', 'de_', 'hl_'];
+const REGISTER_SPECS: { [name: string]: RegisterName[] } = {
+  AF: ['a', 'f'], BC: ['b', 'c'], DE: ['d', 'e'], HL: ['h', 'l'],
+  A: ['a'], F: ['f'], B: ['b'], C: ['c'], D: ['d'], E: ['e'], H: ['h'], L: ['l'],
+  IX: ['ix'], IY: ['iy'], ALL
 };
 
+// 'AF,BC' / 'ALL' / '' (none) as a register list
+const registers = (spec: string): RegisterName[] =>
+  spec.split(',').map(s => s.trim()).filter(Boolean).flatMap(name => REGISTER_SPECS[name]);
+
+interface RoutineInfo {
+  inputs?: string;
+  outputs?: string;
+  changes?: string; // Defaults to none
+}
+
+const routine = (type: 'BIOS' | 'SUBROM') =>
+  (address: number, label: string, description: string, info: RoutineInfo = {}): MSXEntry => ({
+    label, address, description, inputs: info.inputs, outputs: info.outputs, clobbers: registers(info.changes || ''), type
+  });
+
+const bios = routine('BIOS');
+const sub = routine('SUBROM');
+
+const sysvar = (address: number, label: string, size: number, description: string): MSXEntry =>
+  ({ label, address, description, size, type: 'SYSVAR' });
+
+const hook = (address: number, name: string, description: string): MSXEntry =>
+  ({ label: `H_${name}`, address, description: `Hook: ${description}`, size: 5, type: 'HOOK' });
+
+// --- BIOS: MAIN ROM JUMP TABLE ---
+
+const BIOS_ENTRIES: MSXEntry[] = [
+  // RST vectors and slots
+  bios(0x0000, 'CHKRAM', 'Power-up: checks RAM, sets up slots and boots the system', { changes: 'ALL' }),
+  bios(0x0004, 'CGTABL', 'Data: address of the ROM character set (2 bytes)'),
+  bios(0x0006, 'VDP_DR', 'Data: VDP data port for reading ($98)'),
+  bios(0x0007, 'VDP_DW', 'Data: VDP data port for writing ($98)'),
+  bios(0x0008, 'SYNCHR', 'RST 08: checks that the BASIC text character at (HL) is the byte after the RST', { inputs: 'HL=Text, byte after RST=Char', outputs: 'HL+1, A=Next char', changes: 'AF,HL' }),
+  bios(0x000C, 'RDSLT', 'Read a byte in any slot (interrupts are disabled)', { inputs: 'A=SlotID, HL=Addr', outputs: 'A=Data', changes: 'AF,BC,DE' }),
+  bios(0x0010, 'CHRGTR', 'RST 10: next character or token of the BASIC text', { inputs: 'HL=Text', outputs: 'HL=Addr, A=Char, C=Number, Z=End of statement', changes: 'AF,HL' }),
+  bios(0x0014, 'WRSLT', 'Write a byte in any slot (interrupts are disabled)', { inputs: 'A=SlotID, HL=Addr, E=Data', changes: 'AF,BC,D' }),
+  bios(0x0018, 'OUTDO', 'RST 18: output to the current device (screen, printer or file)', { inputs: 'A=Char, PRTFLG, PTRFIL' }),
+  bios(0x001C, 'CALSLT', 'Call a routine in any slot', { inputs: 'IYH=SlotID, IX=Addr', changes: 'ALL' }),
+  bios(0x0020, 'DCOMPR', 'RST 20: compare HL with DE', { inputs: 'HL, DE', outputs: 'Z=(HL=DE), C=(HL<DE)', changes: 'AF' }),
+  bios(0x0024, 'ENASLT', 'Select a slot permanently for the page of HL', { inputs: 'A=SlotID, HL=Addr', changes: 'ALL' }),
+  bios(0x0028, 'GETYPR', 'RST 28: type of the value in DAC (VALTYP)', { outputs: 'M=Integer, Z=String, PO=Single, NC=Double', changes: 'AF' }),
+  bios(0x002B, 'IDBYT0', 'Data: character set (bits 0-3), date format (4-6), interrupt frequency (7: 1=50Hz)'),
+  bios(0x002C, 'IDBYT1', 'Data: keyboard type (bits 0-3), PRINT USING format (4-7)'),
+  bios(0x002D, 'MSXVER', 'Data: MSX version (0=MSX1, 1=MSX2, 2=MSX2+, 3=turbo R)'),
+  bios(0x0030, 'CALLF', 'RST 30: call a routine in any slot; slot ID and address follow the RST', { inputs: 'Inline: SlotID, Addr', changes: 'ALL' }),
+  bios(0x0038, 'KEYINT', 'RST 38: interrupt handler. Reads S#0, calls H.KEYI / H.TIMI, updates JIFFY, scans the keyboard'),
+  bios(0x003B, 'INITIO', 'Initialize the PSG and the printer port', { changes: 'ALL' }),
+  bios(0x003E, 'INIFNK', 'Initialize the function key strings', { changes: 'ALL' }),
+
+  // VDP and VRAM
+  bios(0x0041, 'DISSCR', 'Disable the screen (blank, R#1 bit 6 off)', { changes: 'AF,BC' }),
+  bios(0x0044, 'ENASCR', 'Enable the screen (R#1 bit 6 on)', { changes: 'AF,BC' }),
+  bios(0x0047, 'WRTVDP', 'Write a VDP register (saved in RG0SAV+)', { inputs: 'C=Register#, B=Data', changes: 'AF,BC' }),
+  bios(0x004A, 'RDVRM', 'Read a VRAM byte (14-bit address)', { inputs: 'HL=VRAM Addr', outputs: 'A=Data', changes: 'AF' }),
+  bios(0x004D, 'WRTVRM', 'Write a VRAM byte (14-bit address)', { inputs: 'HL=VRAM Addr, A=Data', changes: 'AF' }),
+  bios(0x0050, 'SETRD', 'Set the VDP address for reading', { inputs: 'HL=VRAM Addr', changes: 'AF' }),
+  bios(0x0053, 'SETWRT', 'Set the VDP address for writing', { inputs: 'HL=VRAM Addr', changes: 'AF' }),
+  bios(0x0056, 'FILVRM', 'Fill VRAM with a byte', { inputs: 'HL=VRAM Addr, BC=Len, A=Data', changes: 'AF,BC' }),
+  bios(0x0059, 'LDIRMV', 'Block transfer VRAM -> RAM', { inputs: 'HL=VRAM Src, DE=RAM Dst, BC=Len', changes: 'ALL' }),
+  bios(0x005C, 'LDIRVM', 'Block transfer RAM -> VRAM', { inputs: 'HL=RAM Src, DE=VRAM Dst, BC=Len', changes: 'ALL' }),
+  bios(0x005F, 'CHGMOD', 'Switch the screen mode (sets SCRMOD, the tables and clears the screen)', { inputs: 'A=Screen mode (0-3, MSX2 0-8)', changes: 'ALL' }),
+  bios(0x0062, 'CHGCLR', 'Apply the screen colors', { inputs: 'A=Screen mode, FORCLR, BAKCLR, BDRCLR', changes: 'ALL' }),
+  bios(0x0066, 'NMI', 'Non-maskable interrupt handler (calls H.NMI)'),
+  bios(0x0069, 'CLRSPR', 'Initialize all sprites (patterns cleared, attributes off screen)', { inputs: 'SCRMOD', changes: 'ALL' }),
+  bios(0x006C, 'INITXT', 'Initialize SCREEN 0 (40x24 text)', { inputs: 'TXTNAM, TXTCGP', changes: 'ALL' }),
+  bios(0x006F, 'INIT32', 'Initialize SCREEN 1 (32x24 text)', { inputs: 'T32NAM, T32COL, T32CGP, T32ATR, T32PAT', changes: 'ALL' }),
+  bios(0x0072, 'INIGRP', 'Initialize SCREEN 2 (256x192 graphics)', { inputs: 'GRPNAM, GRPCOL, GRPCGP, GRPATR, GRPPAT', changes: 'ALL' }),
+  bios(0x0075, 'INIMLT', 'Initialize SCREEN 3 (64x48 multicolor)', { inputs: 'MLTNAM, MLTCOL, MLTCGP, MLTATR, MLTPAT', changes: 'ALL' }),
+  bios(0x0078, 'SETTXT', 'Set the VDP registers for SCREEN 0 only', { inputs: 'TXTNAM, TXTCGP', changes: 'ALL' }),
+  bios(0x007B, 'SETT32', 'Set the VDP registers for SCREEN 1 only', { inputs: 'T32NAM, T32COL, T32CGP, T32ATR, T32PAT', changes: 'ALL' }),
+  bios(0x007E, 'SETGRP', 'Set the VDP registers for SCREEN 2 only', { inputs: 'GRPNAM, GRPCOL, GRPCGP, GRPATR, GRPPAT', changes: 'ALL' }),
+  bios(0x0081, 'SETMLT', 'Set the VDP registers for SCREEN 3 only', { inputs: 'MLTNAM, MLTCOL, MLTCGP, MLTATR, MLTPAT', changes: 'ALL' }),
+  bios(0x0084, 'CALPAT', 'VRAM address of a sprite pattern', { inputs: 'A=Sprite#', outputs: 'HL=VRAM Addr', changes: 'AF,DE,HL' }),
+  bios(0x0087, 'CALATR', 'VRAM address of a sprite attribute entry', { inputs: 'A=Sprite#', outputs: 'HL=VRAM Addr', changes: 'AF,DE,HL' }),
+  bios(0x008A, 'GSPSIZ', 'Current sprite size', { outputs: 'A=Bytes per pattern, C=16x16', changes: 'AF' }),
+  bios(0x008D, 'GRPPRT', 'Output a character on the graphic screen', { inputs: 'A=Char' }),
+
+  // PSG and sound
+  bios(0x0090, 'GICINI', 'Initialize the PSG and the PLAY statement queues', { changes: 'ALL' }),
+  bios(0x0093, 'WRTPSG', 'Write a PSG register', { inputs: 'A=Register#, E=Data' }),
+  bios(0x0096, 'RDPSG', 'Read a PSG register', { inputs: 'A=Register#', outputs: 'A=Data' }),
+  bios(0x0099, 'STRTMS', 'Start the background music of the PLAY queues', { changes: 'ALL' }),
+
+  // Console
+  bios(0x009C, 'CHSNS', 'Check the keyboard buffer', { outputs: 'Z=Buffer empty', changes: 'AF' }),
+  bios(0x009F, 'CHGET', 'Wait for a character from the keyboard buffer', { outputs: 'A=Char', changes: 'AF' }),
+  bios(0x00A2, 'CHPUT', 'Output a character to the screen (console, control codes and escapes)', { inputs: 'A=Char' }),
+  bios(0x00A5, 'LPTOUT', 'Output a character to the printer', { inputs: 'A=Char', outputs: 'C=Aborted', changes: 'F' }),
+  bios(0x00A8, 'LPTSTT', 'Printer status', { outputs: 'A=FF, NZ=Ready / A=0, Z=Not ready', changes: 'AF' }),
+  bios(0x00AB, 'CNVCHR', 'Convert a graphic character code (after the $01 header)', { inputs: 'A=Char, GRPHED', outputs: 'A=Converted, NC=Header, C+Z=Converted, C+NZ=Not converted', changes: 'AF' }),
+  bios(0x00AE, 'PINLIN', 'Read a line from the console into BUF', { outputs: 'HL=BUF-1, C=STOP pressed', changes: 'ALL' }),
+  bios(0x00B1, 'INLIN', 'Read a line from the console, keeping text left of the cursor', { outputs: 'HL=BUF-1, C=STOP pressed', changes: 'ALL' }),
+  bios(0x00B4, 'QINLIN', 'Print "? " and read a line (INLIN)', { outputs: 'HL=BUF-1, C=STOP pressed', changes: 'ALL' }),
+  bios(0x00B7, 'BREAKX', 'Check CTRL+STOP directly on the keyboard matrix', { outputs: 'C=Pressed', changes: 'AF' }),
+  bios(0x00BA, 'ISCNTC', 'Check SHIFT+STOP (BASIC)'),
+  bios(0x00BD, 'CKCNTC', 'Same as ISCNTC, used by BASIC'),
+  bios(0x00C0, 'BEEP', 'Generate a beep on the PSG', { changes: 'ALL' }),
+  bios(0x00C3, 'CLS', 'Clear the screen (only with Z set, as BASIC calls it)', { inputs: 'Z flag set', changes: 'AF,BC,DE' }),
+  bios(0x00C6, 'POSIT', 'Move the cursor', { inputs: 'H=Column (1-), L=Row (1-)', changes: 'AF' }),
+  bios(0x00C9, 'FNKSB', 'Show the function keys if they are enabled (FNKFLG)', { changes: 'ALL' }),
+  bios(0x00CC, 'ERAFNK', 'Erase the function key display', { changes: 'ALL' }),
+  bios(0x00CF, 'DSPFNK', 'Display the function keys', { changes: 'ALL' }),
+  bios(0x00D2, 'TOTEXT', 'Force the screen back to text mode (SCREEN 0/1)', { changes: 'ALL' }),
+
+  // Joysticks, paddles and touch pads
+  bios(0x00D5, 'GTSTCK', 'Joystick direction', { inputs: 'A=Port (0=Cursor keys, 1, 2)', outputs: 'A=Direction (0=None, 1=Up, clockwise to 8)', changes: 'ALL' }),
+  bios(0x00D8, 'GTTRIG', 'Trigger status', { inputs: 'A=Trigger (0=Space, 1/2=Port A button, 3/4=Port B button)', outputs: 'A=0 Released / FF Pressed', changes: 'AF' }),
+  bios(0x00DB, 'GTPAD', 'Touch pad / mouse / light pen data', { inputs: 'A=Function (0-7, MSX2 up to 19)', outputs: 'A=Value', changes: 'ALL' }),
+  bios(0x00DE, 'GTPDL', 'Paddle value', { inputs: 'A=Paddle# (1-12)', outputs: 'A=Value (0-255)', changes: 'ALL' }),
+
+  // Cassette
+  bios(0x00E1, 'TAPION', 'Motor on and read a cassette header', { outputs: 'C=Failed', changes: 'ALL' }),
+  bios(0x00E4, 'TAPIN', 'Read a byte from the cassette', { outputs: 'A=Data, C=Failed', changes: 'ALL' }),
+  bios(0x00E7, 'TAPIOF', 'Stop reading the cassette'),
+  bios(0x00EA, 'TAPOON', 'Motor on and write a cassette header', { inputs: 'A=0 Short / other Long header', outputs: 'C=Failed', changes: 'ALL' }),
+  bios(0x00ED, 'TAPOUT', 'Write a byte to the cassette', { inputs: 'A=Data', outputs: 'C=Failed', changes: 'ALL' }),
+  bios(0x00F0, 'TAPOOF', 'Stop writing the cassette'),
+  bios(0x00F3, 'STMOTR', 'Cassette motor control', { inputs: 'A=0 Stop, 1 Start, FF Toggle', changes: 'AF' }),
+
+  // Queues (PLAY)
+  bios(0x00F6, 'LFTQ', 'Free space in a music queue', { inputs: 'A=Queue#', outputs: 'HL=Free bytes', changes: 'AF,BC,HL' }),
+  bios(0x00F9, 'PUTQ', 'Put a byte in a music queue', { inputs: 'A=Queue#, E=Data', outputs: 'Z=Queue full', changes: 'AF,BC,HL' }),
+
+  // Graphics (current pixel in CLOC / CMASK)
+  bios(0x00FC, 'RIGHTC', 'Move the current pixel one to the right', { changes: 'AF' }),
+  bios(0x00FF, 'LEFTC', 'Move the current pixel one to the left', { changes: 'AF' }),
+  bios(0x0102, 'UPC', 'Move the current pixel one up', { changes: 'AF' }),
+  bios(0x0105, 'TUPC', 'Move the current pixel one up, unless at the top', { outputs: 'C=At the top', changes: 'AF' }),
+  bios(0x0108, 'DOWNC', 'Move the current pixel one down', { changes: 'AF' }),
+  bios(0x010B, 'TDOWNC', 'Move the current pixel one down, unless at the bottom', { outputs: 'C=At the bottom', changes: 'AF' }),
+  bios(0x010E, 'SCALXY', 'Clip graphic coordinates to the screen', { inputs: 'BC=X, DE=Y', outputs: 'BC=X, DE=Y, NC=Clipped', changes: 'AF' }),
+  bios(0x0111, 'MAPXY', 'Set the current pixel from coordinates', { inputs: 'BC=X, DE=Y', outputs: 'CLOC, CMASK', changes: 'F' }),
+  bios(0x0114, 'FETCHC', 'Get the current pixel', { outputs: 'A=CMASK, HL=CLOC', changes: 'A,HL' }),
+  bios(0x0117, 'STOREC', 'Set the current pixel', { inputs: 'A=CMASK, HL=CLOC' }),
+  bios(0x011A, 'SETATR', 'Set the drawing color (ATRBYT)', { inputs: 'A=Color', outputs: 'C=Illegal color', changes: 'F' }),
+  bios(0x011D, 'READC', 'Color of the current pixel', { outputs: 'A=Color', changes: 'AF' }),
+  bios(0x0120, 'SETC', 'Draw the current pixel in ATRBYT', { changes: 'AF' }),
+  bios(0x0123, 'NSETCX', 'Draw a horizontal run of pixels from the current one', { inputs: 'HL=Pixel count', changes: 'ALL' }),
+  bios(0x0126, 'GTASPC', 'Aspect ratio for CIRCLE', { outputs: 'DE=ASPCT1, HL=ASPCT2', changes: 'DE,HL' }),
+  bios(0x0129, 'PNTINI', 'Initialize PAINT', { inputs: 'A=Border color', outputs: 'C=Illegal color', changes: 'AF' }),
+  bios(0x012C, 'SCANR', 'PAINT: scan pixels to the right', { inputs: 'B=Fill switch, DE=Skip count', outputs: 'DE=Skip remainder, HL=Pixel count', changes: 'ALL' }),
+  bios(0x012F, 'SCANL', 'PAINT: scan pixels to the left', { outputs: 'HL=Pixel count', changes: 'ALL' }),
+
+  // Misc
+  bios(0x0132, 'CHGCAP', 'CAPS lamp', { inputs: 'A=0 Off / other On', changes: 'AF' }),
+  bios(0x0135, 'CHGSND', '1-bit sound port', { inputs: 'A=0 Off / other On', changes: 'AF' }),
+  bios(0x0138, 'RSLREG', 'Read the primary slot register (port $A8)', { outputs: 'A=Value', changes: 'A' }),
+  bios(0x013B, 'WSLREG', 'Write the primary slot register (port $A8)', { inputs: 'A=Value' }),
+  bios(0x013E, 'RDVDP', 'Read VDP status register S#0', { outputs: 'A=Status', changes: 'A' }),
+  bios(0x0141, 'SNSMAT', 'Read a keyboard matrix row', { inputs: 'A=Row (0-10)', outputs: 'A=Bits (0=Pressed)', changes: 'AF,C' }),
+  bios(0x0144, 'PHYDIO', 'Physical disk I/O (disk ROM, via H.PHYD)', { changes: 'ALL' }),
+  bios(0x0147, 'FORMAT', 'Format a disk (disk ROM, via H.FORM)', { changes: 'ALL' }),
+  bios(0x014A, 'ISFLIO', 'Check whether a file is being used for I/O', { outputs: 'A=0, Z=Not file I/O', changes: 'AF' }),
+  bios(0x014D, 'OUTDLP', 'Output to the printer, expanding TAB and graphic characters', { inputs: 'A=Char', changes: 'F' }),
+  bios(0x0150, 'GETVCP', 'Address in the PLAY voice buffer', { inputs: 'A=Voice# (0-2)', outputs: 'HL=Addr', changes: 'AF' }),
+  bios(0x0153, 'GETVC2', 'Address in the current PLAY voice buffer', { inputs: 'L=Offset, VOICEN', outputs: 'HL=Addr', changes: 'AF' }),
+  bios(0x0156, 'KILBUF', 'Clear the keyboard buffer', { changes: 'HL' }),
+  bios(0x0159, 'CALBAS', 'Call a BASIC interpreter routine', { inputs: 'IX=Addr', changes: 'ALL' }),
+
+  // MSX2
+  bios(0x015C, 'SUBROM', 'Call a SUB-ROM routine (IX pushed by the caller)', { inputs: 'IX=Addr, (SP)=IX', changes: 'ALL' }),
+  bios(0x015F, 'EXTROM', 'Call a SUB-ROM routine', { inputs: 'IX=Addr', changes: 'ALL' }),
+  bios(0x0162, 'CHKSLZ', 'Find the SUB-ROM slot', { changes: 'ALL' }),
+  bios(0x0165, 'CHKNEW', 'Check for a bitmap screen mode', { outputs: 'C=SCREEN 5-8', changes: 'AF' }),
+  bios(0x0168, 'EOL', 'Erase to the end of the line', { inputs: 'H=Column, L=Row', changes: 'ALL' }),
+  bios(0x016B, 'BIGFIL', 'FILVRM with a 17-bit address (ACPAGE)', { inputs: 'HL=VRAM Addr, BC=Len, A=Data', changes: 'AF,BC' }),
+  bios(0x016E, 'NSETRD', 'SETRD with a 17-bit address (ACPAGE)', { inputs: 'HL=VRAM Addr', changes: 'AF' }),
+  bios(0x0171, 'NSTWRT', 'SETWRT with a 17-bit address (ACPAGE)', { inputs: 'HL=VRAM Addr', changes: 'AF' }),
+  bios(0x0174, 'NRDVRM', 'RDVRM with a 17-bit address (ACPAGE)', { inputs: 'HL=VRAM Addr', outputs: 'A=Data', changes: 'F' }),
+  bios(0x0177, 'NWRVRM', 'WRTVRM with a 17-bit address (ACPAGE)', { inputs: 'HL=VRAM Addr, A=Data', changes: 'AF' }),
+
+  // Math-pack (BASIC ROM)
+  bios(0x2BDF, 'RND', 'Math-pack: next random number in DAC and RNDX (BCD float)', { inputs: 'DAC=Argument', outputs: 'DAC=Random (0-1)', changes: 'ALL' }),
+];
+
+// --- SUB-ROM (MSX2, called with IX through EXTROM / CALSLT) ---
+
+const SUBROM_ENTRIES: MSXEntry[] = [
+  sub(0x0069, 'PAINT', 'Paint an area (BASIC PAINT)', { inputs: 'HL=Text pointer', changes: 'ALL' }),
+  sub(0x006D, 'PSET', 'Draw a point (BASIC PSET)', { inputs: 'HL=Text pointer', changes: 'ALL' }),
+  sub(0x0071, 'ATRSCN', 'Parse a color code (BASIC)', { changes: 'ALL' }),
+  sub(0x0075, 'GLINE', 'Draw a line', { inputs: 'GXPOS, GYPOS=Start, BC, DE=End, ATRBYT, LOGOPR', changes: 'ALL' }),
+  sub(0x0079, 'DOBOXF', 'Draw a filled box', { inputs: 'GXPOS, GYPOS=Corner, BC, DE=Corner, ATRBYT, LOGOPR', changes: 'ALL' }),
+  sub(0x007D, 'DOLINE', 'Draw a line (BASIC LINE)', { changes: 'ALL' }),
+  sub(0x0081, 'BOXLIN', 'Draw a box outline', { inputs: 'GXPOS, GYPOS=Corner, BC, DE=Corner, ATRBYT, LOGOPR', changes: 'ALL' }),
+  sub(0x0085, 'DOGRPH', 'Draw a line to the last point (BASIC LINE -)', { changes: 'ALL' }),
+  sub(0x0089, 'GRPPRT', 'Output a character on the graphic screen (SCREEN 5-8)', { inputs: 'A=Char, LOGOPR', changes: 'ALL' }),
+  sub(0x008D, 'SCALXY', 'Clip graphic coordinates to the screen', { inputs: 'BC=X, DE=Y', outputs: 'BC=X, DE=Y, NC=Clipped', changes: 'AF' }),
+  sub(0x0091, 'MAPXYC', 'Set the current pixel from coordinates', { inputs: 'BC=X, DE=Y', outputs: 'CLOC, CMASK', changes: 'F' }),
+  sub(0x0095, 'READC', 'Color of the current pixel', { outputs: 'A=Color', changes: 'AF' }),
+  sub(0x0099, 'SETATR', 'Set the drawing color (ATRBYT)', { inputs: 'A=Color', outputs: 'C=Illegal color', changes: 'F' }),
+  sub(0x009D, 'SETC', 'Draw the current pixel in ATRBYT', { inputs: 'LOGOPR', changes: 'AF' }),
+  sub(0x00D1, 'CHGMOD', 'Switch the screen mode (0-8)', { inputs: 'A=Screen mode', changes: 'ALL' }),
+  sub(0x00D5, 'INITXT', 'Initialize SCREEN 0 (40/80 columns)', { changes: 'ALL' }),
+  sub(0x00D9, 'INIT32', 'Initialize SCREEN 1', { changes: 'ALL' }),
+  sub(0x00DD, 'INIGRP', 'Initialize SCREEN 2', { changes: 'ALL' }),
+  sub(0x00E1, 'INIMLT', 'Initialize SCREEN 3', { changes: 'ALL' }),
+  sub(0x00E5, 'SETTXT', 'Set the VDP registers for SCREEN 0 only', { changes: 'ALL' }),
+  sub(0x00E9, 'SETT32', 'Set the VDP registers for SCREEN 1 only', { changes: 'ALL' }),
+  sub(0x00ED, 'SETGRP', 'Set the VDP registers for SCREEN 2 only', { changes: 'ALL' }),
+  sub(0x00F1, 'SETMLT', 'Set the VDP registers for SCREEN 3 only', { changes: 'ALL' }),
+  sub(0x00F5, 'CLRSPR', 'Initialize all sprites', { changes: 'ALL' }),
+  sub(0x00F9, 'CALPAT', 'VRAM address of a sprite pattern', { inputs: 'A=Sprite#', outputs: 'HL=VRAM Addr', changes: 'AF,DE,HL' }),
+  sub(0x00FD, 'CALATR', 'VRAM address of a sprite attribute entry', { inputs: 'A=Sprite#', outputs: 'HL=VRAM Addr', changes: 'AF,DE,HL' }),
+  sub(0x0101, 'GSPSIZ', 'Current sprite size', { outputs: 'A=Bytes per pattern, C=16x16', changes: 'AF' }),
+  sub(0x0105, 'GETPAT', 'Character pattern from the ROM font', { inputs: 'A=Char', outputs: 'PATWRK=8 bytes', changes: 'ALL' }),
+  sub(0x0109, 'WRTVRM', 'Write a VRAM byte (17-bit address)', { inputs: 'HL=VRAM Addr, A=Data', changes: 'AF' }),
+  sub(0x010D, 'RDVRM', 'Read a VRAM byte (17-bit address)', { inputs: 'HL=VRAM Addr', outputs: 'A=Data', changes: 'AF' }),
+  sub(0x0111, 'CHGCLR', 'Apply the screen colors', { inputs: 'A=Screen mode, FORCLR, BAKCLR, BDRCLR', changes: 'ALL' }),
+  sub(0x0115, 'CLSSUB', 'Clear the screen', { changes: 'ALL' }),
+  sub(0x011D, 'DSPFNK', 'Display the function keys', { changes: 'ALL' }),
+  sub(0x012D, 'WRTVDP', 'Write a VDP register (saved in RG0SAV+ / RG8SAV+)', { inputs: 'C=Register#, B=Data', changes: 'AF,BC' }),
+  sub(0x0131, 'VDPSTA', 'Read a VDP status register', { inputs: 'A=Register# (0-9)', outputs: 'A=Status', changes: 'F' }),
+  sub(0x013D, 'SETPAG', 'Select the display and active pages', { inputs: 'DPPAGE, ACPAGE', changes: 'AF' }),
+  sub(0x0141, 'INIPLT', 'Initialize the palette (also saved in VRAM)', { changes: 'AF,BC,DE' }),
+  sub(0x0145, 'RSTPLT', 'Restore the palette saved in VRAM', { changes: 'AF,BC,DE' }),
+  sub(0x0149, 'GETPLT', 'Read a palette entry', { inputs: 'D=Color#', outputs: 'B=RRRR BBBB, C=0000 GGGG', changes: 'AF,DE' }),
+  sub(0x014D, 'SETPLT', 'Set a palette entry', { inputs: 'D=Color#, A=RRRR BBBB, E=0000 GGGG', changes: 'AF' }),
+  sub(0x017D, 'BEEP', 'Generate a beep', { changes: 'ALL' }),
+  sub(0x0181, 'PROMPT', 'Display the prompt ("Ok")', { changes: 'ALL' }),
+  sub(0x01AD, 'NEWPAD', 'Read the light pen, mouse or track ball (GTPAD 8-19)', { inputs: 'A=Function', outputs: 'A=Value', changes: 'ALL' }),
+  sub(0x01B5, 'CHGMDP', 'Switch the screen mode and initialize the palette', { inputs: 'A=Screen mode', changes: 'ALL' }),
+  sub(0x01BD, 'KNJPRT', 'Output a Kanji character on the graphic screen', { inputs: 'BC=JIS code, A=Display mode', changes: 'AF' }),
+  sub(0x01F5, 'REDCLK', 'Read the clock chip RAM', { inputs: 'C=Block/register', outputs: 'A=Data (4 bits)', changes: 'F' }),
+  sub(0x01F9, 'WRTCLK', 'Write the clock chip RAM', { inputs: 'C=Block/register, A=Data', changes: 'F' }),
+];
+
+// --- SYSTEM VARIABLES (RAM: F380 - FFFF) ---
+
+const SYSTEM_VARIABLES: MSXEntry[] = [
+  // Slot access routines copied to RAM, BASIC USR table, screen widths
+  sysvar(0xF380, 'RDPRIM', 5, 'Routine: read from a primary slot'),
+  sysvar(0xF385, 'WRPRIM', 7, 'Routine: write to a primary slot'),
+  sysvar(0xF38C, 'CLPRIM', 14, 'Routine: call in a primary slot'),
+  sysvar(0xF39A, 'USRTAB', 20, 'USR0-USR9 function addresses'),
+  sysvar(0xF3AE, 'LINL40', 1, 'Width of SCREEN 0 (default 39 / 40)'),
+  sysvar(0xF3AF, 'LINL32', 1, 'Width of SCREEN 1 (default 29 / 32)'),
+  sysvar(0xF3B0, 'LINLEN', 1, 'Width of the current text screen'),
+  sysvar(0xF3B1, 'CRTCNT', 1, 'Rows on the text screen (24)'),
+  sysvar(0xF3B2, 'CLMLST', 1, 'Column of the last PRINT field (comma spacing)'),
+
+  // VRAM tables per screen mode
+  sysvar(0xF3B3, 'TXTNAM', 2, 'SCREEN 0 name table'),
+  sysvar(0xF3B5, 'TXTCOL', 2, 'SCREEN 0 color table'),
+  sysvar(0xF3B7, 'TXTCGP', 2, 'SCREEN 0 pattern generator table'),
+  sysvar(0xF3B9, 'TXTATR', 2, 'SCREEN 0 sprite attribute table (unused)'),
+  sysvar(0xF3BB, 'TXTPAT', 2, 'SCREEN 0 sprite pattern table (unused)'),
+  sysvar(0xF3BD, 'T32NAM', 2, 'SCREEN 1 name table'),
+  sysvar(0xF3BF, 'T32COL', 2, 'SCREEN 1 color table'),
+  sysvar(0xF3C1, 'T32CGP', 2, 'SCREEN 1 pattern generator table'),
+  sysvar(0xF3C3, 'T32ATR', 2, 'SCREEN 1 sprite attribute table'),
+  sysvar(0xF3C5, 'T32PAT', 2, 'SCREEN 1 sprite pattern table'),
+  sysvar(0xF3C7, 'GRPNAM', 2, 'SCREEN 2 name table'),
+  sysvar(0xF3C9, 'GRPCOL', 2, 'SCREEN 2 color table'),
+  sysvar(0xF3CB, 'GRPCGP', 2, 'SCREEN 2 pattern generator table'),
+  sysvar(0xF3CD, 'GRPATR', 2, 'SCREEN 2 sprite attribute table'),
+  sysvar(0xF3CF, 'GRPPAT', 2, 'SCREEN 2 sprite pattern table'),
+  sysvar(0xF3D1, 'MLTNAM', 2, 'SCREEN 3 name table'),
+  sysvar(0xF3D3, 'MLTCOL', 2, 'SCREEN 3 color table (unused)'),
+  sysvar(0xF3D5, 'MLTCGP', 2, 'SCREEN 3 pattern generator table'),
+  sysvar(0xF3D7, 'MLTATR', 2, 'SCREEN 3 sprite attribute table'),
+  sysvar(0xF3D9, 'MLTPAT', 2, 'SCREEN 3 sprite pattern table'),
+
+  // Console, VDP register copies and colors
+  sysvar(0xF3DB, 'CLIKSW', 1, 'Key click switch (0=Off)'),
+  sysvar(0xF3DC, 'CSRY', 1, 'Cursor row (1-)'),
+  sysvar(0xF3DD, 'CSRX', 1, 'Cursor column (1-)'),
+  sysvar(0xF3DE, 'CNSDFG', 1, 'Function key display switch (0=Off)'),
+  sysvar(0xF3DF, 'RG0SAV', 1, 'Copy of VDP R#0'),
+  sysvar(0xF3E0, 'RG1SAV', 1, 'Copy of VDP R#1'),
+  sysvar(0xF3E1, 'RG2SAV', 1, 'Copy of VDP R#2'),
+  sysvar(0xF3E2, 'RG3SAV', 1, 'Copy of VDP R#3'),
+  sysvar(0xF3E3, 'RG4SAV', 1, 'Copy of VDP R#4'),
+  sysvar(0xF3E4, 'RG5SAV', 1, 'Copy of VDP R#5'),
+  sysvar(0xF3E5, 'RG6SAV', 1, 'Copy of VDP R#6'),
+  sysvar(0xF3E6, 'RG7SAV', 1, 'Copy of VDP R#7'),
+  sysvar(0xF3E7, 'STATFL', 1, 'Copy of VDP S#0 (read by KEYINT)'),
+  sysvar(0xF3E8, 'TRGFLG', 1, 'Joystick trigger states'),
+  sysvar(0xF3E9, 'FORCLR', 1, 'Foreground color'),
+  sysvar(0xF3EA, 'BAKCLR', 1, 'Background color'),
+  sysvar(0xF3EB, 'BDRCLR', 1, 'Border color'),
+  sysvar(0xF3EC, 'MAXUPD', 3, 'Routine: JP used by CIRCLE'),
+  sysvar(0xF3EF, 'MINUPD', 3, 'Routine: JP used by CIRCLE'),
+  sysvar(0xF3F2, 'ATRBYT', 1, 'Drawing color'),
+  sysvar(0xF3F3, 'QUEUES', 2, 'Address of the queue table (QUETAB)'),
+  sysvar(0xF3F5, 'FRCNEW', 1, 'BASIC interpreter flag'),
+  sysvar(0xF3F6, 'SCNCNT', 1, 'Keyboard scan interval counter'),
+  sysvar(0xF3F7, 'REPCNT', 1, 'Key repeat delay counter'),
+  sysvar(0xF3F8, 'PUTPNT', 2, 'Keyboard buffer write pointer'),
+  sysvar(0xF3FA, 'GETPNT', 2, 'Keyboard buffer read pointer'),
+
+  // Cassette
+  sysvar(0xF3FC, 'CS120', 10, 'Cassette bit timings for 1200 and 2400 baud'),
+  sysvar(0xF406, 'LOW', 2, 'Cassette: width of a 0 bit'),
+  sysvar(0xF408, 'HIGH', 2, 'Cassette: width of a 1 bit'),
+  sysvar(0xF40A, 'HEADER', 1, 'Cassette: header length'),
+  sysvar(0xF40B, 'ASPCT1', 2, 'CIRCLE aspect ratio 1 (256 / aspect)'),
+  sysvar(0xF40D, 'ASPCT2', 2, 'CIRCLE aspect ratio 2 (256 * aspect)'),
+  sysvar(0xF40F, 'ENDPRG', 5, 'Dummy end of program for RESUME NEXT'),
+
+  // BASIC interpreter
+  sysvar(0xF414, 'ERRFLG', 1, 'BASIC error number'),
+  sysvar(0xF415, 'LPTPOS', 1, 'Printer head position'),
+  sysvar(0xF416, 'PRTFLG', 1, 'Output to the printer (0=Screen)'),
+  sysvar(0xF417, 'NTMSXP', 1, 'Non-MSX printer (0=MSX printer)'),
+  sysvar(0xF418, 'RAWPRT', 1, 'Raw printer output (no conversion)'),
+  sysvar(0xF419, 'VLZADR', 2, 'VAL: address of the replaced character'),
+  sysvar(0xF41B, 'VLZDAT', 1, 'VAL: replaced character'),
+  sysvar(0xF41C, 'CURLIN', 2, 'Current BASIC line number (FFFF=Direct mode)'),
+  sysvar(0xF41E, 'KBFMIN', 1, 'Byte before KBUF (":")'),
+  sysvar(0xF41F, 'KBUF', 318, 'Crunch buffer (tokenized line)'),
+  sysvar(0xF55D, 'BUFMIN', 1, 'Comma used by INPUT'),
+  sysvar(0xF55E, 'BUF', 258, 'Line input buffer'),
+  sysvar(0xF660, 'ENDBUF', 1, 'End of BUF'),
+  sysvar(0xF661, 'TTYPOS', 1, 'Virtual cursor column for BASIC'),
+  sysvar(0xF662, 'DIMFLG', 1, 'DIM in progress'),
+  sysvar(0xF663, 'VALTYP', 1, 'Type of DAC (2=Integer, 3=String, 4=Single, 8=Double)'),
+  sysvar(0xF664, 'DORES', 1, 'DATA statement: no crunching'),
+  sysvar(0xF665, 'DONUM', 1, 'Crunch flag for numbers'),
+  sysvar(0xF666, 'CONTXT', 2, 'Text pointer after a constant'),
+  sysvar(0xF668, 'CONSAV', 1, 'Token of the last constant'),
+  sysvar(0xF669, 'CONTYP', 1, 'Type of the last constant'),
+  sysvar(0xF66A, 'CONLO', 8, 'Value of the last constant'),
+  sysvar(0xF672, 'MEMSIZ', 2, 'Highest address usable by BASIC'),
+  sysvar(0xF674, 'STKTOP', 2, 'Top of the BASIC stack'),
+  sysvar(0xF676, 'TXTTAB', 2, 'Start of the BASIC program text'),
+  sysvar(0xF678, 'TEMPPT', 2, 'Next free string descriptor in TEMPST'),
+  sysvar(0xF67A, 'TEMPST', 30, 'Temporary string descriptors'),
+  sysvar(0xF698, 'DSCTMP', 3, 'String function result descriptor'),
+  sysvar(0xF69B, 'FRETOP', 2, 'Next free byte of string space'),
+  sysvar(0xF69D, 'TEMP3', 2, 'Interpreter scratch'),
+  sysvar(0xF69F, 'TEMP8', 2, 'Interpreter scratch'),
+  sysvar(0xF6A1, 'ENDFOR', 2, 'Address after FOR'),
+  sysvar(0xF6A3, 'DATLIN', 2, 'Line number of the current DATA'),
+  sysvar(0xF6A5, 'SUBFLG', 1, 'Array subscript flag'),
+  sysvar(0xF6A6, 'FLGINP', 1, 'INPUT / READ flag'),
+  sysvar(0xF6A7, 'TEMP', 2, 'Interpreter scratch'),
+  sysvar(0xF6A9, 'PTRFLG', 1, 'Line numbers converted to pointers'),
+  sysvar(0xF6AA, 'AUTFLG', 1, 'AUTO mode'),
+  sysvar(0xF6AB, 'AUTLIN', 2, 'AUTO: current line number'),
+  sysvar(0xF6AD, 'AUTINC', 2, 'AUTO: increment'),
+  sysvar(0xF6AF, 'SAVTXT', 2, 'Text pointer of the current statement'),
+  sysvar(0xF6B1, 'SAVSTK', 2, 'Stack pointer saved for error recovery'),
+  sysvar(0xF6B3, 'ERRLIN', 2, 'Line number of the last error'),
+  sysvar(0xF6B5, 'DOT', 2, 'Current line for LIST / EDIT'),
+  sysvar(0xF6B7, 'ERRTXT', 2, 'Text pointer of the last error (RESUME)'),
+  sysvar(0xF6B9, 'ONELIN', 2, 'ON ERROR GOTO line'),
+  sysvar(0xF6BB, 'ONEFLG', 1, 'Executing an error handler'),
+  sysvar(0xF6BC, 'TEMP2', 2, 'Interpreter scratch'),
+  sysvar(0xF6BE, 'OLDLIN', 2, 'Line number for CONT'),
+  sysvar(0xF6C0, 'OLDTXT', 2, 'Text pointer for CONT'),
+  sysvar(0xF6C2, 'VARTAB', 2, 'Start of the simple variables'),
+  sysvar(0xF6C4, 'ARYTAB', 2, 'Start of the array variables'),
+  sysvar(0xF6C6, 'STREND', 2, 'End of the variables'),
+  sysvar(0xF6C8, 'DATPTR', 2, 'Text pointer of the next DATA item'),
+  sysvar(0xF6CA, 'DEFTBL', 26, 'Default type of the variables A-Z (DEFINT...)'),
+  sysvar(0xF6E4, 'PRMSTK', 2, 'DEF FN: previous parameter block'),
+  sysvar(0xF6E6, 'PRMLEN', 2, 'DEF FN: length of PARM1'),
+  sysvar(0xF6E8, 'PARM1', 100, 'DEF FN: parameters'),
+  sysvar(0xF74C, 'PRMPRV', 2, 'DEF FN: previous parameter block pointer'),
+  sysvar(0xF74E, 'PRMLN2', 2, 'DEF FN: length of PARM2'),
+  sysvar(0xF750, 'PARM2', 100, 'DEF FN: parameters being built'),
+  sysvar(0xF7B4, 'PRMFLG', 1, 'DEF FN: searching PARM1'),
+  sysvar(0xF7B5, 'ARYTA2', 2, 'DEF FN: end of the search'),
+  sysvar(0xF7B7, 'NOFUNS', 1, 'DEF FN: no active functions'),
+  sysvar(0xF7B8, 'TEMP9', 2, 'Interpreter scratch'),
+  sysvar(0xF7BA, 'FUNACT', 2, 'DEF FN: active function count'),
+  sysvar(0xF7BC, 'SWPTMP', 8, 'SWAP: first variable value'),
+  sysvar(0xF7C4, 'TRCFLG', 1, 'TRON active'),
+
+  // Math-pack
+  sysvar(0xF7C5, 'FBUFFR', 43, 'Math-pack: number to text buffer'),
+  sysvar(0xF7F0, 'DECTMP', 2, 'Math-pack: scratch'),
+  sysvar(0xF7F2, 'DECTM2', 2, 'Math-pack: scratch'),
+  sysvar(0xF7F4, 'DECCNT', 1, 'Math-pack: digit counter'),
+  sysvar(0xF7F6, 'DAC', 16, 'Math-pack: decimal accumulator (BCD float / integer at DAC+2)'),
+  sysvar(0xF806, 'HOLD8', 48, 'Math-pack: multiplication table'),
+  sysvar(0xF836, 'HOLD2', 8, 'Math-pack: scratch'),
+  sysvar(0xF83E, 'HOLD', 8, 'Math-pack: scratch'),
+  sysvar(0xF847, 'ARG', 16, 'Math-pack: second operand'),
+  sysvar(0xF857, 'RNDX', 8, 'Last random number (BCD float)'),
+
+  // Files and devices
+  sysvar(0xF85F, 'MAXFIL', 1, 'Highest file number (MAXFILES)'),
+  sysvar(0xF860, 'FILTAB', 2, 'File data table'),
+  sysvar(0xF862, 'NULBUF', 2, 'Buffer used by SAVE / LOAD'),
+  sysvar(0xF864, 'PTRFIL', 2, 'Data block of the current I/O file'),
+  sysvar(0xF866, 'FILNAM', 11, 'File name'),
+  sysvar(0xF871, 'FILNM2', 11, 'Second file name (NAME)'),
+  sysvar(0xF87C, 'NLONLY', 1, 'Loading a program'),
+  sysvar(0xF87D, 'SAVEND', 2, 'BSAVE end address'),
+  sysvar(0xF87F, 'FNKSTR', 160, 'Function key strings (10 x 16)'),
+
+  // Graphics
+  sysvar(0xF91F, 'CGPNT', 3, 'Slot and address of the character font'),
+  sysvar(0xF922, 'NAMBAS', 2, 'Current name table'),
+  sysvar(0xF924, 'CGPBAS', 2, 'Current pattern generator table'),
+  sysvar(0xF926, 'PATBAS', 2, 'Current sprite pattern table'),
+  sysvar(0xF928, 'ATRBAS', 2, 'Current sprite attribute table'),
+  sysvar(0xF92A, 'CLOC', 2, 'Current pixel address'),
+  sysvar(0xF92C, 'CMASK', 1, 'Current pixel mask'),
+  sysvar(0xF92D, 'MINDEL', 2, 'LINE: minimum delta'),
+  sysvar(0xF92F, 'MAXDEL', 2, 'LINE: maximum delta'),
+  sysvar(0xF931, 'ASPECT', 2, 'CIRCLE: aspect ratio'),
+  sysvar(0xF933, 'CENCNT', 2, 'CIRCLE: end count'),
+  sysvar(0xF935, 'CLINEF', 1, 'CIRCLE: draw line to center'),
+  sysvar(0xF936, 'CNPNTS', 2, 'CIRCLE: points per octant'),
+  sysvar(0xF938, 'CPLOTF', 1, 'CIRCLE: plot polarity'),
+  sysvar(0xF939, 'CPCNT', 2, 'CIRCLE: points in 1/8 circle'),
+  sysvar(0xF93B, 'CPCNT8', 2, 'CIRCLE: points in the whole circle'),
+  sysvar(0xF93D, 'CRCSUM', 2, 'CIRCLE: cyclic redundancy'),
+  sysvar(0xF93F, 'CSTCNT', 2, 'CIRCLE: start count'),
+  sysvar(0xF941, 'CSCLXY', 1, 'CIRCLE: X / Y scaling'),
+  sysvar(0xF942, 'CSAVEA', 2, 'ADVGRP: saved CLOC'),
+  sysvar(0xF944, 'CSAVEM', 1, 'ADVGRP: saved CMASK'),
+  sysvar(0xF945, 'CXOFF', 2, 'CIRCLE: X offset from the center'),
+  sysvar(0xF947, 'CYOFF', 2, 'CIRCLE: Y offset from the center'),
+  sysvar(0xF949, 'LOHMSK', 1, 'PAINT: leftmost pixel mask'),
+  sysvar(0xF94A, 'LOHDIR', 1, 'PAINT: direction'),
+  sysvar(0xF94B, 'LOHADR', 2, 'PAINT: leftmost pixel address'),
+  sysvar(0xF94D, 'LOHCNT', 2, 'PAINT: size'),
+  sysvar(0xF94F, 'SKPCNT', 2, 'PAINT: skip count'),
+  sysvar(0xF951, 'MOVCNT', 2, 'PAINT: movement count'),
+  sysvar(0xF953, 'PDIREC', 1, 'PAINT: direction'),
+  sysvar(0xF954, 'LFPROG', 1, 'PAINT: progress to the left'),
+  sysvar(0xF955, 'RTPROG', 1, 'PAINT: progress to the right'),
+
+  // PLAY / DRAW macro language and music queues
+  sysvar(0xF956, 'MCLTAB', 2, 'Macro language command table (PLAY / DRAW)'),
+  sysvar(0xF958, 'MCLFLG', 1, 'Macro language: 0=DRAW, other=PLAY'),
+  sysvar(0xF959, 'QUETAB', 24, 'Queue table (4 queues x 6 bytes)'),
+  sysvar(0xF971, 'QUEBAK', 4, 'Queue back-up bytes'),
+  sysvar(0xF975, 'VOICAQ', 128, 'Music queue of voice A'),
+  sysvar(0xF9F5, 'VOICBQ', 128, 'Music queue of voice B'),
+  sysvar(0xFA75, 'VOICCQ', 128, 'Music queue of voice C'),
+
+  // MSX2
+  sysvar(0xFAF5, 'DPPAGE', 1, 'MSX2: display page'),
+  sysvar(0xFAF6, 'ACPAGE', 1, 'MSX2: active page'),
+  sysvar(0xFAF7, 'AVCSAV', 1, 'MSX2: AV control port copy'),
+  sysvar(0xFAF8, 'EXBRSA', 1, 'MSX2: SUB-ROM slot'),
+  sysvar(0xFAF9, 'CHRCNT', 1, 'MSX2: Roman-Kana conversion character count'),
+  sysvar(0xFAFA, 'ROMA', 2, 'MSX2: Roman-Kana conversion buffer'),
+  sysvar(0xFAFC, 'MODE', 1, 'MSX2: VRAM size (bits 1-2) and mode flags'),
+  sysvar(0xFAFD, 'NORUSE', 1, 'MSX2: Kanji driver flags'),
+  sysvar(0xFAFE, 'XSAVE', 2, 'MSX2: light pen / mouse X'),
+  sysvar(0xFB00, 'YSAVE', 2, 'MSX2: light pen / mouse Y'),
+  sysvar(0xFB02, 'LOGOPR', 1, 'MSX2: logical operation code for graphics'),
+
+  // Music and keyboard
+  sysvar(0xFB35, 'PRSCNT', 1, 'PLAY: strings parsed'),
+  sysvar(0xFB36, 'SAVSP', 2, 'PLAY: saved stack pointer'),
+  sysvar(0xFB38, 'VOICEN', 1, 'PLAY: current voice'),
+  sysvar(0xFB39, 'SAVVOL', 2, 'PLAY: saved volume'),
+  sysvar(0xFB3B, 'MCLLEN', 1, 'Macro language: string length'),
+  sysvar(0xFB3C, 'MCLPTR', 2, 'Macro language: string pointer'),
+  sysvar(0xFB3E, 'QUEUEN', 1, 'Current queue number'),
+  sysvar(0xFB3F, 'MUSICF', 1, 'Music interrupt flags (one bit per voice)'),
+  sysvar(0xFB40, 'PLYCNT', 1, 'PLAY statements queued'),
+  sysvar(0xFB41, 'VCBA', 37, 'Voice A parameters'),
+  sysvar(0xFB66, 'VCBB', 37, 'Voice B parameters'),
+  sysvar(0xFB8B, 'VCBC', 37, 'Voice C parameters'),
+  sysvar(0xFBB0, 'ENSTOP', 1, 'Warm start with CODE+GRAPH+CTRL+SHIFT (0=Off)'),
+  sysvar(0xFBB1, 'BASROM', 1, 'BASIC runs from ROM (CTRL+STOP disabled)'),
+  sysvar(0xFBB2, 'LINTTB', 24, 'Line terminator table (one per screen row)'),
+  sysvar(0xFBCA, 'FSTPOS', 2, 'INLIN: first character position'),
+  sysvar(0xFBCC, 'CODSAV', 1, 'Character under the cursor'),
+  sysvar(0xFBCD, 'FNKSW1', 1, 'Function keys shown: 1=F1-F5, 0=F6-F10'),
+  sysvar(0xFBCE, 'FNKFLG', 10, 'Function keys with ON KEY GOSUB enabled'),
+  sysvar(0xFBD8, 'ONGSBF', 1, 'Pending ON ... GOSUB events'),
+  sysvar(0xFBD9, 'CLIKFL', 1, 'Key click flag'),
+  sysvar(0xFBDA, 'OLDKEY', 11, 'Previous keyboard matrix'),
+  sysvar(0xFBE5, 'NEWKEY', 11, 'Current keyboard matrix (0=Pressed)'),
+  sysvar(0xFBF0, 'KEYBUF', 40, 'Keyboard buffer'),
+  sysvar(0xFC18, 'LINWRK', 40, 'Screen line work area'),
+  sysvar(0xFC40, 'PATWRK', 8, 'Character pattern work area'),
+  sysvar(0xFC48, 'BOTTOM', 2, 'Lowest RAM address used by BASIC'),
+  sysvar(0xFC4A, 'HIMEM', 2, 'Highest RAM address available (CLEAR)'),
+  sysvar(0xFC4C, 'TRPTBL', 78, 'Interrupt trap table (ON KEY / STOP / SPRITE / STRIG / INTERVAL)'),
+  sysvar(0xFC9A, 'RTYCNT', 1, 'Retry count (unused)'),
+  sysvar(0xFC9B, 'INTFLG', 1, 'STOP / CTRL+STOP pressed (4 / 3)'),
+  sysvar(0xFC9C, 'PADY', 1, 'Touch pad Y'),
+  sysvar(0xFC9D, 'PADX', 1, 'Touch pad X'),
+  sysvar(0xFC9E, 'JIFFY', 2, 'Software clock, incremented by KEYINT every frame (1/50 or 1/60 s)'),
+  sysvar(0xFCA0, 'INTVAL', 2, 'ON INTERVAL period'),
+  sysvar(0xFCA2, 'INTCNT', 2, 'ON INTERVAL counter'),
+  sysvar(0xFCA4, 'LOWLIM', 1, 'Cassette: minimum start bit width'),
+  sysvar(0xFCA5, 'WINWID', 1, 'Cassette: bit discrimination window'),
+  sysvar(0xFCA6, 'GRPHED', 1, 'Graphic character header ($01) pending'),
+  sysvar(0xFCA7, 'ESCCNT', 1, 'Escape sequence counter'),
+  sysvar(0xFCA8, 'INSFLG', 1, 'Insert mode'),
+  sysvar(0xFCA9, 'CSRSW', 1, 'Cursor shown during CHGET (0=No)'),
+  sysvar(0xFCAA, 'CSTYLE', 1, 'Cursor shape (0=Block, other=Underline)'),
+  sysvar(0xFCAB, 'CAPST', 1, 'CAPS lock (0=Off)'),
+  sysvar(0xFCAC, 'KANAST', 1, 'KANA lock (0=Off)'),
+  sysvar(0xFCAD, 'KANAMD', 1, 'KANA keyboard layout'),
+  sysvar(0xFCAE, 'FLBMEM', 1, 'Loading a BASIC program (0)'),
+  sysvar(0xFCAF, 'SCRMOD', 1, 'Current screen mode'),
+  sysvar(0xFCB0, 'OLDSCR', 1, 'Screen mode to return to (text)'),
+  sysvar(0xFCB1, 'CASPRV', 1, 'Cassette character buffer'),
+  sysvar(0xFCB2, 'BRDATR', 1, 'PAINT border color'),
+  sysvar(0xFCB3, 'GXPOS', 2, 'Graphic X position'),
+  sysvar(0xFCB5, 'GYPOS', 2, 'Graphic Y position'),
+  sysvar(0xFCB7, 'GRPACX', 2, 'Graphic accumulator X (last point)'),
+  sysvar(0xFCB9, 'GRPACY', 2, 'Graphic accumulator Y (last point)'),
+  sysvar(0xFCBB, 'DRWFLG', 1, 'DRAW: flags'),
+  sysvar(0xFCBC, 'DRWSCL', 1, 'DRAW: scale'),
+  sysvar(0xFCBD, 'DRWANG', 1, 'DRAW: angle'),
+  sysvar(0xFCBE, 'RUNBNF', 1, 'BLOAD ...,R in progress'),
+  sysvar(0xFCBF, 'SAVENT', 2, 'BSAVE / BLOAD execution address'),
+
+  // Slots
+  sysvar(0xFCC1, 'EXPTBL', 4, 'Slot expanded flags (bit 7) per primary slot; EXPTBL+0 is also the main ROM slot ID'),
+  sysvar(0xFCC5, 'SLTTBL', 4, 'Secondary slot register copies per primary slot'),
+  sysvar(0xFCC9, 'SLTATR', 64, 'Slot attributes (BASIC text, device, statement handlers)'),
+  sysvar(0xFD09, 'SLTWRK', 128, 'Work area per slot and page'),
+  sysvar(0xFD89, 'PROCNM', 16, 'Name of an extended statement or device (CALL)'),
+  sysvar(0xFD99, 'DEVICE', 1, 'Device ID for a cartridge'),
+
+  // Above the hooks
+  sysvar(0xFFCA, 'EXTBIO', 5, 'Extended BIOS call (MSX2 / MSX-DOS 2)'),
+  sysvar(0xFFCF, 'DISINT', 5, 'Called before interrupts are disabled'),
+  sysvar(0xFFD4, 'ENAINT', 5, 'Called after interrupts are enabled'),
+  sysvar(0xFFE7, 'RG8SAV', 16, 'MSX2: copies of VDP R#8-R#23'),
+];
+
+// --- HOOKS (5 bytes each, RET until a program or cartridge patches them) ---
+
+const HOOKS: MSXEntry[] = [
+  hook(0xFD9A, 'KEYI', 'start of KEYINT, every interrupt (also non-VDP ones)'),
+  hook(0xFD9F, 'TIMI', 'KEYINT, on the VDP frame interrupt (1/50 or 1/60 s)'),
+  hook(0xFDA4, 'CHPU', 'CHPUT, before a character is output'),
+  hook(0xFDA9, 'DSPC', 'display the cursor'),
+  hook(0xFDAE, 'ERAC', 'erase the cursor'),
+  hook(0xFDB3, 'DSPF', 'DSPFNK'),
+  hook(0xFDB8, 'ERAF', 'ERAFNK'),
+  hook(0xFDBD, 'TOTE', 'TOTEXT'),
+  hook(0xFDC2, 'CHGE', 'CHGET, before a character is read'),
+  hook(0xFDC7, 'INIP', 'copy of the character font to VRAM'),
+  hook(0xFDCC, 'KEYC', 'keyboard decoder'),
+  hook(0xFDD1, 'KYEA', 'keyboard decoder'),
+  hook(0xFDD6, 'NMI', 'NMI handler'),
+  hook(0xFDDB, 'PINL', 'PINLIN'),
+  hook(0xFDE0, 'QINL', 'QINLIN'),
+  hook(0xFDE5, 'INLI', 'INLIN'),
+  hook(0xFDEA, 'ONGO', 'ON device GOSUB'),
+  hook(0xFDEF, 'DSKO', 'DSKO$'),
+  hook(0xFDF4, 'SETS', 'SET'),
+  hook(0xFDF9, 'NAME', 'NAME'),
+  hook(0xFDFE, 'KILL', 'KILL'),
+  hook(0xFE03, 'IPL', 'IPL'),
+  hook(0xFE08, 'COPY', 'COPY'),
+  hook(0xFE0D, 'CMD', 'CMD'),
+  hook(0xFE12, 'DSKF', 'DSKF'),
+  hook(0xFE17, 'DSKI', 'DSKI$'),
+  hook(0xFE1C, 'ATTR', 'ATTR$'),
+  hook(0xFE21, 'LSET', 'LSET'),
+  hook(0xFE26, 'RSET', 'RSET'),
+  hook(0xFE2B, 'FIEL', 'FIELD'),
+  hook(0xFE30, 'MKI$', 'MKI$'),
+  hook(0xFE35, 'MKS$', 'MKS$'),
+  hook(0xFE3A, 'MKD$', 'MKD$'),
+  hook(0xFE3F, 'CVI', 'CVI'),
+  hook(0xFE44, 'CVS', 'CVS'),
+  hook(0xFE49, 'CVD', 'CVD'),
+  hook(0xFE4E, 'GETP', 'locate the FCB'),
+  hook(0xFE53, 'SETF', 'locate the FCB'),
+  hook(0xFE58, 'NOFO', 'OPEN'),
+  hook(0xFE5D, 'NULO', 'OPEN'),
+  hook(0xFE62, 'NTFL', 'CLOSE'),
+  hook(0xFE67, 'MERG', 'MERGE / LOAD'),
+  hook(0xFE6C, 'SAVE', 'SAVE'),
+  hook(0xFE71, 'BINS', 'binary SAVE'),
+  hook(0xFE76, 'BINL', 'binary LOAD'),
+  hook(0xFE7B, 'FILE', 'FILES'),
+  hook(0xFE80, 'DGET', 'GET / PUT'),
+  hook(0xFE85, 'FILO', 'sequential file output'),
+  hook(0xFE8A, 'INDS', 'sequential file input'),
+  hook(0xFE8F, 'RSLF', 'select the previous drive'),
+  hook(0xFE94, 'SAVD', 'save the current drive'),
+  hook(0xFE99, 'LOC', 'LOC'),
+  hook(0xFE9E, 'LOF', 'LOF'),
+  hook(0xFEA3, 'EOF', 'EOF'),
+  hook(0xFEA8, 'FPOS', 'FPOS'),
+  hook(0xFEAD, 'BAKU', 'LINE INPUT #'),
+  hook(0xFEB2, 'PARD', 'parse a device name'),
+  hook(0xFEB7, 'NODE', 'no device name'),
+  hook(0xFEBC, 'POSD', 'parse a device name'),
+  hook(0xFEC1, 'DEVN', 'device name'),
+  hook(0xFEC6, 'GEND', 'file I/O dispatcher'),
+  hook(0xFECB, 'RUNC', 'RUN / NEW: clear'),
+  hook(0xFED0, 'CLEA', 'CLEAR'),
+  hook(0xFED5, 'LOPD', 'load default values'),
+  hook(0xFEDA, 'STKE', 'stack error reset (cartridges with BASIC statements hook here to start)'),
+  hook(0xFEDF, 'ISFL', 'ISFLIO'),
+  hook(0xFEE4, 'OUTD', 'OUTDO'),
+  hook(0xFEE9, 'CRDO', 'output CR LF'),
+  hook(0xFEEE, 'DSKC', 'disk attribute input'),
+  hook(0xFEF3, 'DOGR', 'graphic line drawing'),
+  hook(0xFEF8, 'PRGE', 'end of program'),
+  hook(0xFEFD, 'ERRP', 'error handler'),
+  hook(0xFF02, 'ERRF', 'error handler'),
+  hook(0xFF07, 'READ', 'BASIC prompt ("Ok")'),
+  hook(0xFF0C, 'MAIN', 'BASIC main loop'),
+  hook(0xFF11, 'DIRD', 'direct statement'),
+  hook(0xFF16, 'FINI', 'end of the main loop'),
+  hook(0xFF1B, 'FINE', 'end of the main loop'),
+  hook(0xFF20, 'CRUN', 'tokenize a line'),
+  hook(0xFF25, 'CRUS', 'tokenize a line'),
+  hook(0xFF2A, 'ISRE', 'tokenize: reserved word found'),
+  hook(0xFF2F, 'NTFN', 'tokenize: line number'),
+  hook(0xFF34, 'NOTR', 'tokenize: not a reserved word'),
+  hook(0xFF39, 'SNGF', 'FOR'),
+  hook(0xFF3E, 'NEWS', 'new statement'),
+  hook(0xFF43, 'GONE', 'execute a statement'),
+  hook(0xFF48, 'CHRG', 'CHRGTR'),
+  hook(0xFF4D, 'RETU', 'RETURN'),
+  hook(0xFF52, 'PRTF', 'PRINT'),
+  hook(0xFF57, 'COMP', 'PRINT'),
+  hook(0xFF5C, 'FINP', 'PRINT'),
+  hook(0xFF61, 'TRMN', 'READ / INPUT error'),
+  hook(0xFF66, 'FRME', 'expression evaluator'),
+  hook(0xFF6B, 'NTPL', 'expression evaluator'),
+  hook(0xFF70, 'EVAL', 'factor evaluator'),
+  hook(0xFF75, 'OKNO', 'factor evaluator'),
+  hook(0xFF7A, 'FING', 'factor evaluator'),
+  hook(0xFF7F, 'ISMI', 'MID$ on the left of ='),
+  hook(0xFF84, 'WIDT', 'WIDTH'),
+  hook(0xFF89, 'LIST', 'LIST'),
+  hook(0xFF8E, 'BUFL', 'detokenize'),
+  hook(0xFF93, 'FRQI', 'integer to text'),
+  hook(0xFF98, 'SCNE', 'line number to pointer'),
+  hook(0xFF9D, 'FRET', 'free a string descriptor'),
+  hook(0xFFA2, 'PTRG', 'variable search'),
+  hook(0xFFA7, 'PHYD', 'PHYDIO (disk ROM)'),
+  hook(0xFFAC, 'FORM', 'FORMAT (disk ROM)'),
+  hook(0xFFB1, 'ERRO', 'error display'),
+  hook(0xFFB6, 'LPTO', 'LPTOUT'),
+  hook(0xFFBB, 'LPTS', 'LPTSTT'),
+  hook(0xFFC0, 'SCRE', 'SCREEN statement'),
+  hook(0xFFC5, 'PLAY', 'PLAY statement'),
+];
+
+const byAddress = (entries: MSXEntry[]): { [address: number]: MSXEntry } =>
+  Object.fromEntries(entries.map(entry => [entry.address, entry]));
+
+// Main address space: BIOS entry points, system variables and hooks
+export const MSX_KNOWLEDGE_BASE: { [address: number]: MSXEntry } = byAddress([...BIOS_ENTRIES, ...SYSTEM_VARIABLES, ...HOOKS]);
+
+// SUB-ROM entries, by address inside the SUB-ROM
+export const MSX_SUBROM_CALLS: { [address: number]: MSXEntry } = byAddress(SUBROM_ENTRIES);
+
 /**
  * Tries to find MSX information based on an address number OR a label string.
+ * Names are looked up in the main ROM / RAM catalogue first, so a name the
+ * SUB-ROM shares (CHGMOD, BEEP...) gives the main BIOS entry.
  */
 export const getMSXInfo = (query: string | number): MSXEntry | null => {
   let address: number | null = null;
@@ -87,10 +702,12 @@ export const getMSXInfo = (query: string | number): MSXEntry | null => {
     const q = query.trim().toUpperCase();
     if (q.startsWith('$')) address = parseInt(q.substring(1), 16);
     else if (q.startsWith('#')) address = parseInt(q.substring(1), 16);
-    else if (q.endsWith('H')) address = parseInt(q.substring(0, q.length - 1), 16);
+    else if (q.endsWith('H') && /^[0-9][0-9A-F]*H$/.test(q)) address = parseInt(q.substring(0, q.length - 1), 16);
     else {
-      // Try finding by Label name in our DB (Reverse lookup)
-      const entry = Object.values(MSX_KNOWLEDGE_BASE).find(e => e.label === q);
+      // Try finding by Label name in our DB (Reverse lookup); H.TIMI is H_TIMI
+      const name = q.replace(/^H\./, 'H_');
+      const entry = Object.values(MSX_KNOWLEDGE_BASE).find(e => e.label === name)
+        || Object.values(MSX_SUBROM_CALLS).find(e => e.label === name);
       if (entry) return entry;
     }
   }
@@ -0,0 +1,76 @@
+import { SimulationState } from "./z80Simulator";
+import { readVdpData, readVdpStatus, writeVdpControl, writeVdpData, writeVdpPalette, writeVdpIndirect } from "./vdp";
+import { updateSpriteStatus } from "./vdpSprites";
+import { selectPsgRegister, writePsgData, readPsgData } from "./psg";
+
+/**
+ * MSX I/O PORT DISPATCHER
+ * -----------------------
+ * IN / OUT (and the INI / OUTI block forms) of both the source-line simulator
+ * and the byte-level core (z80Cpu) go through here. Devices register a
+ * handler for the ports they decode; reads of an unmapped port return $FF
+ * (floating bus) and writes to it are ignored.
+ *
+ *   $98  VDP VRAM data (read-ahead buffer on reads)
+ *   $99  VDP control (writes) / status register (reads; S#0 has the sprite
+ *        5S / C flags evaluated from the current VRAM)
+ *   $9A  VDP palette (V9938)
+ *   $9B  VDP indirect register write (V9938, R#17)
+ *   $A0  PSG register select, $A1 PSG data write, $A2 PSG data read
+ */
+export interface IoPortHandler {
+  read?: (state: SimulationState, port: number) => number;
+  write?: (state: SimulationState, port: number, value: number) => void;
+}
+
+const ioPorts: (IoPortHandler | undefined)[] = new Array(256);
+
+export const registerIoPort = (ports: number | number[], handler: IoPortHandler) => {
+  (Array.isArray(ports) ? ports : [ports]).forEach(port => { ioPorts[port & 0xFF] = handler; });
+};
+
+export const readIoPort = (state: SimulationState, port: number): number => {
+  const handler = ioPorts[port & 0xFF];
+  return handler && handler.read ? handler.read(state, port & 0xFF) & 0xFF : 0xFF;
+};
+
+export const writeIoPort = (state: SimulationState, port: number, value: number) => {
+  const handler = ioPorts[port & 0xFF];
+  if (handler && handler.write) handler.write(state, port & 0xFF, value & 0xFF);
+};
+
+// --- DEVICES ---
+
+registerIoPort(0x98, {
+  read: (state) => readVdpData(state.vdp),
+  write: (state, _port, value) => writeVdpData(state.vdp, value)
+});
+
+registerIoPort(0x99, {
+  read: (state) => {
+    // Only S#0 carries the sprite flags; polling S#2 (CE) must not rescan sprites
+    if ((state.vdp.registers[15] & 0x0F) === 0) updateSpriteStatus(state.vdp);
+    return readVdpStatus(state.vdp);
+  },
+  write: (state, _port, value) => writeVdpControl(state.vdp, value)
+});
+
+registerIoPort(0x9A, {
+  write: (state, _port, value) => writeVdpPalette(state.vdp, value)
+});
+
+registerIoPort(0x9B, {
+  write: (state, _port, value) => writeVdpIndirect(state.vdp, value)
+});
+
+registerIoPort(0xA0, {
+  write: (state, _port, value) => selectPsgRegister(state.psg, value)
+});
+
+registerIoPort(0xA1, {
+  write: (state, _port, value) => writePsgData(state.psg, value, state.tStates)
+});
+
+registerIoPort(0xA2, {
+  read: (state) => readPsgData(state.psg)
+});
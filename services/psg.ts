@@ -0,0 +1,207 @@
+import { PSGState, PsgLogEntry } from "../types";
+
+/**
+ * AY-3-8910 PSG
+ * -------------
+ * Port $A0: register select, Port $A1: data write, Port $A2: data read.
+ *   R#0-R#5   tone period of channels A/B/C (12 bits, fine / coarse)
+ *   R#6       noise period (5 bits)
+ *   R#7       mixer: bits 0-2 tone off, bits 3-5 noise off (A/B/C), bits 6-7 I/O port direction
+ *   R#8-R#10  volume (4 bits) or envelope (bit 4) of channels A/B/C
+ *   R#11-R#12 envelope period (16 bits)
+ *   R#13      envelope shape: Continue, Attack, Alternate, Hold
+ *   R#14-R#15 I/O ports A (joysticks, read) and B (joystick select, kana LED)
+ * The MSX clocks the PSG at 1.7897725 MHz (half the CPU clock):
+ *   tone / noise frequency = clock / (16 * period)
+ *   envelope cycle (16 steps) = clock / (256 * period)
+ * Only the register file is emulated while stepping; renderPsgSamples
+ * synthesizes what the current registers would sound like. Every register
+ * write is logged with its T-state time (see services/vgm for the export).
+ *
+ * The log is an append-only ring shared by every copy of the state, so undo
+ * snapshots only keep their [logStart, logEnd) range of sequence numbers.
+ * After an undo the next write overwrites the discarded future in place.
+ */
+export const PSG_CLOCK = 1789772.5;
+export const PSG_REGISTER_COUNT = 16;
+export const PSG_CHANNELS = ['A', 'B', 'C'];
+export const PSG_LOG_LIMIT = 100000; // Oldest writes are dropped past this
+
+// Writable bits of each register
+const REGISTER_MASKS = [0xFF, 0x0F, 0xFF, 0x0F, 0xFF, 0x0F, 0x1F, 0xFF, 0x1F, 0x1F, 0x1F, 0xFF, 0xFF, 0x0F, 0xFF, 0xFF];
+
+// Port A with no joystick connected: inputs released, JIS layout bit set
+const PORT_A_IDLE = 0x7F;
+
+// GICINI: silent, tones enabled, noise off, port A input / port B output
+export const PSG_INIT_MIXER = 0xB8;
+
+// R#13 as a waveform sketch (shapes 0-7 all end at 0 after one ramp)
+const ENVELOPE_SHAPES: { [shape: number]: string } = {
+  0x08: '\\\\\\\\', 0x09: '\\___', 0x0A: '\\/\\/', 0x0B: '\\¯¯¯',
+  0x0C: '////', 0x0D: '/¯¯¯', 0x0E: '/\\/\\', 0x0F: '/___'
+};
+export const envelopeShapeName = (shape: number): string =>
+  shape & 0x08 ? ENVELOPE_SHAPES[shape & 0x0F] : shape & 0x04 ? '/___' : '\\___';
+
+export const createPsgState = (): PSGState => {
+  const registers = new Array(PSG_REGISTER_COUNT).fill(0);
+  registers[7] = PSG_INIT_MIXER;
+  return { registers, selected: 0, log: { entries: [], head: 0 }, logStart: 0, logEnd: 0, logBase: null };
+};
+
+export const clonePsgState = (psg: PSGState): PSGState => ({
+  ...psg,
+  registers: [...psg.registers],
+  logBase: psg.logBase ? [...psg.logBase] : null
+});
+
+// Starts a new recording from the current registers
+export const clearPsgLog = (psg: PSGState): PSGState => ({
+  ...clonePsgState(psg),
+  logStart: psg.logEnd,
+  logBase: null
+});
+
+// --- LOG ACCESS ---
+
+// Oldest write of this state still in the ring
+const firstLogged = (psg: PSGState): number => Math.max(psg.logStart, psg.log.head - PSG_LOG_LIMIT);
+
+export const getPsgLogLength = (psg: PSGState): number => Math.max(0, psg.logEnd - firstLogged(psg));
+
+// Write `index` of the recording, 0 being the oldest one kept
+export const getPsgLogEntry = (psg: PSGState, index: number): PsgLogEntry =>
+  psg.log.entries[(firstLogged(psg) + index) % PSG_LOG_LIMIT];
+
+// The last `count` writes, oldest first
+export const getPsgLog = (psg: PSGState, count: number = PSG_LOG_LIMIT): PsgLogEntry[] => {
+  const length = getPsgLogLength(psg);
+  const out: PsgLogEntry[] = [];
+  for (let i = Math.max(0, length - count); i < length; i++) out.push(getPsgLogEntry(psg, i));
+  return out;
+};
+
+// --- PORT ACCESS ---
+
+export const selectPsgRegister = (psg: PSGState, value: number) => {
+  psg.selected = value & 0x0F;
+};
+
+export const writePsgRegister = (psg: PSGState, reg: number, value: number, tStates: number) => {
+  if (reg >= PSG_REGISTER_COUNT) return;
+  if (psg.logEnd === psg.logStart) psg.logBase = [...psg.registers];
+  psg.registers[reg] = value & REGISTER_MASKS[reg];
+  psg.log.entries[psg.logEnd % PSG_LOG_LIMIT] = { tStates, register: reg, value: psg.registers[reg] };
+  psg.logEnd++;
+  psg.log.head = Math.max(psg.log.head, psg.logEnd);
+};
+
+// GICINI: every register written through the ports, as the BIOS does
+export const initPsg = (psg: PSGState, tStates: number) => {
+  createPsgState().registers.forEach((value, reg) => writePsgRegister(psg, reg, value, tStates));
+};
+
+export const readPsgRegister = (psg: PSGState, reg: number): number => {
+  if (reg === 14) return PORT_A_IDLE;
+  return reg < PSG_REGISTER_COUNT ? psg.registers[reg] : 0xFF;
+};
+
+export const writePsgData = (psg: PSGState, value: number, tStates: number) => writePsgRegister(psg, psg.selected, value, tStates);
+export const readPsgData = (psg: PSGState): number => readPsgRegister(psg, psg.selected);
+
+// --- DECODING ---
+
+export const getTonePeriod = (registers: number[], channel: number): number =>
+  registers[channel * 2] | ((registers[channel * 2 + 1] & 0x0F) << 8);
+export const getNoisePeriod = (registers: number[]): number => registers[6] & 0x1F;
+export const getEnvelopePeriod = (registers: number[]): number => registers[11] | (registers[12] << 8);
+
+// Mixer bits are active low
+export const isToneEnabled = (registers: number[], channel: number): boolean => !(registers[7] & (1 << channel));
+export const isNoiseEnabled = (registers: number[], channel: number): boolean => !(registers[7] & (8 << channel));
+export const usesEnvelope = (registers: number[], channel: number): boolean => (registers[8 + channel] & 0x10) !== 0;
+export const getVolume = (registers: number[], channel: number): number => registers[8 + channel] & 0x0F;
+
+// A period of 0 counts as 1
+export const toneFrequency = (period: number): number => PSG_CLOCK / (16 * Math.max(period, 1));
+export const envelopeFrequency = (period: number): number => PSG_CLOCK / (256 * Math.max(period, 1));
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Nearest note (A4 = 440 Hz), e.g. "A4 +3c"
+export const frequencyToNote = (freq: number): string => {
+  if (freq < 16 || freq > 20000) return '-';
+  const semitones = 12 * Math.log2(freq / 440) + 57;
+  const nearest = Math.round(semitones);
+  const cents = Math.round((semitones - nearest) * 100);
+  const name = NOTE_NAMES[((nearest % 12) + 12) % 12] + Math.floor(nearest / 12);
+  return cents === 0 ? name : `${name} ${cents > 0 ? '+' : ''}${cents}c`;
+};
+
+// --- SYNTHESIS ---
+
+// Output level of each volume step (about 3dB apart, 0 is silent)
+const VOLUME_LEVELS = Array.from({ length: 16 }, (_, v) => v === 0 ? 0 : Math.pow(2, (v - 15) / 2));
+
+/**
+ * Mono samples of the chip running from the current registers for `seconds`,
+ * with the envelope restarted as a write to R#13 would. The chip output is
+ * unipolar: samples go from 0 to 1.
+ */
+export const renderPsgSamples = (psg: PSGState, sampleRate: number, seconds: number): Float32Array => {
+  const regs = psg.registers;
+  const out = new Float32Array(Math.floor(sampleRate * seconds));
+  const toneStep = [0, 1, 2].map(ch => toneFrequency(getTonePeriod(regs, ch)) * 2 / sampleRate); // Half periods per sample
+  const tonePhase = [0, 0, 0];
+  const toneOut = [1, 1, 1];
+  const noiseStep = toneFrequency(getNoisePeriod(regs)) / sampleRate;
+  let noisePhase = 0;
+  let lfsr = 1;
+  const envStep = envelopeFrequency(getEnvelopePeriod(regs)) * 16 / sampleRate;
+  let envPhase = 0;
+
+  const shape = regs[13];
+  const cont = (shape & 0x08) !== 0;
+  const hold = (shape & 0x01) !== 0;
+  const alternate = (shape & 0x02) !== 0;
+  let attack = (shape & 0x04) !== 0;
+  let envHeld: number | null = null;
+  let envStepIndex = 0;
+
+  for (let i = 0; i < out.length; i++) {
+    for (let ch = 0; ch < 3; ch++) {
+      tonePhase[ch] += toneStep[ch];
+      while (tonePhase[ch] >= 1) { tonePhase[ch] -= 1; toneOut[ch] ^= 1; }
+    }
+    noisePhase += noiseStep;
+    while (noisePhase >= 1) {
+      noisePhase -= 1;
+      const bit = (lfsr ^ (lfsr >> 3)) & 1; // 17-bit LFSR
+      lfsr = (lfsr >> 1) | (bit << 16);
+    }
+    if (envHeld === null) {
+      envPhase += envStep;
+      while (envPhase >= 1 && envHeld === null) {
+        envPhase -= 1;
+        if (++envStepIndex < 16) continue;
+        // End of a 16-step cycle
+        envStepIndex = 0;
+        if (!cont) envHeld = 0;
+        else if (hold) envHeld = attack !== alternate ? 15 : 0;
+        else if (alternate) attack = !attack;
+      }
+    }
+    const envLevel = envHeld !== null ? envHeld : attack ? envStepIndex : 15 - envStepIndex;
+
+    let sample = 0;
+    for (let ch = 0; ch < 3; ch++) {
+      const tone = toneOut[ch] === 1 || !isToneEnabled(regs, ch);
+      const noise = (lfsr & 1) === 1 || !isNoiseEnabled(regs, ch);
+      if (!(tone && noise)) continue;
+      sample += VOLUME_LEVELS[usesEnvelope(regs, ch) ? envLevel : getVolume(regs, ch)];
+    }
+    out[i] = sample / 3;
+  }
+  return out;
+};
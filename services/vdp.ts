@@ -0,0 +1,331 @@
+import { VDPState } from "../types";
+import { executeVdpCommand, transferVdpCommandData, readVdpCommandColor, getCommandStatus } from "./vdpCommands";
+
+/**
+ * V9938 VDP (MSX2), a superset of the TMS9918 (MSX1)
+ * --------------------------------------------------
+ * Port $98: VRAM data (auto-incrementing address)
+ * Port $99: control. Two writes: first the low byte, then
+ *   10rrrrrr -> write the first byte to register r (R#0-R#46)
+ *   01aaaaaa -> address setup for writing (a = address bits 13-8)
+ *   00aaaaaa -> address setup for reading
+ * Port $9A: palette. Two writes (0RRR0BBB, 00000GGG) to the entry selected
+ *   by R#16, which then moves to the next entry.
+ * Port $9B: indirect register write to the register selected by R#17, which
+ *   then moves to the next register unless AII (bit 7) is set.
+ * Reading port $98 returns the read-ahead buffer, which the VDP refills from
+ * the next address (so the first read after a read setup is already fetched).
+ * Reading port $99 returns the status register selected by R#15. S#0 clears
+ * F / 5S / C; any status read resets the control port latch.
+ *
+ * VRAM is 128KB: R#14 holds address bits 16-14. The address counter carries
+ * into R#14 only in the bitmap modes (G4-G7); elsewhere it wraps at 16KB, as
+ * on the TMS9918.
+ *
+ * The screen mode comes from the M1-M5 bits (R#1 bits 4/3, R#0 bits 1-3)
+ * and the table base addresses from R#2-R#6, R#10 and R#11. R#32-R#46
+ * drive the command engine (see vdpCommands).
+ */
+export const VRAM_SIZE = 0x20000;
+export const VDP_REGISTER_COUNT = 47; // R#0-R#46 (R#32-R#46: command engine)
+export const SCREEN_WIDTH = 256;
+export const SCREEN_HEIGHT = 192;
+export const SCREEN_HEIGHT_LN = 212; // Bitmap modes with LN (R#9 bit 7) set
+
+// Register values written by the BIOS for each SCREEN (CHGMOD, INITXT /
+// INIT32 / INIGRP / INIMLT for SCREEN 0-3), with the default colors (COLOR 15,4,4)
+export const SCREEN_MODE_REGISTERS: { [screen: number]: number[] } = {
+  0: [0x00, 0xF0, 0x00, 0x00, 0x01, 0x36, 0x07, 0xF4], // names $0000, patterns $0800
+  1: [0x00, 0xE0, 0x06, 0x80, 0x00, 0x36, 0x07, 0x04], // names $1800, colors $2000
+  2: [0x02, 0xE0, 0x06, 0xFF, 0x03, 0x36, 0x07, 0x04], // names $1800, colors $2000
+  3: [0x00, 0xE8, 0x02, 0x00, 0x00, 0x36, 0x07, 0x04], // names $0800, patterns $0000
+  // MSX2: R#0-R#11, 212 lines
+  5: [0x06, 0x60, 0x1F, 0x00, 0x00, 0xEF, 0x0F, 0x04, 0x08, 0x80, 0x00, 0x00], // page 0, sprites $7600
+  8: [0x0E, 0x60, 0x1F, 0x00, 0x00, 0xF7, 0x1E, 0x00, 0x08, 0x80, 0x00, 0x01], // page 0, sprites $FA00
+};
+
+// SCREEN 2, the layout the viewer assumed before programs could move the tables
+export const DEFAULT_VDP_REGISTERS = SCREEN_MODE_REGISTERS[2];
+
+// MSX2 power-on palette, entries as 0x0RGB (3 bits per component)
+export const DEFAULT_PALETTE = [
+  0x000, 0x000, 0x161, 0x373, 0x117, 0x237, 0x511, 0x267,
+  0x711, 0x733, 0x661, 0x664, 0x141, 0x625, 0x555, 0x777
+];
+
+// Status register bits (S#0)
+export const VDP_STATUS_F = 0x80;  // Frame (VBLANK) interrupt pending
+export const VDP_STATUS_5S = 0x40; // Fifth sprite on a line
+export const VDP_STATUS_C = 0x20;  // Sprite collision
+
+export type VdpMode =
+  | 'TEXT1' | 'TEXT2' | 'MULTICOLOR' | 'GRAPHIC1' | 'GRAPHIC2' | 'GRAPHIC3'
+  | 'GRAPHIC4' | 'GRAPHIC5' | 'GRAPHIC6' | 'GRAPHIC7';
+
+export interface VdpModeInfo {
+  mode: VdpMode;
+  screen: number; // MSX BASIC SCREEN number
+  name: string;
+}
+
+// Table base addresses (and the Graphic 2 address masks)
+export interface VdpTables {
+  nameTable: number;   // Bitmap modes: the displayed page
+  colorTable: number;
+  patternTable: number;
+  spriteAttributeTable: number;
+  spritePatternTable: number;
+  colorMask: number;   // Graphic 2: ANDed with the color table offset
+  patternMask: number; // Graphic 2: ANDed with the pattern table offset
+}
+
+export const createVdpState = (): VDPState => {
+  const registers = new Array(VDP_REGISTER_COUNT).fill(0);
+  DEFAULT_VDP_REGISTERS.forEach((value, reg) => { registers[reg] = value; });
+  registers[8] = 0x08; // VR: 64K DRAM chips
+  return {
+    vram: new Uint8Array(VRAM_SIZE),
+    addressRegister: 0,
+    writeLatch: false,
+    registerLatch: 0,
+    readAhead: 0,
+    registers,
+    status: 0,
+    palette: [...DEFAULT_PALETTE],
+    paletteLatch: null,
+    command: null,
+    commandColor: 0,
+    borderX: 0,
+    borderFound: false
+  };
+};
+
+export const cloneVdpState = (vdp: VDPState): VDPState => ({
+  ...vdp,
+  vram: vdp.vram.slice(),
+  registers: [...vdp.registers],
+  palette: [...vdp.palette],
+  command: vdp.command ? { ...vdp.command } : null
+});
+
+// --- PORT ACCESS ---
+
+// Full 17-bit VRAM address: R#14 (bits 16-14) and the address counter
+export const getVramAddress = (vdp: VDPState): number =>
+  ((vdp.registers[14] & 0x07) << 14) | (vdp.addressRegister & 0x3FFF);
+
+const advanceAddress = (vdp: VDPState) => {
+  vdp.addressRegister = (vdp.addressRegister + 1) & 0x3FFF;
+  if (vdp.addressRegister === 0 && isBitmapMode(getVdpMode(vdp.registers).mode)) {
+    vdp.registers[14] = (vdp.registers[14] + 1) & 0x07;
+  }
+};
+
+// Loads the read-ahead buffer from the current address and advances it
+const prefetch = (vdp: VDPState) => {
+  vdp.readAhead = vdp.vram[getVramAddress(vdp)];
+  advanceAddress(vdp);
+};
+
+export const writeVdpData = (vdp: VDPState, value: number) => {
+  vdp.vram[getVramAddress(vdp)] = value & 0xFF;
+  vdp.readAhead = value & 0xFF; // Writes go through the same buffer
+  advanceAddress(vdp);
+  vdp.writeLatch = false;
+};
+
+export const readVdpData = (vdp: VDPState): number => {
+  const val = vdp.readAhead;
+  prefetch(vdp);
+  vdp.writeLatch = false;
+  return val;
+};
+
+// S#1-S#9 (no line interrupt or light pen)
+const readExtendedStatus = (vdp: VDPState, reg: number): number => {
+  switch (reg) {
+    case 1: return 0x00; // V9938 ID 0, FH clear
+    case 2: return 0x0C | getCommandStatus(vdp); // TR / BD / CE and the fixed 1 bits
+    case 4: return 0xFE;
+    case 6: return 0xFC;
+    case 7: return readVdpCommandColor(vdp, getVdpMode(vdp.registers).mode);
+    case 8: return vdp.borderX & 0xFF;
+    case 9: return 0xFE | ((vdp.borderX >> 8) & 0x01);
+    default: return 0x00;
+  }
+};
+
+export const readVdpStatus = (vdp: VDPState): number => {
+  vdp.writeLatch = false;
+  const reg = vdp.registers[15] & 0x0F;
+  if (reg !== 0) return readExtendedStatus(vdp, reg);
+  const val = vdp.status;
+  vdp.status &= ~(VDP_STATUS_F | VDP_STATUS_5S | VDP_STATUS_C);
+  return val;
+};
+
+export const writeVdpControl = (vdp: VDPState, value: number) => {
+  const v = value & 0xFF;
+  if (!vdp.writeLatch) {
+    vdp.registerLatch = v;
+    vdp.writeLatch = true;
+    return;
+  }
+  vdp.writeLatch = false;
+  if (v & 0x80) {
+    writeVdpRegister(vdp, v & 0x3F, vdp.registerLatch);
+  } else {
+    vdp.addressRegister = ((v & 0x3F) << 8) | vdp.registerLatch;
+    if (!(v & 0x40)) prefetch(vdp); // Read setup fills the read-ahead buffer
+  }
+};
+
+export const writeVdpRegister = (vdp: VDPState, reg: number, value: number) => {
+  if (reg < VDP_REGISTER_COUNT) vdp.registers[reg] = value & 0xFF;
+  if (reg === 16) vdp.paletteLatch = null; // Selecting an entry restarts the byte pair
+  if (reg === 44) transferVdpCommandData(vdp, getVdpMode(vdp.registers).mode, value & 0xFF);
+  if (reg === 46) executeVdpCommand(vdp, getVdpMode(vdp.registers).mode);
+};
+
+export const writeVdpIndirect = (vdp: VDPState, value: number) => {
+  const select = vdp.registers[17];
+  const reg = select & 0x3F;
+  if (reg !== 17) writeVdpRegister(vdp, reg, value);
+  if (!(select & 0x80)) vdp.registers[17] = (select & 0x80) | ((reg + 1) & 0x3F);
+};
+
+export const writeVdpPalette = (vdp: VDPState, value: number) => {
+  const v = value & 0xFF;
+  if (vdp.paletteLatch === null) {
+    vdp.paletteLatch = v;
+    return;
+  }
+  const first = vdp.paletteLatch;
+  const entry = vdp.registers[16] & 0x0F;
+  vdp.palette[entry] = (((first >> 4) & 0x07) << 8) | ((v & 0x07) << 4) | (first & 0x07);
+  vdp.registers[16] = (entry + 1) & 0x0F;
+  vdp.paletteLatch = null;
+};
+
+// Palette table as BASIC keeps it in VRAM (SCREEN 5 files: $7680), 2 bytes per entry
+export const loadPaletteFromVram = (vdp: VDPState, addr: number) => {
+  for (let i = 0; i < 16; i++) {
+    const first = vdp.vram[(addr + i * 2) & (VRAM_SIZE - 1)];
+    const second = vdp.vram[(addr + i * 2 + 1) & (VRAM_SIZE - 1)];
+    vdp.palette[i] = (((first >> 4) & 0x07) << 8) | ((second & 0x07) << 4) | (first & 0x07);
+  }
+};
+
+// --- DECODING ---
+
+// Graphic modes selected by M5 M4 M3 (R#0 bits 3-1)
+const GRAPHIC_MODES: { [bits: number]: VdpModeInfo } = {
+  0: { mode: 'GRAPHIC1', screen: 1, name: 'Graphic 1 (32x24)' },
+  1: { mode: 'GRAPHIC2', screen: 2, name: 'Graphic 2 (256x192)' },
+  2: { mode: 'GRAPHIC3', screen: 4, name: 'Graphic 3 (256x192, sprite mode 2)' },
+  3: { mode: 'GRAPHIC4', screen: 5, name: 'Graphic 4 (256x212, 16 colors)' },
+  4: { mode: 'GRAPHIC5', screen: 6, name: 'Graphic 5 (512x212, 4 colors)' },
+  5: { mode: 'GRAPHIC6', screen: 7, name: 'Graphic 6 (512x212, 16 colors)' },
+  7: { mode: 'GRAPHIC7', screen: 8, name: 'Graphic 7 (256x212, 256 colors)' },
+};
+
+export const getVdpMode = (registers: number[]): VdpModeInfo => {
+  const m1 = (registers[1] & 0x10) !== 0;
+  const m2 = (registers[1] & 0x08) !== 0;
+  const m345 = (registers[0] >> 1) & 0x07;
+  if (m1) return m345 === 2
+    ? { mode: 'TEXT2', screen: 0, name: 'Text 2 (80x24)' }
+    : { mode: 'TEXT1', screen: 0, name: 'Text 1 (40x24)' };
+  if (m2) return { mode: 'MULTICOLOR', screen: 3, name: 'Multicolor (64x48)' };
+  return GRAPHIC_MODES[m345] || GRAPHIC_MODES[0];
+};
+
+export const isBitmapMode = (mode: VdpMode): boolean =>
+  mode === 'GRAPHIC4' || mode === 'GRAPHIC5' || mode === 'GRAPHIC6' || mode === 'GRAPHIC7';
+
+// Sprite mode 2 (per-line colors, 8 per line) in Graphic 3 and the bitmap modes
+export const isSpriteMode2 = (mode: VdpMode): boolean => mode === 'GRAPHIC3' || isBitmapMode(mode);
+
+export const getVdpTables = (registers: number[]): VdpTables => {
+  const mode = getVdpMode(registers).mode;
+  const banked = mode === 'GRAPHIC2' || mode === 'GRAPHIC3';
+  const colorHigh = (registers[10] & 0x07) << 14;
+  // Bitmap modes: R#2 selects the page (32KB in G4/G5, 64KB in G6/G7)
+  const nameTable = mode === 'GRAPHIC4' || mode === 'GRAPHIC5' ? (registers[2] & 0x60) << 10
+    : mode === 'GRAPHIC6' || mode === 'GRAPHIC7' ? (registers[2] & 0x20) << 11
+    : mode === 'TEXT2' ? (registers[2] & 0x7C) << 10
+    : (registers[2] & 0x7F) << 10;
+  return {
+    nameTable,
+    // In Graphic 2/3 only the top bits select the base; the rest are address masks
+    colorTable: colorHigh | (banked ? (registers[3] & 0x80) << 6 : registers[3] << 6),
+    patternTable: banked ? (registers[4] & 0x3C) << 11 : (registers[4] & 0x3F) << 11,
+    spriteAttributeTable: ((registers[11] & 0x03) << 15) | ((isSpriteMode2(mode) ? registers[5] & 0xFC : registers[5]) << 7),
+    spritePatternTable: (registers[6] & 0x3F) << 11,
+    colorMask: banked ? ((registers[3] & 0x7F) << 6) | 0x3F : VRAM_SIZE - 1,
+    patternMask: banked ? ((registers[4] & 0x03) << 11) | 0x7FF : VRAM_SIZE - 1
+  };
+};
+
+// 192 or 212 lines (LN is only honored in the bitmap modes here)
+export const getScreenHeight = (registers: number[]): number =>
+  isBitmapMode(getVdpMode(registers).mode) && (registers[9] & 0x80) ? SCREEN_HEIGHT_LN : SCREEN_HEIGHT;
+
+// R1 flags shown by the viewer
+export const isDisplayEnabled = (registers: number[]): boolean => (registers[1] & 0x40) !== 0;
+export const getSpriteSize = (registers: number[]): 8 | 16 => (registers[1] & 0x02) ? 16 : 8;
+export const isSpriteMagnified = (registers: number[]): boolean => (registers[1] & 0x01) !== 0;
+
+// R7: text color (high nibble) / backdrop color (low nibble, the whole byte in Graphic 7)
+export const getBackdropColor = (registers: number[]): number =>
+  getVdpMode(registers).mode === 'GRAPHIC7' ? registers[7] : registers[7] & 0x0F;
+export const getTextColor = (registers: number[]): number => (registers[7] >> 4) & 0x0F;
+
+// --- BIOS SCREEN INITIALIZATION ---
+
+// SETTXT / SETT32 / SETGRP / SETMLT: mode registers only, VRAM untouched
+export const setScreenRegisters = (vdp: VDPState, screen: number) => {
+  const regs = SCREEN_MODE_REGISTERS[screen];
+  if (regs) regs.forEach((value, reg) => writeVdpRegister(vdp, reg, value));
+};
+
+/**
+ * INITXT / INIT32 / INIGRP / INIMLT (and CHGMOD 5 / 8): loads the mode
+ * registers and clears the screen the way the BIOS does (text name table
+ * filled with spaces, the Graphic 2 / multicolor name table with its fixed
+ * char layout, bitmap page cleared, sprites hidden). The BIOS font is not in
+ * VRAM since no BIOS ROM is loaded.
+ */
+export const initScreenMode = (vdp: VDPState, screen: number) => {
+  const regs = SCREEN_MODE_REGISTERS[screen];
+  if (!regs) return;
+  setScreenRegisters(vdp, screen);
+  const tables = getVdpTables(vdp.registers);
+  const fill = (addr: number, length: number, value: (i: number) => number) => {
+    for (let i = 0; i < length; i++) vdp.vram[(addr + i) & (VRAM_SIZE - 1)] = value(i) & 0xFF;
+  };
+
+  const mode = getVdpMode(vdp.registers).mode;
+  if (mode === 'TEXT1') {
+    fill(tables.nameTable, 960, () => 0x20);
+    return;
+  }
+  if (mode === 'GRAPHIC1') {
+    fill(tables.nameTable, 768, () => 0x20);
+    fill(tables.colorTable, 32, () => regs[7] | 0xF0);
+  } else if (mode === 'GRAPHIC2') {
+    fill(tables.nameTable, 768, i => i);
+    fill(tables.patternTable, 0x1800, () => 0);
+    fill(tables.colorTable, 0x1800, () => regs[7] | 0xF0);
+  } else if (mode === 'MULTICOLOR') {
+    fill(tables.nameTable, 768, i => (i & 0x1F) | ((i >> 7) << 5));
+    fill(tables.patternTable, 0x600, () => regs[7] | (regs[7] << 4));
+  } else {
+    // 212 lines of 128 (G4) or 256 (G7) bytes
+    fill(tables.nameTable, mode === 'GRAPHIC7' ? 0xD400 : 0x6A00, () => 0);
+  }
+  // Sprites: patterns cleared, every attribute entry parked off screen (Y=209, 217 in sprite mode 2)
+  const parkedY = isSpriteMode2(mode) ? 0xD9 : 0xD1;
+  fill(tables.spritePatternTable, 0x800, () => 0);
+  fill(tables.spriteAttributeTable, 128, i => (i & 3) === 0 ? parkedY : 0);
+};
@@ -0,0 +1,291 @@
+import { VDPState } from "../types";
+import { VdpMode } from "./vdp";
+
+/**
+ * V9938 COMMAND ENGINE
+ * --------------------
+ * Writing R#46 starts a command on the bitmap page, with its arguments in
+ * R#32-R#45:
+ *   SX R#32-33, SY R#34-35   source (or POINT / SRCH position)
+ *   DX R#36-37, DY R#38-39   destination
+ *   NX R#40-41, NY R#42-43   size (LINE: long and short side)
+ *   CLR R#44                 color / data byte
+ *   ARG R#45                 DIX (bit 2) / DIY (bit 3) direction, EQ (bit 1), MAJ (bit 0)
+ *   CMD R#46                 command (high nibble) and logical operation (low nibble)
+ * The H commands (HMMC, HMMM, HMMV, YMMM) move whole bytes and ignore the
+ * logical operation; the L commands, LINE and PSET work on pixels through it.
+ * Y selects a line in the 128KB (0-1023 in G4/G5, 0-511 in G6/G7); X stops at
+ * the right or left edge of the screen.
+ *
+ * Commands run to completion as soon as R#46 is written, so CE (S#2 bit 0)
+ * only stays set while HMMC / LMMC wait for R#44 writes or LMCM for S#7
+ * reads; TR is always ready. Command timing, the registers the VDP updates
+ * at the end and commands outside Graphic 4-7 are not emulated.
+ */
+export const VDP_COMMAND_NAMES: { [opcode: number]: string } = {
+  0x0: 'STOP', 0x4: 'POINT', 0x5: 'PSET', 0x6: 'SRCH', 0x7: 'LINE',
+  0x8: 'LMMV', 0x9: 'LMMM', 0xA: 'LMCM', 0xB: 'LMMC',
+  0xC: 'HMMV', 0xD: 'HMMM', 0xE: 'YMMM', 0xF: 'HMMC'
+};
+
+export const LOGICAL_OP_NAMES: { [op: number]: string } = {
+  0x0: 'IMP', 0x1: 'AND', 0x2: 'OR', 0x3: 'EOR', 0x4: 'NOT',
+  0x8: 'TIMP', 0x9: 'TAND', 0xA: 'TOR', 0xB: 'TEOR', 0xC: 'TNOT'
+};
+
+const LMCM = 0xA;
+const LMMC = 0xB;
+const HMMC = 0xF;
+
+// S#2 bits
+export const VDP_STATUS2_TR = 0x80; // Transfer ready
+export const VDP_STATUS2_BD = 0x10; // Border color found (SRCH)
+export const VDP_STATUS2_CE = 0x01; // Command executing
+
+interface PixelFormat {
+  width: number;        // Pixels per line
+  bitsPerPixel: number;
+  bytesPerLine: number;
+}
+
+const PIXEL_FORMATS: { [mode: string]: PixelFormat } = {
+  GRAPHIC4: { width: 256, bitsPerPixel: 4, bytesPerLine: 128 },
+  GRAPHIC5: { width: 512, bitsPerPixel: 2, bytesPerLine: 128 },
+  GRAPHIC6: { width: 512, bitsPerPixel: 4, bytesPerLine: 256 },
+  GRAPHIC7: { width: 256, bitsPerPixel: 8, bytesPerLine: 256 },
+};
+
+// Pixel (L commands) or byte (H commands) access to the bitmap
+interface Surface {
+  limit: number; // X range: pixels or bytes per line
+  read: (x: number, y: number) => number;
+  write: (x: number, y: number, value: number, logicalOp: number) => void;
+}
+
+const applyLogicalOp = (logicalOp: number, src: number, dst: number, colorMask: number): number => {
+  if ((logicalOp & 0x08) && src === 0) return dst; // T operations skip transparent pixels
+  switch (logicalOp & 0x07) {
+    case 0: return src;
+    case 1: return src & dst;
+    case 2: return src | dst;
+    case 3: return src ^ dst;
+    case 4: return ~src & colorMask;
+    default: return dst;
+  }
+};
+
+const pixelSurface = (vdp: VDPState, format: PixelFormat): Surface => {
+  const { vram } = vdp;
+  const pixelsPerByte = 8 / format.bitsPerPixel;
+  const colorMask = (1 << format.bitsPerPixel) - 1;
+  const locate = (x: number, y: number) => ({
+    addr: (y * format.bytesPerLine + Math.floor(x / pixelsPerByte)) & (vram.length - 1),
+    shift: (pixelsPerByte - 1 - (x % pixelsPerByte)) * format.bitsPerPixel
+  });
+  return {
+    limit: format.width,
+    read: (x, y) => {
+      const { addr, shift } = locate(x, y);
+      return (vram[addr] >> shift) & colorMask;
+    },
+    write: (x, y, value, logicalOp) => {
+      const { addr, shift } = locate(x, y);
+      const dst = (vram[addr] >> shift) & colorMask;
+      const color = applyLogicalOp(logicalOp, value & colorMask, dst, colorMask);
+      vram[addr] = (vram[addr] & ~(colorMask << shift)) | (color << shift);
+    }
+  };
+};
+
+const byteSurface = (vdp: VDPState, format: PixelFormat): Surface => {
+  const { vram } = vdp;
+  const addr = (x: number, y: number) => (y * format.bytesPerLine + x) & (vram.length - 1);
+  return {
+    limit: format.bytesPerLine,
+    read: (x, y) => vram[addr(x, y)],
+    write: (x, y, value) => { vram[addr(x, y)] = value & 0xFF; }
+  };
+};
+
+const readArgs = (registers: number[]) => {
+  const word = (reg: number, mask: number) => (registers[reg] | (registers[reg + 1] << 8)) & mask;
+  const arg = registers[45];
+  return {
+    sx: word(32, 0x1FF), sy: word(34, 0x3FF),
+    dx: word(36, 0x1FF), dy: word(38, 0x3FF),
+    nx: word(40, 0x3FF), ny: word(42, 0x3FF),
+    color: registers[44],
+    stepX: (arg & 0x04 ? -1 : 1) as 1 | -1,
+    stepY: (arg & 0x08 ? -1 : 1) as 1 | -1,
+    eq: (arg & 0x02) !== 0,
+    major: arg & 0x01 // 0: long side on X
+  };
+};
+
+// Pixels (or bytes) from x to the screen edge in the direction of stepX, at most n
+const clipWidth = (x: number, n: number, stepX: number, limit: number): number =>
+  Math.max(0, Math.min(n, stepX > 0 ? limit - x : x + 1));
+
+// NX / NY of 0 mean the largest size
+const rectWidth = (nx: number) => nx === 0 ? 512 : nx;
+const rectHeight = (ny: number) => ny === 0 ? 1024 : ny;
+
+const forEachInRect = (
+  width: number, height: number, stepX: number, stepY: number,
+  fn: (offsetX: number, offsetY: number) => void
+) => {
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) fn(col * stepX, row * stepY);
+  }
+};
+
+const line = (y: number) => y & 0x3FF;
+
+// Starts the command just written to R#46 (a new command or STOP ends a transfer in progress)
+export const executeVdpCommand = (vdp: VDPState, mode: VdpMode) => {
+  vdp.command = null;
+  const format = PIXEL_FORMATS[mode];
+  const opcode = vdp.registers[46] >> 4;
+  const logicalOp = vdp.registers[46] & 0x0F;
+  if (!format || opcode === 0) return;
+
+  const a = readArgs(vdp.registers);
+  const pixels = pixelSurface(vdp, format);
+  const bytes = byteSurface(vdp, format);
+  const pixelsPerByte = 8 / format.bitsPerPixel;
+
+  switch (opcode) {
+    case 0x4: // POINT
+      vdp.commandColor = pixels.read(a.sx, line(a.sy));
+      return;
+    case 0x5: // PSET
+      if (a.dx < pixels.limit) pixels.write(a.dx, line(a.dy), a.color, logicalOp);
+      return;
+    case 0x6: { // SRCH: along X until the color is (EQ=0) or is not (EQ=1) CLR
+      const colorMask = (1 << format.bitsPerPixel) - 1;
+      let x = a.sx;
+      vdp.borderFound = false;
+      while (x >= 0 && x < pixels.limit) {
+        if ((pixels.read(x, line(a.sy)) === (a.color & colorMask)) !== a.eq) {
+          vdp.borderFound = true;
+          break;
+        }
+        x += a.stepX;
+      }
+      vdp.borderX = x & 0x1FF;
+      return;
+    }
+    case 0x7: { // LINE: NX+1 dots along the major axis
+      let x = a.dx;
+      let y = a.dy;
+      let error = (a.nx - 1) >> 1;
+      for (let n = 0; n <= a.nx; n++) {
+        if (x < 0 || x >= pixels.limit) break;
+        pixels.write(x, line(y), a.color, logicalOp);
+        error -= a.ny;
+        if (error < 0) {
+          error += a.nx;
+          if (a.major) x += a.stepX; else y += a.stepY;
+        }
+        if (a.major) y += a.stepY; else x += a.stepX;
+      }
+      return;
+    }
+    case 0x8: { // LMMV
+      const width = clipWidth(a.dx, rectWidth(a.nx), a.stepX, pixels.limit);
+      forEachInRect(width, rectHeight(a.ny), a.stepX, a.stepY, (ox, oy) =>
+        pixels.write(a.dx + ox, line(a.dy + oy), a.color, logicalOp));
+      return;
+    }
+    case 0x9: { // LMMM
+      const width = Math.min(
+        clipWidth(a.dx, rectWidth(a.nx), a.stepX, pixels.limit),
+        clipWidth(a.sx, rectWidth(a.nx), a.stepX, pixels.limit)
+      );
+      forEachInRect(width, rectHeight(a.ny), a.stepX, a.stepY, (ox, oy) =>
+        pixels.write(a.dx + ox, line(a.dy + oy), pixels.read(a.sx + ox, line(a.sy + oy)), logicalOp));
+      return;
+    }
+    case 0xC: { // HMMV
+      const dx = Math.floor(a.dx / pixelsPerByte);
+      const width = clipWidth(dx, Math.floor(rectWidth(a.nx) / pixelsPerByte), a.stepX, bytes.limit);
+      forEachInRect(width, rectHeight(a.ny), a.stepX, a.stepY, (ox, oy) =>
+        bytes.write(dx + ox, line(a.dy + oy), a.color, 0));
+      return;
+    }
+    case 0xD: { // HMMM
+      const dx = Math.floor(a.dx / pixelsPerByte);
+      const sx = Math.floor(a.sx / pixelsPerByte);
+      const n = Math.floor(rectWidth(a.nx) / pixelsPerByte);
+      const width = Math.min(clipWidth(dx, n, a.stepX, bytes.limit), clipWidth(sx, n, a.stepX, bytes.limit));
+      forEachInRect(width, rectHeight(a.ny), a.stepX, a.stepY, (ox, oy) =>
+        bytes.write(dx + ox, line(a.dy + oy), bytes.read(sx + ox, line(a.sy + oy)), 0));
+      return;
+    }
+    case 0xE: { // YMMM: from DX to the screen edge, SY lines to DY lines
+      const dx = Math.floor(a.dx / pixelsPerByte);
+      const width = clipWidth(dx, bytes.limit, a.stepX, bytes.limit);
+      forEachInRect(width, rectHeight(a.ny), a.stepX, a.stepY, (ox, oy) =>
+        bytes.write(dx + ox, line(a.dy + oy), bytes.read(dx + ox, line(a.sy + oy)), 0));
+      return;
+    }
+    case LMCM:
+    case LMMC:
+    case HMMC: {
+      // CPU transfers: DX/DY are the destination, SX/SY the LMCM source
+      const toCpu = opcode === LMCM;
+      const surface = opcode === HMMC ? bytes : pixels;
+      const scale = opcode === HMMC ? pixelsPerByte : 1;
+      const startX = Math.floor((toCpu ? a.sx : a.dx) / scale);
+      const width = clipWidth(startX, Math.floor(rectWidth(a.nx) / scale), a.stepX, surface.limit);
+      if (width === 0) return;
+      vdp.command = {
+        opcode, logicalOp, startX, x: startX, y: line(toCpu ? a.sy : a.dy),
+        width, height: rectHeight(a.ny), stepX: a.stepX, stepY: a.stepY, column: 0, row: 0
+      };
+      // The first byte is already in CLR (HMMC / LMMC); LMCM has its first pixel ready in S#7
+      if (toCpu) vdp.commandColor = pixels.read(startX, vdp.command.y);
+      else transferVdpCommandData(vdp, mode, a.color);
+      return;
+    }
+  }
+};
+
+// Moves a transfer to its next pixel (or byte); CE clears after the last one
+const advanceTransfer = (vdp: VDPState) => {
+  const cmd = vdp.command;
+  if (!cmd) return;
+  cmd.column++;
+  cmd.x += cmd.stepX;
+  if (cmd.column < cmd.width) return;
+  cmd.column = 0;
+  cmd.x = cmd.startX;
+  cmd.y = line(cmd.y + cmd.stepY);
+  if (++cmd.row >= cmd.height) vdp.command = null;
+};
+
+// R#44 write during HMMC / LMMC
+export const transferVdpCommandData = (vdp: VDPState, mode: VdpMode, value: number) => {
+  const cmd = vdp.command;
+  const format = PIXEL_FORMATS[mode];
+  if (!cmd || !format || cmd.opcode === LMCM) return;
+  if (cmd.opcode === HMMC) byteSurface(vdp, format).write(cmd.x, cmd.y, value, 0);
+  else pixelSurface(vdp, format).write(cmd.x, cmd.y, value, cmd.logicalOp);
+  advanceTransfer(vdp);
+};
+
+// S#7 read: during LMCM, returns the current pixel and fetches the next one
+export const readVdpCommandColor = (vdp: VDPState, mode: VdpMode): number => {
+  const color = vdp.commandColor;
+  const cmd = vdp.command;
+  const format = PIXEL_FORMATS[mode];
+  if (cmd && cmd.opcode === LMCM && format) {
+    advanceTransfer(vdp);
+    if (vdp.command) vdp.commandColor = pixelSurface(vdp, format).read(cmd.x, cmd.y);
+  }
+  return color;
+};
+
+// S#2 command bits (TR, BD, CE); the fixed 1 bits are added by the caller
+export const getCommandStatus = (vdp: VDPState): number =>
+  VDP_STATUS2_TR | (vdp.borderFound ? VDP_STATUS2_BD : 0) | (vdp.command ? VDP_STATUS2_CE : 0);
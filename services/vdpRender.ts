@@ -0,0 +1,145 @@
+import { VDPState } from "../types";
+import {
+  getVdpMode, getVdpTables, getBackdropColor, getTextColor, isDisplayEnabled, getScreenHeight,
+  SCREEN_WIDTH, VRAM_SIZE
+} from "./vdp";
+import { scanSprites, NO_SPRITE } from "./vdpSprites";
+
+/**
+ * VDP SCREEN RENDERER
+ * -------------------
+ * Draws the 256 pixel wide active area from VRAM into an RGBA buffer, in the
+ * mode selected by the VDP registers:
+ *   TEXT1      (SCREEN 0): 40x24 chars of 6x8, text/backdrop colors from R7,
+ *                          centered with an 8 pixel backdrop border
+ *   GRAPHIC1   (SCREEN 1): 32x24 chars, one color byte per group of 8 chars
+ *   GRAPHIC2/3 (SCREEN 2/4): 32x24 chars, three pattern/color banks, per-line colors
+ *   MULTICOLOR (SCREEN 3): 64x48 blocks of 4x4, two blocks per pattern byte
+ *   GRAPHIC4   (SCREEN 5): bitmap, 4 bits per pixel (high nibble first)
+ *   GRAPHIC7   (SCREEN 8): bitmap, 1 byte per pixel, fixed GGGRRRBB colors
+ * The bitmap modes are 192 or 212 lines high (see getScreenHeight). Text 2
+ * and Graphic 5/6 (512 pixels wide) show the backdrop only.
+ * Colors go through the V9938 palette. Color 0 is transparent and shows the
+ * backdrop (unless TP, R#8 bit 5, is set). Sprites (see vdpSprites) are
+ * drawn on top, except in the text modes.
+ */
+
+// 3-bit palette component to 8 bits
+const expand3 = (v: number) => Math.round((v & 0x07) * 255 / 7);
+
+// [r, g, b, a] of a palette entry (0x0RGB)
+export const paletteRgba = (palette: number[], idx: number): number[] => {
+  const entry = palette[idx & 0x0F];
+  return [expand3(entry >> 8), expand3(entry >> 4), expand3(entry), 255];
+};
+
+export const paletteCss = (palette: number[], idx: number): string => {
+  const [r, g, b] = paletteRgba(palette, idx);
+  return `rgb(${r}, ${g}, ${b})`;
+};
+
+// Graphic 7 byte: GGGRRRBB
+const graphic7Rgba = (color: number): number[] =>
+  [expand3(color >> 2), expand3(color >> 5), Math.round((color & 0x03) * 255 / 3), 255];
+
+export const renderScreen = (vdp: VDPState, data: Uint8ClampedArray) => {
+  const { vram, registers, palette } = vdp;
+  const { mode } = getVdpMode(registers);
+  const tables = getVdpTables(registers);
+  const height = getScreenHeight(registers);
+  const backdrop = getBackdropColor(registers);
+  const transparent0 = (registers[8] & 0x20) === 0;
+  const read = (addr: number) => vram[addr & (VRAM_SIZE - 1)];
+
+  const putRgba = (x: number, y: number, c: number[]) => {
+    const idx = (y * SCREEN_WIDTH + x) * 4;
+    data[idx] = c[0];
+    data[idx + 1] = c[1];
+    data[idx + 2] = c[2];
+    data[idx + 3] = c[3];
+  };
+  const setPixel = (x: number, y: number, color: number) => {
+    const shown = color === 0 && transparent0 ? backdrop : color;
+    putRgba(x, y, mode === 'GRAPHIC7' ? graphic7Rgba(shown) : paletteRgba(palette, shown));
+  };
+
+  // Blanked display (or a mode not drawn here): backdrop only
+  if (!isDisplayEnabled(registers) || mode === 'TEXT2' || mode === 'GRAPHIC5' || mode === 'GRAPHIC6') {
+    for (let y = 0; y < height; y++)
+      for (let x = 0; x < SCREEN_WIDTH; x++) setPixel(x, y, backdrop);
+    return;
+  }
+
+  if (mode === 'TEXT1') {
+    const fg = getTextColor(registers);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < 8; x++) {
+        setPixel(x, y, backdrop);
+        setPixel(SCREEN_WIDTH - 8 + x, y, backdrop);
+      }
+    }
+    for (let row = 0; row < 24; row++) {
+      for (let col = 0; col < 40; col++) {
+        const charCode = read(tables.nameTable + row * 40 + col);
+        for (let y = 0; y < 8; y++) {
+          const patternByte = read(tables.patternTable + charCode * 8 + y);
+          for (let x = 0; x < 6; x++) {
+            setPixel(8 + col * 6 + x, row * 8 + y, (patternByte >> (7 - x)) & 1 ? fg : backdrop);
+          }
+        }
+      }
+    }
+    return;
+  }
+
+  if (mode === 'GRAPHIC4' || mode === 'GRAPHIC7') {
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < SCREEN_WIDTH; x++) {
+        if (mode === 'GRAPHIC7') {
+          setPixel(x, y, read(tables.nameTable + y * 256 + x));
+        } else {
+          const byte = read(tables.nameTable + y * 128 + (x >> 1));
+          setPixel(x, y, x & 1 ? byte & 0x0F : byte >> 4);
+        }
+      }
+    }
+  } else {
+    const banked = mode === 'GRAPHIC2' || mode === 'GRAPHIC3';
+    for (let row = 0; row < 24; row++) {
+      for (let col = 0; col < 32; col++) {
+        const charCode = read(tables.nameTable + row * 32 + col);
+
+        if (mode === 'MULTICOLOR') {
+          // Each char is 2x2 blocks; the name table row selects which byte pair is shown
+          for (let y = 0; y < 8; y++) {
+            const colorByte = read(tables.patternTable + charCode * 8 + (row & 3) * 2 + (y >> 2));
+            for (let x = 0; x < 8; x++) {
+              setPixel(col * 8 + x, row * 8 + y, x < 4 ? colorByte >> 4 : colorByte & 0x0F);
+            }
+          }
+          continue;
+        }
+
+        // Graphic 2/3: three banks, the table base ORed with the masked offset
+        const offset = banked ? (row >> 3) * 0x800 + charCode * 8 : charCode * 8;
+        for (let y = 0; y < 8; y++) {
+          const patternByte = banked
+            ? read(tables.patternTable | ((offset + y) & tables.patternMask))
+            : read(tables.patternTable + offset + y);
+          const colorByte = banked
+            ? read(tables.colorTable | ((offset + y) & tables.colorMask))
+            : read(tables.colorTable + (charCode >> 3));
+          for (let x = 0; x < 8; x++) {
+            setPixel(col * 8 + x, row * 8 + y, (patternByte >> (7 - x)) & 1 ? colorByte >> 4 : colorByte & 0x0F);
+          }
+        }
+      }
+    }
+  }
+
+  // Sprite colors are palette indexes
+  const { pixels } = scanSprites(vdp);
+  for (let i = 0; i < pixels.length; i++) {
+    if (pixels[i] !== NO_SPRITE) putRgba(i % SCREEN_WIDTH, Math.floor(i / SCREEN_WIDTH), paletteRgba(palette, pixels[i]));
+  }
+};
@@ -0,0 +1,135 @@
+import { VDPState } from "../types";
+import {
+  getVdpMode, getVdpTables, getSpriteSize, isSpriteMagnified,
+  VDP_STATUS_5S, VDP_STATUS_C, SCREEN_WIDTH, SCREEN_HEIGHT, VRAM_SIZE
+} from "./vdp";
+
+/**
+ * TMS9918 SPRITE ENGINE
+ * ---------------------
+ * Sprite attribute table: 32 entries of 4 bytes (Y, X, pattern, EC|color).
+ *   - Y = 208 ($D0) ends the table; the sprite is drawn from line Y+1, and
+ *     values above 208 wrap to partly visible positions above the screen
+ *   - EC (bit 7 of the color byte) shifts the sprite 32 pixels to the left
+ *   - 16x16 sprites (R1 bit 1) use 4 consecutive patterns (the low 2 bits of
+ *     the pattern number are ignored): top-left, bottom-left, top-right, bottom-right
+ *   - magnification (R1 bit 0) doubles every pixel
+ * Only the first 4 sprites on a scanline are drawn. The first 5th sprite found
+ * sets the 5S status flag with its number; two sprites with overlapping set
+ * pixels (any color, even transparent) set the C flag. Lower numbers have priority.
+ * Sprites are not shown in the text modes. Sprite mode 2 (Graphic 3 and the
+ * bitmap modes) is drawn with these mode 1 rules from its attribute table.
+ */
+export const SPRITE_COUNT = 32;
+export const SPRITE_TERMINATOR = 0xD0;
+export const MAX_SPRITES_PER_LINE = 4;
+export const NO_SPRITE = 0xFF;
+
+export interface SpriteInfo {
+  index: number;
+  x: number;        // Screen X after the early clock shift
+  y: number;        // First scanline (may be negative)
+  pattern: number;  // Pattern number (aligned to 4 for 16x16 sprites)
+  color: number;
+  earlyClock: boolean;
+  droppedLines: number; // Scanlines where the 4-sprite limit hid it
+}
+
+export interface SpriteScan {
+  sprites: SpriteInfo[];    // Entries before the Y=208 terminator
+  size: number;             // Displayed size in pixels (8/16, doubled when magnified)
+  lineCounts: number[];     // Sprites touching each scanline (before the limit)
+  overflowLines: number[];  // Scanlines with more than 4 sprites
+  fifthSprite: number | null; // Number of the first sprite dropped by the limit
+  lastSprite: number;       // Last sprite number processed
+  collision: boolean;
+  pixels: Uint8Array;       // 256x192 sprite color per pixel, NO_SPRITE where none is drawn
+}
+
+export const scanSprites = (vdp: VDPState): SpriteScan => {
+  const { vram, registers } = vdp;
+  const tables = getVdpTables(registers);
+  const large = getSpriteSize(registers) === 16;
+  const magnified = isSpriteMagnified(registers);
+  const size = (large ? 16 : 8) * (magnified ? 2 : 1);
+  const read = (addr: number) => vram[addr & (VRAM_SIZE - 1)];
+
+  const scan: SpriteScan = {
+    sprites: [],
+    size,
+    lineCounts: new Array(SCREEN_HEIGHT).fill(0),
+    overflowLines: [],
+    fifthSprite: null,
+    lastSprite: SPRITE_COUNT - 1,
+    collision: false,
+    pixels: new Uint8Array(SCREEN_WIDTH * SCREEN_HEIGHT).fill(NO_SPRITE)
+  };
+  const mode = getVdpMode(registers).mode;
+  if (mode === 'TEXT1' || mode === 'TEXT2') return scan;
+
+  for (let i = 0; i < SPRITE_COUNT; i++) {
+    const addr = tables.spriteAttributeTable + i * 4;
+    const y = read(addr);
+    if (y === SPRITE_TERMINATOR) {
+      scan.lastSprite = i;
+      break;
+    }
+    const colorByte = read(addr + 3);
+    const earlyClock = (colorByte & 0x80) !== 0;
+    scan.sprites.push({
+      index: i,
+      x: read(addr + 1) - (earlyClock ? 32 : 0),
+      y: (y > SPRITE_TERMINATOR ? y - 256 : y) + 1,
+      pattern: large ? read(addr + 2) & 0xFC : read(addr + 2),
+      color: colorByte & 0x0F,
+      earlyClock,
+      droppedLines: 0
+    });
+  }
+
+  if (scan.sprites.length === 0) return scan;
+
+  const covered = new Uint8Array(SCREEN_WIDTH); // Set sprite pixels of the current line
+  for (let line = 0; line < SCREEN_HEIGHT; line++) {
+    let shown = 0;
+    covered.fill(0);
+    for (const sprite of scan.sprites) {
+      const row = line - sprite.y;
+      if (row < 0 || row >= size) continue;
+      scan.lineCounts[line]++;
+      if (shown === MAX_SPRITES_PER_LINE) {
+        sprite.droppedLines++;
+        if (scan.fifthSprite === null) scan.fifthSprite = sprite.index;
+        continue;
+      }
+      shown++;
+
+      const patternRow = magnified ? row >> 1 : row;
+      const base = tables.spritePatternTable + sprite.pattern * 8 + patternRow;
+      for (let px = 0; px < size; px++) {
+        const sx = sprite.x + px;
+        if (sx < 0 || sx >= SCREEN_WIDTH) continue;
+        const col = magnified ? px >> 1 : px;
+        const byte = read(base + (col >= 8 ? 16 : 0));
+        if (!((byte >> (7 - (col & 7))) & 1)) continue;
+
+        if (covered[sx]) scan.collision = true;
+        covered[sx] = 1;
+        const idx = line * SCREEN_WIDTH + sx;
+        if (sprite.color !== 0 && scan.pixels[idx] === NO_SPRITE) scan.pixels[idx] = sprite.color;
+      }
+    }
+    if (scan.lineCounts[line] > MAX_SPRITES_PER_LINE) scan.overflowLines.push(line);
+  }
+  return scan;
+};
+
+// Sets 5S / C and the sprite number in the status register (a latched 5S is kept until read)
+export const updateSpriteStatus = (vdp: VDPState) => {
+  const scan = scanSprites(vdp);
+  if (!(vdp.status & VDP_STATUS_5S)) {
+    const number = scan.fifthSprite !== null ? scan.fifthSprite : scan.lastSprite;
+    vdp.status = (vdp.status & 0xE0) | (number & 0x1F) | (scan.fifthSprite !== null ? VDP_STATUS_5S : 0);
+  }
+  if (scan.collision) vdp.status |= VDP_STATUS_C;
+};
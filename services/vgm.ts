@@ -0,0 +1,76 @@
+import { PSGState } from "../types";
+import { PSG_CLOCK, getPsgLog, getPsgLogEntry, getPsgLogLength } from "./psg";
+import { MSX_CPU_CLOCK } from "./z80Timing";
+
+/**
+ * VGM EXPORT
+ * ----------
+ * Writes the PSG register log as a VGM 1.51 file (AY-3-8910 at the MSX clock):
+ *   header (0x80 bytes): "Vgm ", EOF offset, version, total samples,
+ *                        data offset (relative to 0x34), AY8910 clock / type
+ *   $A0 rr dd            AY8910 register write
+ *   $61 nn nn / $62 / $63 / $7n   waits in 44.1 kHz samples
+ *   $66                  end of data
+ * The registers in effect before the first logged write come first, then
+ * every write at its T-state time (converted at 3.579545 MHz). The I/O port
+ * registers R#14/R#15 are left out.
+ */
+export const VGM_SAMPLE_RATE = 44100;
+const VGM_VERSION = 0x151;
+const HEADER_SIZE = 0x80;
+const SOUND_REGISTERS = 14;
+
+const pushWait = (data: number[], samples: number) => {
+  let left = samples;
+  while (left > 0) {
+    if (left === 735) { data.push(0x62); left = 0; }
+    else if (left === 882) { data.push(0x63); left = 0; }
+    else if (left <= 16) { data.push(0x70 + left - 1); left = 0; }
+    else {
+      const n = Math.min(left, 0xFFFF);
+      data.push(0x61, n & 0xFF, n >> 8);
+      left -= n;
+    }
+  }
+};
+
+// Length in seconds of the recorded log
+export const getPsgLogDuration = (psg: PSGState): number => {
+  const length = getPsgLogLength(psg);
+  return length > 1 ? (getPsgLogEntry(psg, length - 1).tStates - getPsgLogEntry(psg, 0).tStates) / MSX_CPU_CLOCK : 0;
+};
+
+// `tailSeconds` of the final state are kept so the last notes are heard
+export const encodePsgVgm = (psg: PSGState, tailSeconds: number = 1): Uint8Array => {
+  const data: number[] = [];
+  const base = psg.logBase || psg.registers;
+  for (let reg = 0; reg < SOUND_REGISTERS; reg++) data.push(0xA0, reg, base[reg]);
+
+  const log = getPsgLog(psg);
+  const start = log.length > 0 ? log[0].tStates : 0;
+  let written = 0;
+  log.forEach(entry => {
+    if (entry.register >= SOUND_REGISTERS) return;
+    // Writes logged before a reset of the T-state counter are played at once
+    const at = Math.max(written, Math.round((entry.tStates - start) * VGM_SAMPLE_RATE / MSX_CPU_CLOCK));
+    pushWait(data, at - written);
+    written = at;
+    data.push(0xA0, entry.register, entry.value);
+  });
+  const tail = Math.round(tailSeconds * VGM_SAMPLE_RATE);
+  pushWait(data, tail);
+  data.push(0x66);
+
+  const out = new Uint8Array(HEADER_SIZE + data.length);
+  const view = new DataView(out.buffer);
+  out.set([0x56, 0x67, 0x6D, 0x20]); // "Vgm "
+  view.setUint32(0x04, out.length - 0x04, true);
+  view.setUint32(0x08, VGM_VERSION, true);
+  view.setUint32(0x18, written + tail, true);
+  view.setUint32(0x34, HEADER_SIZE - 0x34, true);
+  view.setUint32(0x74, Math.floor(PSG_CLOCK), true);
+  out[0x78] = 0x00; // AY8910
+  out[0x79] = 0x01; // Legacy output
+  out.set(data, HEADER_SIZE);
+  return out;
+};
@@ -0,0 +1,74 @@
+import { VRAM_SIZE } from "./vdp";
+
+const TMS9918_VRAM_SIZE = 0x4000;
+
+/**
+ * VRAM IMAGES
+ * -----------
+ * Raw dumps (.VRAM): VRAM byte for byte, loaded at address 0. Saved as 16KB
+ * (TMS9918 size) unless something above $3FFF is in use, then as 128KB.
+ * BSAVE files (.SC2 and friends): a 7 byte header followed by the data
+ *   +0  $FE
+ *   +1  start address (little endian)
+ *   +3  end address (inclusive)
+ *   +5  execution address (unused for VRAM, BSAVE ...,S)
+ * A SCREEN 2 image is usually BSAVE'd from $0000 to $37FF (patterns, names,
+ * sprite attributes and colors, without the sprite patterns at $3800).
+ * SCREEN 5 files also carry the palette table at $7680.
+ */
+export const BSAVE_ID = 0xFE;
+export const BSAVE_HEADER_SIZE = 7;
+export const SC2_END = 0x37FF;
+export const SC5_PALETTE_ADDRESS = 0x7680;
+
+export type VramImageFormat = 'VRAM' | 'SC2';
+
+export interface VramImage {
+  start: number;     // VRAM address of the first byte
+  data: Uint8Array;
+  bsave: boolean;    // Read from a BSAVE header (false for raw dumps)
+}
+
+export const encodeVramImage = (vram: Uint8Array, format: VramImageFormat): Uint8Array => {
+  if (format === 'VRAM') {
+    const extended = vram.subarray(TMS9918_VRAM_SIZE).some(b => b !== 0);
+    return vram.slice(0, extended ? VRAM_SIZE : TMS9918_VRAM_SIZE);
+  }
+
+  const end = SC2_END;
+  const out = new Uint8Array(BSAVE_HEADER_SIZE + end + 1);
+  out.set([BSAVE_ID, 0x00, 0x00, end & 0xFF, end >> 8, 0x00, 0x00]);
+  out.set(vram.subarray(0, end + 1), BSAVE_HEADER_SIZE);
+  return out;
+};
+
+// Null when the file is neither a BSAVE image nor a raw dump that fits in VRAM
+export const decodeVramImage = (bytes: Uint8Array): VramImage | null => {
+  if (bytes.length > BSAVE_HEADER_SIZE && bytes[0] === BSAVE_ID) {
+    const start = bytes[1] | (bytes[2] << 8);
+    const end = bytes[3] | (bytes[4] << 8);
+    if (end >= start && start < VRAM_SIZE) {
+      // Some tools pad the file or cut the last bytes: keep what is there
+      const length = Math.min(end - start + 1, bytes.length - BSAVE_HEADER_SIZE, VRAM_SIZE - start);
+      return { start, data: bytes.slice(BSAVE_HEADER_SIZE, BSAVE_HEADER_SIZE + length), bsave: true };
+    }
+  }
+  if (bytes.length === 0 || bytes.length > VRAM_SIZE) return null;
+  return { start: 0, data: bytes.slice(), bsave: false };
+};
+
+// SCREEN mode implied by a .SC0-.SC8 extension (null for raw dumps and other names)
+export const screenForFileName = (fileName: string): number | null => {
+  const match = fileName.match(/\.SC([0-8])$/i);
+  return match ? Number(match[1]) : null;
+};
+
+export const readVramImageFile = async (file: File): Promise<VramImage | null> =>
+  decodeVramImage(new Uint8Array(await file.arrayBuffer()));
+
+// New VRAM contents with the image written over the current ones
+export const applyVramImage = (vram: Uint8Array, image: VramImage): Uint8Array => {
+  const next = vram.slice();
+  image.data.forEach((val, i) => { next[(image.start + i) & (VRAM_SIZE - 1)] = val; });
+  return next;
+};
@@ -0,0 +1,307 @@
+import { Z80Flags } from "../types";
+
+/**
+ * Z80 F REGISTER LAYOUT
+ * ---------------------
+ * Bit 7 : S   Sign
+ * Bit 6 : Z   Zero
+ * Bit 5 : F5  Undocumented (copy of bit 5 of the result)
+ * Bit 4 : H   Half Carry
+ * Bit 3 : F3  Undocumented (copy of bit 3 of the result)
+ * Bit 2 : PV  Parity / Overflow
+ * Bit 1 : N   Add / Subtract
+ * Bit 0 : C   Carry
+ *
+ * Every helper works on the packed F byte so the same code can drive both
+ * the source-line simulator and any byte-level execution.
+ */
+export const FLAG_C = 0x01;
+export const FLAG_N = 0x02;
+export const FLAG_PV = 0x04;
+export const FLAG_3 = 0x08;
+export const FLAG_H = 0x10;
+export const FLAG_5 = 0x20;
+export const FLAG_Z = 0x40;
+export const FLAG_S = 0x80;
+
+const FLAGS_53 = FLAG_5 | FLAG_3;
+
+export interface AluResult {
+  value: number;
+  f: number;
+}
+
+export const packFlags = (flags: Z80Flags): number => {
+  let f = 0;
+  if (flags.s) f |= FLAG_S;
+  if (flags.z) f |= FLAG_Z;
+  if (flags.f5) f |= FLAG_5;
+  if (flags.h) f |= FLAG_H;
+  if (flags.f3) f |= FLAG_3;
+  if (flags.pv) f |= FLAG_PV;
+  if (flags.n) f |= FLAG_N;
+  if (flags.c) f |= FLAG_C;
+  return f;
+};
+
+export const unpackFlags = (f: number): Z80Flags => ({
+  s: (f & FLAG_S) !== 0,
+  z: (f & FLAG_Z) !== 0,
+  f5: (f & FLAG_5) !== 0,
+  h: (f & FLAG_H) !== 0,
+  f3: (f & FLAG_3) !== 0,
+  pv: (f & FLAG_PV) !== 0,
+  n: (f & FLAG_N) !== 0,
+  c: (f & FLAG_C) !== 0,
+});
+
+export const parity = (val: number): boolean => {
+  let v = val & 0xFF;
+  v ^= v >> 4;
+  v ^= v >> 2;
+  v ^= v >> 1;
+  return (v & 1) === 0; // Even parity -> 1
+};
+
+// S, Z, F5, F3 and P/V (parity) for an 8-bit result. Used by logic ops and shifts.
+export const sz53p = (val: number): number => {
+  const v = val & 0xFF;
+  let f = v & (FLAG_S | FLAGS_53);
+  if (v === 0) f |= FLAG_Z;
+  if (parity(v)) f |= FLAG_PV;
+  return f;
+};
+
+const sz53 = (val: number): number => {
+  const v = val & 0xFF;
+  return (v & (FLAG_S | FLAGS_53)) | (v === 0 ? FLAG_Z : 0);
+};
+
+// --- 8-BIT ARITHMETIC ---
+
+export const add8 = (a: number, b: number, carryIn: number = 0): AluResult => {
+  const res = a + b + carryIn;
+  const value = res & 0xFF;
+  let f = sz53(value);
+  if ((a ^ b ^ res) & 0x10) f |= FLAG_H;
+  if ((a ^ ~b) & (a ^ res) & 0x80) f |= FLAG_PV;
+  if (res > 0xFF) f |= FLAG_C;
+  return { value, f };
+};
+
+export const sub8 = (a: number, b: number, carryIn: number = 0): AluResult => {
+  const res = a - b - carryIn;
+  const value = res & 0xFF;
+  let f = sz53(value) | FLAG_N;
+  if ((a ^ b ^ res) & 0x10) f |= FLAG_H;
+  if ((a ^ b) & (a ^ res) & 0x80) f |= FLAG_PV;
+  if (res < 0) f |= FLAG_C;
+  return { value, f };
+};
+
+// CP behaves like SUB but F5/F3 are copied from the operand, not the result.
+export const cp8 = (a: number, b: number): number => {
+  const { f } = sub8(a, b);
+  return (f & ~FLAGS_53) | (b & FLAGS_53);
+};
+
+export const and8 = (a: number, b: number): AluResult => {
+  const value = a & b & 0xFF;
+  return { value, f: sz53p(value) | FLAG_H };
+};
+
+export const or8 = (a: number, b: number): AluResult => {
+  const value = (a | b) & 0xFF;
+  return { value, f: sz53p(value) };
+};
+
+export const xor8 = (a: number, b: number): AluResult => {
+  const value = (a ^ b) & 0xFF;
+  return { value, f: sz53p(value) };
+};
+
+// INC/DEC r leave the carry untouched.
+export const inc8 = (val: number, f: number): AluResult => {
+  const value = (val + 1) & 0xFF;
+  let nf = (f & FLAG_C) | sz53(value);
+  if ((val & 0x0F) === 0x0F) nf |= FLAG_H;
+  if (val === 0x7F) nf |= FLAG_PV;
+  return { value, f: nf };
+};
+
+export const dec8 = (val: number, f: number): AluResult => {
+  const value = (val - 1) & 0xFF;
+  let nf = (f & FLAG_C) | sz53(value) | FLAG_N;
+  if ((val & 0x0F) === 0x00) nf |= FLAG_H;
+  if (val === 0x80) nf |= FLAG_PV;
+  return { value, f: nf };
+};
+
+export const neg8 = (a: number): AluResult => sub8(0, a);
+
+export const cpl8 = (a: number, f: number): AluResult => {
+  const value = ~a & 0xFF;
+  return { value, f: (f & (FLAG_S | FLAG_Z | FLAG_PV | FLAG_C)) | FLAG_H | FLAG_N | (value & FLAGS_53) };
+};
+
+export const daa8 = (a: number, f: number): AluResult => {
+  let diff = 0;
+  let carry = f & FLAG_C;
+  const low = a & 0x0F;
+
+  if ((f & FLAG_H) || low > 9) diff |= 0x06;
+  if (carry || a > 0x99) {
+      diff |= 0x60;
+      carry = FLAG_C;
+  }
+
+  const subtract = (f & FLAG_N) !== 0;
+  const value = (subtract ? a - diff : a + diff) & 0xFF;
+  const half = subtract ? ((f & FLAG_H) !== 0 && low < 6) : low > 9;
+
+  return { value, f: sz53p(value) | (f & FLAG_N) | carry | (half ? FLAG_H : 0) };
+};
+
+// SCF / CCF: F5/F3 follow the accumulator.
+export const scf = (a: number, f: number): number =>
+  (f & (FLAG_S | FLAG_Z | FLAG_PV)) | FLAG_C | (a & FLAGS_53);
+
+export const ccf = (a: number, f: number): number =>
+  (f & (FLAG_S | FLAG_Z | FLAG_PV)) | ((f & FLAG_C) ? FLAG_H : FLAG_C) | (a & FLAGS_53);
+
+// --- 16-BIT ARITHMETIC ---
+
+// ADD HL/IX/IY,rr keeps S, Z and P/V.
+export const add16 = (a: number, b: number, f: number): AluResult => {
+  const res = a + b;
+  const value = res & 0xFFFF;
+  let nf = (f & (FLAG_S | FLAG_Z | FLAG_PV)) | ((value >> 8) & FLAGS_53);
+  if (((a ^ b ^ res) >> 8) & 0x10) nf |= FLAG_H;
+  if (res > 0xFFFF) nf |= FLAG_C;
+  return { value, f: nf };
+};
+
+export const adc16 = (a: number, b: number, carryIn: number): AluResult => {
+  const res = a + b + carryIn;
+  const value = res & 0xFFFF;
+  let f = ((value >> 8) & (FLAG_S | FLAGS_53)) | (value === 0 ? FLAG_Z : 0);
+  if (((a ^ b ^ res) >> 8) & 0x10) f |= FLAG_H;
+  if ((a ^ ~b) & (a ^ res) & 0x8000) f |= FLAG_PV;
+  if (res > 0xFFFF) f |= FLAG_C;
+  return { value, f };
+};
+
+export const sbc16 = (a: number, b: number, carryIn: number): AluResult => {
+  const res = a - b - carryIn;
+  const value = res & 0xFFFF;
+  let f = ((value >> 8) & (FLAG_S | FLAGS_53)) | (value === 0 ? FLAG_Z : 0) | FLAG_N;
+  if (((a ^ b ^ res) >> 8) & 0x10) f |= FLAG_H;
+  if ((a ^ b) & (a ^ res) & 0x8000) f |= FLAG_PV;
+  if (res < 0) f |= FLAG_C;
+  return { value, f };
+};
+
+// --- ACCUMULATOR ROTATES (RLCA, RRCA, RLA, RRA) ---
+// Keep S, Z and P/V; reset H and N.
+
+const accRotateFlags = (value: number, carryOut: number, f: number): number =>
+  (f & (FLAG_S | FLAG_Z | FLAG_PV)) | (value & FLAGS_53) | (carryOut ? FLAG_C : 0);
+
+export const rlca = (a: number, f: number): AluResult => {
+  const value = ((a << 1) | (a >> 7)) & 0xFF;
+  return { value, f: accRotateFlags(value, a & 0x80, f) };
+};
+
+export const rrca = (a: number, f: number): AluResult => {
+  const value = ((a >> 1) | (a << 7)) & 0xFF;
+  return { value, f: accRotateFlags(value, a & 0x01, f) };
+};
+
+export const rla = (a: number, f: number): AluResult => {
+  const value = ((a << 1) | (f & FLAG_C)) & 0xFF;
+  return { value, f: accRotateFlags(value, a & 0x80, f) };
+};
+
+export const rra = (a: number, f: number): AluResult => {
+  const value = ((a >> 1) | ((f & FLAG_C) << 7)) & 0xFF;
+  return { value, f: accRotateFlags(value, a & 0x01, f) };
+};
+
+// --- CB-PREFIXED SHIFTS / ROTATES ---
+
+export type ShiftOp = 'RLC' | 'RRC' | 'RL' | 'RR' | 'SLA' | 'SRA' | 'SLL' | 'SRL';
+
+export const SHIFT_OPS: ShiftOp[] = ['RLC', 'RRC', 'RL', 'RR', 'SLA', 'SRA', 'SLL', 'SRL'];
+
+export const shift8 = (op: ShiftOp, val: number, f: number): AluResult => {
+  const cin = f & FLAG_C;
+  let value = 0;
+  let carryOut = 0;
+
+  switch (op) {
+      case 'RLC': value = (val << 1) | (val >> 7); carryOut = val & 0x80; break;
+      case 'RRC': value = (val >> 1) | (val << 7); carryOut = val & 0x01; break;
+      case 'RL':  value = (val << 1) | cin;        carryOut = val & 0x80; break;
+      case 'RR':  value = (val >> 1) | (cin << 7); carryOut = val & 0x01; break;
+      case 'SLA': value = val << 1;                carryOut = val & 0x80; break;
+      case 'SRA': value = (val >> 1) | (val & 0x80); carryOut = val & 0x01; break;
+      case 'SLL': value = (val << 1) | 1;          carryOut = val & 0x80; break; // Undocumented
+      case 'SRL': value = val >> 1;                carryOut = val & 0x01; break;
+  }
+
+  value &= 0xFF;
+  return { value, f: sz53p(value) | (carryOut ? FLAG_C : 0) };
+};
+
+// BIT n: Z and P/V mirror the tested bit, H is set, C is kept.
+export const bitTest = (bit: number, val: number, f: number): number => {
+  const tested = val & (1 << bit);
+  let nf = (f & FLAG_C) | FLAG_H | (val & FLAGS_53);
+  if (!tested) nf |= FLAG_Z | FLAG_PV;
+  if (bit === 7 && tested) nf |= FLAG_S;
+  return nf;
+};
+
+// RLD / RRD rotate a BCD digit between A and (HL).
+export const rld = (a: number, mem: number, f: number): { a: number; mem: number; f: number } => {
+  const newMem = ((mem << 4) | (a & 0x0F)) & 0xFF;
+  const newA = (a & 0xF0) | (mem >> 4);
+  return { a: newA, mem: newMem, f: (f & FLAG_C) | sz53p(newA) };
+};
+
+export const rrd = (a: number, mem: number, f: number): { a: number; mem: number; f: number } => {
+  const newMem = ((a << 4) | (mem >> 4)) & 0xFF;
+  const newA = (a & 0xF0) | (mem & 0x0F);
+  return { a: newA, mem: newMem, f: (f & FLAG_C) | sz53p(newA) };
+};
+
+// --- BLOCK INSTRUCTIONS (LDI/CPI/INI/OUTI families) ---
+
+// LDI/LDD: S, Z, C kept; H = N = 0; P/V = (BC != 0); F3/F5 from (A + transferred byte).
+export const ldiFlags = (f: number, a: number, val: number, bc: number): number => {
+  const n = (a + val) & 0xFF;
+  let nf = (f & (FLAG_S | FLAG_Z | FLAG_C)) | (n & FLAG_3) | ((n << 4) & FLAG_5);
+  if (bc !== 0) nf |= FLAG_PV;
+  return nf;
+};
+
+// CPI/CPD: like CP (HL) but C is kept and P/V = (BC != 0).
+export const cpiFlags = (f: number, a: number, val: number, bc: number): number => {
+  const res = (a - val) & 0xFF;
+  const half = ((a ^ val ^ res) & 0x10) !== 0;
+  const n = (res - (half ? 1 : 0)) & 0xFF;
+  let nf = (f & FLAG_C) | FLAG_N | (res & FLAG_S) | (n & FLAG_3) | ((n << 4) & FLAG_5);
+  if (res === 0) nf |= FLAG_Z;
+  if (half) nf |= FLAG_H;
+  if (bc !== 0) nf |= FLAG_PV;
+  return nf;
+};
+
+// INI/IND/OUTI/OUTD: B is the counter. `k` is the byte plus (C+/-1) for input or L for output.
+export const ioBlockFlags = (b: number, val: number, k: number): number => {
+  let f = sz53(b);
+  if (val & 0x80) f |= FLAG_N;
+  if (k > 0xFF) f |= FLAG_H | FLAG_C;
+  if (parity((k & 0x07) ^ b)) f |= FLAG_PV;
+  return f;
+};
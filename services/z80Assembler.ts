@@ -0,0 +1,701 @@
+/**
+ * Z80 ASSEMBLER BACKEND
+ * ---------------------
+ * Encodes the analyzed source into real machine code so the listing, the
+ * symbol table and the simulator agree with the binary that gets shipped.
+ *
+ * Passes repeat until every symbol is stable (forward references in EQU/ORG
+ * may need more than two), then a final pass encodes with the complete table
+ * and reports errors. Instruction sizes never depend on operand values on the
+ * Z80, so addresses converge quickly.
+ */
+
+export interface SourceLine {
+  lineNum: number;    // Visual (1-based) line number
+  labels: string[];   // Labels defined on this line
+  directive: string;  // Mnemonic or directive (upper case), '' for label-only lines
+  args: string;       // Raw operand text
+}
+
+export interface AssemblyResult {
+  symbolTable: { [label: string]: number };
+  lineAddresses: { [line: number]: number };
+  lineBytes: { [line: number]: number[] };
+  memoryMap: { [address: number]: number };
+  errors: string[];
+}
+
+export interface BinaryImage {
+  start: number;
+  bytes: Uint8Array;
+}
+
+// --- EXPRESSIONS ---
+
+interface EvalContext {
+  symbols: { [label: string]: number };
+  pc: number;
+  unresolved: boolean; // Set when a symbol is not (yet) defined
+  resolveExternal?: (name: string) => number | null;
+}
+
+const tokenize = (expr: string): string[] | null => {
+  const tokens: string[] = [];
+  let i = 0;
+  while (i < expr.length) {
+    const ch = expr[i];
+    if (/\s/.test(ch)) { i++; continue; }
+    if (ch === "'" || ch === '"') {
+      const end = expr.indexOf(ch, i + 1);
+      if (end === -1) return null;
+      tokens.push(expr.substring(i, end + 1));
+      i = end + 1;
+      continue;
+    }
+    const two = expr.substr(i, 2);
+    if (two === '<<' || two === '>>') { tokens.push(two); i += 2; continue; }
+    if (ch === '$' || ch === '#' || ch === '%' || /[\w.@?&]/.test(ch)) {
+      // Prefixed literals ($FF, #FF, %1010, &HFF) or a plain word
+      let j = i + 1;
+      if (ch === '&' && /[Hh]/.test(expr[j] || '')) j++;
+      while (j < expr.length && /[\w.@?]/.test(expr[j])) j++;
+      const word = expr.substring(i, j);
+      // '%' and '&' are operators unless they prefix a binary / &H literal
+      if (ch === '%' && !/^%[01]+$/.test(word)) { tokens.push('%'); i++; continue; }
+      if (ch === '&' && !/^&H[0-9A-F]+$/i.test(word)) { tokens.push('&'); i++; continue; }
+      tokens.push(word);
+      i = j;
+      continue;
+    }
+    if ('+-*/|^~()'.includes(ch)) { tokens.push(ch); i++; continue; }
+    return null;
+  }
+  return tokens;
+};
+
+const parseLiteral = (tok: string): number | null => {
+  const t = tok.toUpperCase();
+  let m: RegExpMatchArray | null;
+  if ((m = t.match(/^[$#]([0-9A-F]+)$/))) return parseInt(m[1], 16);
+  if ((m = t.match(/^&H([0-9A-F]+)$/))) return parseInt(m[1], 16);
+  if ((m = t.match(/^0X([0-9A-F]+)$/))) return parseInt(m[1], 16);
+  if ((m = t.match(/^%([01]+)$/))) return parseInt(m[1], 2);
+  if ((m = t.match(/^([0-9][0-9A-F]*)H$/))) return parseInt(m[1], 16);
+  if ((m = t.match(/^([01]+)B$/))) return parseInt(m[1], 2);
+  if ((m = t.match(/^([0-9]+)D?$/))) return parseInt(m[1], 10);
+  return null;
+};
+
+/**
+ * Evaluates an expression with + - * / % & | ^ ~ << >> and parentheses.
+ * `$` on its own is the current address. Returns null on a syntax error;
+ * undefined symbols evaluate to 0 and flag the context as unresolved.
+ */
+export const evaluateExpression = (expr: string, ctx: EvalContext): number | null => {
+  const tokens = tokenize(expr);
+  if (!tokens || tokens.length === 0) return null;
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const BINARY: { [op: string]: number } = { '|': 1, '^': 2, '&': 3, '<<': 4, '>>': 4, '+': 5, '-': 5, '*': 6, '/': 6, '%': 6 };
+
+  const primary = (): number | null => {
+    const tok = tokens[pos++];
+    if (tok === undefined) return null;
+    if (tok === '(') {
+      const v = binary(0);
+      if (tokens[pos++] !== ')') return null;
+      return v;
+    }
+    if (tok === '-' || tok === '+' || tok === '~') {
+      const v = primary();
+      if (v === null) return null;
+      return tok === '-' ? -v : tok === '~' ? ~v : v;
+    }
+    if (tok === '$') return ctx.pc;
+    if ((tok[0] === "'" || tok[0] === '"') && tok.length === 3) return tok.charCodeAt(1);
+    const lit = parseLiteral(tok);
+    if (lit !== null) return lit;
+    const name = tok.toUpperCase();
+    if (/^[A-Z_.@?][\w.@?]*$/.test(name)) {
+      if (ctx.symbols[name] !== undefined) return ctx.symbols[name];
+      const external = ctx.resolveExternal ? ctx.resolveExternal(name) : null;
+      if (external !== null && external !== undefined) return external;
+      ctx.unresolved = true;
+      return 0;
+    }
+    return null;
+  };
+
+  const binary = (minPrec: number): number | null => {
+    let left = primary();
+    while (left !== null && pos < tokens.length && BINARY[peek()] !== undefined && BINARY[peek()] > minPrec) {
+      const op = tokens[pos++];
+      const right = binary(BINARY[op]);
+      if (right === null) return null;
+      switch (op) {
+        case '|': left = left | right; break;
+        case '^': left = left ^ right; break;
+        case '&': left = left & right; break;
+        case '<<': left = left << right; break;
+        case '>>': left = left >> right; break;
+        case '+': left = left + right; break;
+        case '-': left = left - right; break;
+        case '*': left = left * right; break;
+        case '/': left = right === 0 ? 0 : Math.trunc(left / right); break;
+        case '%': left = right === 0 ? 0 : left % right; break;
+      }
+    }
+    return left;
+  };
+
+  const result = binary(0);
+  return pos === tokens.length ? result : null;
+};
+
+// Splits on commas outside quotes and parentheses
+const splitOperands = (args: string): string[] => {
+  const out: string[] = [];
+  let depth = 0, quote = '', cur = '';
+  for (let i = 0; i < args.length; i++) {
+    const ch = args[i];
+    if (quote) {
+      if (ch === quote) quote = '';
+    } else if ((ch === '"' || ch === "'") && !/AF$/i.test(cur.trim())) {
+      quote = ch;
+    } else if (ch === '(') depth++;
+    else if (ch === ')') depth--;
+    else if (ch === ',' && depth === 0) { out.push(cur.trim()); cur = ''; continue; }
+    cur += ch;
+  }
+  if (cur.trim() || out.length) out.push(cur.trim());
+  return out;
+};
+
+// --- OPERANDS ---
+
+const R8: { [name: string]: number } = { B: 0, C: 1, D: 2, E: 3, H: 4, L: 5, A: 7 };
+const IDX8: { [name: string]: [number, number] } = { IXH: [0xDD, 4], IXL: [0xDD, 5], IYH: [0xFD, 4], IYL: [0xFD, 5] };
+const RP: { [name: string]: number } = { BC: 0, DE: 1, HL: 2, SP: 3 };
+const CONDITIONS: { [cc: string]: number } = { NZ: 0, Z: 1, NC: 2, C: 3, PO: 4, PE: 5, P: 6, M: 7 };
+// Register and condition names (never reported as undefined symbols)
+const RESERVED = new Set([...Object.keys(R8), ...Object.keys(IDX8), ...Object.keys(RP), ...Object.keys(CONDITIONS), 'IX', 'IY', 'AF', 'I', 'R', 'F']);
+
+type Operand =
+  | { kind: 'r8'; code: number; prefix?: number }      // A..L, (HL) = 6, IXH/IXL/IYH/IYL
+  | { kind: 'idx'; prefix: number; disp: string }       // (IX+d) / (IY+d)
+  | { kind: 'reg'; name: string }                        // BC DE HL SP IX IY AF AF' I R
+  | { kind: 'ind'; name: string }                        // (BC) (DE) (SP) (C)
+  | { kind: 'mem'; expr: string }                        // (nn)
+  | { kind: 'imm'; expr: string };                       // nn
+
+// True when the whole operand is wrapped in one pair of parentheses
+const isWrapped = (op: string): boolean => {
+  if (!op.startsWith('(') || !op.endsWith(')')) return false;
+  let depth = 0;
+  for (let i = 0; i < op.length; i++) {
+    if (op[i] === '(') depth++;
+    else if (op[i] === ')') depth--;
+    if (depth === 0 && i < op.length - 1) return false;
+  }
+  return true;
+};
+
+const parseOperand = (raw: string): Operand => {
+  const op = raw.trim();
+  const up = op.toUpperCase().replace(/\s+/g, '');
+  if (up === '(HL)') return { kind: 'r8', code: 6 };
+  if (R8[up] !== undefined) return { kind: 'r8', code: R8[up] };
+  if (IDX8[up]) return { kind: 'r8', code: IDX8[up][1], prefix: IDX8[up][0] };
+  if (['BC', 'DE', 'HL', 'SP', 'IX', 'IY', 'AF', "AF'", 'I', 'R'].includes(up)) return { kind: 'reg', name: up };
+  if (isWrapped(op)) {
+    const inner = op.slice(1, -1).trim();
+    const innerUp = inner.toUpperCase().replace(/\s+/g, '');
+    if (['BC', 'DE', 'SP', 'C'].includes(innerUp)) return { kind: 'ind', name: innerUp };
+    const m = inner.match(/^(IX|IY)\s*([+-].*)?$/i);
+    if (m) {
+      const prefix = m[1].toUpperCase() === 'IX' ? 0xDD : 0xFD;
+      return { kind: 'idx', prefix, disp: m[2] ? m[2].trim() : '0' };
+    }
+    return { kind: 'mem', expr: inner };
+  }
+  return { kind: 'imm', expr: op };
+};
+
+// --- ENCODER ---
+
+const ED_SIMPLE: { [op: string]: number } = {
+  NEG: 0x44, RETN: 0x45, RETI: 0x4D, RRD: 0x67, RLD: 0x6F,
+  LDI: 0xA0, CPI: 0xA1, INI: 0xA2, OUTI: 0xA3, LDD: 0xA8, CPD: 0xA9, IND: 0xAA, OUTD: 0xAB,
+  LDIR: 0xB0, CPIR: 0xB1, INIR: 0xB2, OTIR: 0xB3, LDDR: 0xB8, CPDR: 0xB9, INDR: 0xBA, OTDR: 0xBB,
+};
+const SIMPLE: { [op: string]: number } = {
+  NOP: 0x00, RLCA: 0x07, RRCA: 0x0F, RLA: 0x17, RRA: 0x1F, DAA: 0x27, CPL: 0x2F, SCF: 0x37, CCF: 0x3F,
+  HALT: 0x76, EXX: 0xD9, DI: 0xF3, EI: 0xFB,
+};
+const ALU: { [op: string]: number } = { ADD: 0, ADC: 1, SUB: 2, SBC: 3, AND: 4, XOR: 5, OR: 6, CP: 7 };
+const ROT: { [op: string]: number } = { RLC: 0, RRC: 1, RL: 2, RR: 3, SLA: 4, SRA: 5, SLL: 6, SRL: 7 };
+
+class AsmError extends Error {}
+
+const fail = (msg: string): never => { throw new AsmError(msg); };
+
+/**
+ * Encodes one instruction at `pc`. `value` evaluates an expression (0 for
+ * unresolved symbols during the sizing passes, where range checks are skipped).
+ */
+const encodeInstruction = (
+  mnemonic: string,
+  args: string,
+  pc: number,
+  value: (expr: string) => number,
+  unresolved: () => boolean
+): number[] => {
+  const ops = args.trim() ? splitOperands(args).map(parseOperand) : [];
+  const raw = args.trim() ? splitOperands(args) : [];
+  const n = ops.length;
+
+  const byte = (v: number) => v & 0xFF;
+  const word = (v: number) => [v & 0xFF, (v >> 8) & 0xFF];
+  const disp = (o: { disp: string }) => {
+    const d = value(o.disp);
+    if ((d < -128 || d > 127) && !unresolved()) fail(`Index displacement out of range (${d})`);
+    return d & 0xFF;
+  };
+  const expect = (count: number) => { if (n !== count) fail(`${mnemonic} expects ${count} operand(s)`); };
+  const relative = (expr: string) => {
+    const e = value(expr) - (pc + 2);
+    if ((e < -128 || e > 127) && !unresolved()) fail(`Relative jump out of range (${e})`);
+    return e & 0xFF;
+  };
+  // Register operand with optional index prefix, for 8-bit ops encoded as base + r
+  const r8Bytes = (o: Operand, build: (code: number) => number): number[] => {
+    if (o.kind === 'idx') return [o.prefix, build(6), disp(o)];
+    if (o.kind !== 'r8') return fail('Invalid operand');
+    return o.prefix ? [o.prefix, build(o.code)] : [build(o.code)];
+  };
+  const isImm = (o: Operand) => o.kind === 'imm';
+
+  if (SIMPLE[mnemonic] !== undefined) { expect(0); return [SIMPLE[mnemonic]]; }
+  if (ED_SIMPLE[mnemonic] !== undefined) { expect(0); return [0xED, ED_SIMPLE[mnemonic]]; }
+
+  switch (mnemonic) {
+    case 'LD': {
+      expect(2);
+      const [dst, src] = ops;
+      // 8-bit register / (HL) / (IX+d) destinations
+      if (dst.kind === 'r8' || dst.kind === 'idx') {
+        if (src.kind === 'r8' || src.kind === 'idx') {
+          if (dst.kind === 'idx' && src.kind === 'idx') return fail('Invalid LD (index),(index)');
+          if (dst.kind === 'idx' && src.kind === 'r8') {
+            if (src.prefix || src.code === 6) fail('Invalid LD (index) source');
+            return [dst.prefix, 0x70 | src.code, disp(dst)];
+          }
+          if (src.kind === 'idx' && dst.kind === 'r8') {
+            if (dst.prefix || dst.code === 6) fail('Invalid LD from (index)');
+            return [src.prefix, 0x46 | (dst.code << 3), disp(src)];
+          }
+          const d = dst as { code: number; prefix?: number }, s = src as { code: number; prefix?: number };
+          if (d.code === 6 && s.code === 6) fail('LD (HL),(HL) is not an instruction');
+          if (d.prefix && s.prefix && d.prefix !== s.prefix) fail('Cannot mix IX and IY halves');
+          // Behind an index prefix H/L/(HL) would be reinterpreted, so they cannot pair with IXH/IXL
+          const plain = d.prefix ? (s.prefix ? null : s) : (s.prefix ? d : null);
+          if (plain && [4, 5, 6].includes(plain.code)) fail('H, L and (HL) cannot be combined with index halves');
+          const prefix = d.prefix || s.prefix;
+          const opc = 0x40 | (d.code << 3) | s.code;
+          return prefix ? [prefix, opc] : [opc];
+        }
+        if (isImm(src)) {
+          const n8 = byte(value((src as { expr: string }).expr));
+          if (dst.kind === 'idx') return [dst.prefix, 0x36, disp(dst), n8];
+          return r8Bytes(dst, c => 0x06 | (c << 3)).concat(n8);
+        }
+        if (dst.kind === 'r8' && dst.code === 7 && !dst.prefix) {
+          if (src.kind === 'ind' && src.name === 'BC') return [0x0A];
+          if (src.kind === 'ind' && src.name === 'DE') return [0x1A];
+          if (src.kind === 'mem') return [0x3A, ...word(value(src.expr))];
+          if (src.kind === 'reg' && src.name === 'I') return [0xED, 0x57];
+          if (src.kind === 'reg' && src.name === 'R') return [0xED, 0x5F];
+        }
+        return fail('Invalid LD operands');
+      }
+      if (dst.kind === 'ind' && (dst.name === 'BC' || dst.name === 'DE') && src.kind === 'r8' && src.code === 7 && !src.prefix) {
+        return [dst.name === 'BC' ? 0x02 : 0x12];
+      }
+      if (dst.kind === 'mem') {
+        const addr = word(value(dst.expr));
+        if (src.kind === 'r8' && src.code === 7 && !src.prefix) return [0x32, ...addr];
+        if (src.kind === 'reg') {
+          if (src.name === 'HL') return [0x22, ...addr];
+          if (src.name === 'IX') return [0xDD, 0x22, ...addr];
+          if (src.name === 'IY') return [0xFD, 0x22, ...addr];
+          if (RP[src.name] !== undefined) return [0xED, 0x43 | (RP[src.name] << 4), ...addr];
+        }
+        return fail('Invalid LD (nn) source');
+      }
+      if (dst.kind === 'reg') {
+        if ((dst.name === 'I' || dst.name === 'R') && src.kind === 'r8' && src.code === 7 && !src.prefix) {
+          return [0xED, dst.name === 'I' ? 0x47 : 0x4F];
+        }
+        if (dst.name === 'SP' && src.kind === 'reg') {
+          if (src.name === 'HL') return [0xF9];
+          if (src.name === 'IX') return [0xDD, 0xF9];
+          if (src.name === 'IY') return [0xFD, 0xF9];
+        }
+        const prefix = dst.name === 'IX' ? 0xDD : dst.name === 'IY' ? 0xFD : 0;
+        const rp = prefix ? RP.HL : RP[dst.name];
+        if (rp === undefined) return fail('Invalid LD destination');
+        if (src.kind === 'imm') {
+          const bytes = [0x01 | (rp << 4), ...word(value(src.expr))];
+          return prefix ? [prefix, ...bytes] : bytes;
+        }
+        if (src.kind === 'mem') {
+          const addr = word(value(src.expr));
+          if (prefix) return [prefix, 0x2A, ...addr];
+          if (dst.name === 'HL') return [0x2A, ...addr];
+          return [0xED, 0x4B | (rp << 4), ...addr];
+        }
+      }
+      return fail('Invalid LD operands');
+    }
+
+    case 'PUSH':
+    case 'POP': {
+      expect(1);
+      const o = ops[0];
+      const base = mnemonic === 'PUSH' ? 0xC5 : 0xC1;
+      if (o.kind !== 'reg') return fail(`Invalid ${mnemonic} operand`);
+      if (o.name === 'IX') return [0xDD, base | 0x20];
+      if (o.name === 'IY') return [0xFD, base | 0x20];
+      const code = { BC: 0, DE: 1, HL: 2, AF: 3 }[o.name];
+      if (code === undefined) return fail(`Invalid ${mnemonic} operand`);
+      return [base | (code << 4)];
+    }
+
+    case 'EX': {
+      expect(2);
+      const a = raw[0].toUpperCase().replace(/\s+/g, ''), b = raw[1].toUpperCase().replace(/\s+/g, '');
+      if (a === 'DE' && b === 'HL') return [0xEB];
+      if (a === 'AF' && (b === "AF'" || b === 'AF')) return [0x08];
+      if (a === '(SP)' && b === 'HL') return [0xE3];
+      if (a === '(SP)' && b === 'IX') return [0xDD, 0xE3];
+      if (a === '(SP)' && b === 'IY') return [0xFD, 0xE3];
+      return fail('Invalid EX operands');
+    }
+
+    case 'ADD': case 'ADC': case 'SUB': case 'SBC':
+    case 'AND': case 'XOR': case 'OR': case 'CP': {
+      // 16-bit arithmetic
+      if (n === 2 && ops[0].kind === 'reg') {
+        const dst = ops[0].name, src = ops[1];
+        if (src.kind !== 'reg') return fail('Invalid 16-bit operand');
+        if (mnemonic === 'ADD' && ['HL', 'IX', 'IY'].includes(dst)) {
+          const prefix = dst === 'IX' ? 0xDD : dst === 'IY' ? 0xFD : 0;
+          // The HL slot means the index register itself (ADD IX,IX)
+          const rp = src.name === dst ? RP.HL : (src.name === 'HL' ? undefined : RP[src.name]);
+          if (rp === undefined) return fail('Invalid ADD operands');
+          return prefix ? [prefix, 0x09 | (rp << 4)] : [0x09 | (rp << 4)];
+        }
+        if ((mnemonic === 'ADC' || mnemonic === 'SBC') && dst === 'HL' && RP[src.name] !== undefined) {
+          return [0xED, (mnemonic === 'ADC' ? 0x4A : 0x42) | (RP[src.name] << 4)];
+        }
+        return fail(`Invalid ${mnemonic} operands`);
+      }
+      // 8-bit: "OP r" or "OP A,r"
+      let src: Operand;
+      if (n === 2) {
+        if (!(ops[0].kind === 'r8' && ops[0].code === 7 && !ops[0].prefix)) return fail(`${mnemonic} destination must be A`);
+        src = ops[1];
+      } else {
+        expect(1);
+        src = ops[0];
+      }
+      const alu = ALU[mnemonic];
+      if (src.kind === 'imm') return [0xC6 | (alu << 3), byte(value(src.expr))];
+      return r8Bytes(src, c => 0x80 | (alu << 3) | c);
+    }
+
+    case 'INC':
+    case 'DEC': {
+      expect(1);
+      const o = ops[0];
+      if (o.kind === 'reg') {
+        const isInc = mnemonic === 'INC';
+        if (o.name === 'IX' || o.name === 'IY') return [o.name === 'IX' ? 0xDD : 0xFD, isInc ? 0x23 : 0x2B];
+        if (RP[o.name] === undefined) return fail(`Invalid ${mnemonic} operand`);
+        return [(isInc ? 0x03 : 0x0B) | (RP[o.name] << 4)];
+      }
+      return r8Bytes(o, c => (mnemonic === 'INC' ? 0x04 : 0x05) | (c << 3));
+    }
+
+    case 'RLC': case 'RRC': case 'RL': case 'RR':
+    case 'SLA': case 'SRA': case 'SLL': case 'SRL':
+    case 'BIT': case 'SET': case 'RES': {
+      let base: number;
+      let target: Operand;
+      let copyTo: Operand | undefined;
+      if (ROT[mnemonic] !== undefined) {
+        if (n < 1 || n > 2) fail(`${mnemonic} expects 1 operand`);
+        base = ROT[mnemonic] << 3;
+        target = ops[0];
+        copyTo = ops[1];
+      } else {
+        if (n < 2 || n > 3) fail(`${mnemonic} expects 2 operands`);
+        const bit = value(raw[0]);
+        if (bit < 0 || bit > 7) fail(`Bit number out of range (${bit})`);
+        base = ({ BIT: 0x40, RES: 0x80, SET: 0xC0 } as { [k: string]: number })[mnemonic] | (bit << 3);
+        target = ops[1];
+        copyTo = ops[2];
+      }
+      if (target.kind === 'idx') {
+        // Undocumented form: result also copied to a register (SET b,(IX+d),r)
+        let reg = 6;
+        if (copyTo) {
+          if (copyTo.kind !== 'r8' || copyTo.prefix || copyTo.code === 6 || mnemonic === 'BIT') fail('Invalid register copy operand');
+          reg = (copyTo as { code: number }).code;
+        }
+        return [target.prefix, 0xCB, disp(target), base | reg];
+      }
+      if (copyTo) fail('Register copy form needs an (IX+d)/(IY+d) operand');
+      if (target.kind !== 'r8' || target.prefix) return fail(`Invalid ${mnemonic} operand`);
+      return [0xCB, base | target.code];
+    }
+
+    case 'JP': {
+      if (n === 1) {
+        const o = ops[0];
+        if (o.kind === 'r8' && o.code === 6) return [0xE9];                        // JP (HL)
+        if (o.kind === 'idx' && o.disp === '0') return [o.prefix, 0xE9];           // JP (IX)
+        if (o.kind === 'reg' && o.name === 'HL') return [0xE9];
+        if (o.kind === 'imm') return [0xC3, ...word(value(o.expr))];
+        return fail('Invalid JP target');
+      }
+      expect(2);
+      const cc = CONDITIONS[raw[0].toUpperCase()];
+      if (cc === undefined) return fail(`Unknown condition ${raw[0]}`);
+      return [0xC2 | (cc << 3), ...word(value(raw[1]))];
+    }
+
+    case 'CALL': {
+      if (n === 1) return [0xCD, ...word(value(raw[0]))];
+      expect(2);
+      const cc = CONDITIONS[raw[0].toUpperCase()];
+      if (cc === undefined) return fail(`Unknown condition ${raw[0]}`);
+      return [0xC4 | (cc << 3), ...word(value(raw[1]))];
+    }
+
+    case 'JR': {
+      if (n === 1) return [0x18, relative(raw[0])];
+      expect(2);
+      const cc = CONDITIONS[raw[0].toUpperCase()];
+      if (cc === undefined || cc > 3) return fail(`JR only supports NZ/Z/NC/C`);
+      return [0x20 | (cc << 3), relative(raw[1])];
+    }
+
+    case 'DJNZ': expect(1); return [0x10, relative(raw[0])];
+
+    case 'RET': {
+      if (n === 0) return [0xC9];
+      expect(1);
+      const cc = CONDITIONS[raw[0].toUpperCase()];
+      if (cc === undefined) return fail(`Unknown condition ${raw[0]}`);
+      return [0xC0 | (cc << 3)];
+    }
+
+    case 'RST': {
+      expect(1);
+      const p = value(raw[0]);
+      if (p & ~0x38) fail(`Invalid RST vector (${p})`);
+      return [0xC7 | p];
+    }
+
+    case 'IM': {
+      expect(1);
+      const mode = value(raw[0]);
+      const code = [0x46, 0x56, 0x5E][mode];
+      if (code === undefined) fail(`Invalid interrupt mode (${mode})`);
+      return [0xED, code];
+    }
+
+    case 'IN': {
+      if (n === 1 && ops[0].kind === 'ind' && ops[0].name === 'C') return [0xED, 0x70];   // IN (C)
+      expect(2);
+      const [dst, src] = ops;
+      if (raw[0].toUpperCase() === 'F' && src.kind === 'ind' && src.name === 'C') return [0xED, 0x70];
+      if (dst.kind !== 'r8' || dst.prefix || dst.code === 6) return fail('Invalid IN destination');
+      if (src.kind === 'ind' && src.name === 'C') return [0xED, 0x40 | (dst.code << 3)];
+      if (src.kind === 'mem' && dst.code === 7) return [0xDB, byte(value(src.expr))];
+      return fail('Invalid IN operands');
+    }
+
+    case 'OUT': {
+      expect(2);
+      const [dst, src] = ops;
+      if (dst.kind === 'ind' && dst.name === 'C') {
+        if (src.kind === 'imm' && value(src.expr) === 0) return [0xED, 0x71];
+        if (src.kind !== 'r8' || src.prefix || src.code === 6) return fail('Invalid OUT source');
+        return [0xED, 0x41 | (src.code << 3)];
+      }
+      if (dst.kind === 'mem' && src.kind === 'r8' && src.code === 7 && !src.prefix) return [0xD3, byte(value(dst.expr))];
+      return fail('Invalid OUT operands');
+    }
+  }
+
+  return fail(`Unknown instruction ${mnemonic}`);
+};
+
+// --- DATA DIRECTIVES ---
+
+const encodeData = (directive: string, args: string, value: (expr: string) => number): number[] => {
+  const out: number[] = [];
+  if (directive === 'DW' || directive === 'DEFW') {
+    splitOperands(args).forEach(tok => {
+      const v = value(tok);
+      out.push(v & 0xFF, (v >> 8) & 0xFF);
+    });
+    return out;
+  }
+  // DB / DEFB / DEFM: strings are emitted byte by byte, 'A' is a single char
+  splitOperands(args).forEach(tok => {
+    const isString = tok.length >= 2 && (tok[0] === '"' || tok[0] === "'") && tok[tok.length - 1] === tok[0];
+    if (isString && !(tok.length === 3 && tok[0] === "'")) {
+      for (let i = 1; i < tok.length - 1; i++) out.push(tok.charCodeAt(i) & 0xFF);
+    } else {
+      out.push(value(tok) & 0xFF);
+    }
+  });
+  return out;
+};
+
+// --- DRIVER ---
+
+const MAX_PASSES = 6;
+
+/**
+ * Assembles the parsed source. `resolveExternal` supplies symbols that are not
+ * defined in the file (the simulator resolves MSX BIOS names the same way).
+ */
+export const assembleZ80 = (
+  source: SourceLine[],
+  resolveExternal?: (name: string) => number | null
+): AssemblyResult => {
+  let symbols: { [label: string]: number } = {};
+  let result: AssemblyResult = { symbolTable: {}, lineAddresses: {}, lineBytes: {}, memoryMap: {}, errors: [] };
+
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    const finalPass = pass === MAX_PASSES - 1;
+    const defined: { [label: string]: number } = {};
+    // Previous pass values for forward references, overwritten as labels are met
+    const table: { [label: string]: number } = { ...symbols };
+    const lineAddresses: { [line: number]: number } = {};
+    const lineBytes: { [line: number]: number[] } = {};
+    const memoryMap: { [address: number]: number } = {};
+    const errors: string[] = [];
+    let pc = 0;
+    let inMacro = false;
+    let unresolvedSeen = false;
+
+    for (const line of source) {
+      const { lineNum, labels, directive, args } = line;
+      if (inMacro) {
+        if (directive === 'ENDM') inMacro = false;
+        continue;
+      }
+
+      const ctx: EvalContext = { symbols: table, pc, unresolved: false, resolveExternal };
+      const value = (expr: string): number => {
+        const v = evaluateExpression(expr, ctx);
+        if (v === null) return fail(`Cannot evaluate '${expr}'`);
+        return v;
+      };
+      const define = (val: number) => labels.forEach(l => {
+        defined[l.toUpperCase()] = table[l.toUpperCase()] = val & 0xFFFF;
+      });
+
+      try {
+        if (directive === 'EQU') {
+          const v = value(args) & 0xFFFF;
+          define(v);
+          lineAddresses[lineNum] = v;
+        } else if (directive === 'ORG') {
+          pc = value(args) & 0xFFFF;
+          define(pc);
+          lineAddresses[lineNum] = pc;
+        } else if (directive === 'MACRO') {
+          inMacro = true;
+        } else if (['END', 'ENDM', 'INCLUDE', 'INCBIN'].includes(directive)) {
+          if (directive === 'INCLUDE' || directive === 'INCBIN') errors.push(`Line ${lineNum}: ${directive} is not supported`);
+        } else {
+          define(pc);
+          lineAddresses[lineNum] = pc;
+          let bytes: number[] = [];
+          if (!directive) {
+            // Label only
+          } else if (['DB', 'DEFB', 'DEFM', 'DW', 'DEFW'].includes(directive)) {
+            bytes = encodeData(directive, args, value);
+          } else if (directive === 'DS' || directive === 'DEFS') {
+            // DS n reserves space; DS n,fill emits the fill bytes
+            const [countExpr, fillExpr] = splitOperands(args);
+            const count = value(countExpr);
+            if (count < 0) fail(`Negative DS size (${count})`);
+            if (fillExpr !== undefined) bytes = new Array(count).fill(value(fillExpr) & 0xFF);
+            else pc = (pc + count) & 0xFFFF;
+          } else {
+            bytes = encodeInstruction(directive, args, pc, value, () => ctx.unresolved);
+          }
+          if (bytes.length) {
+            lineBytes[lineNum] = bytes;
+            bytes.forEach((b, i) => { memoryMap[(pc + i) & 0xFFFF] = b; });
+            pc = (pc + bytes.length) & 0xFFFF;
+          }
+        }
+      } catch (e) {
+        if (!(e instanceof AsmError)) throw e;
+        // Failed lines keep their address and count as 0 bytes
+        if (!ctx.unresolved) errors.push(`Line ${lineNum}: ${e.message}`);
+      }
+
+      if (ctx.unresolved) {
+        unresolvedSeen = true;
+        if (finalPass) {
+          const missing = splitOperands(args).flatMap(op => tokenize(op.replace(/[()]/g, ' ')) || []).find(t => {
+            const name = t.toUpperCase();
+            return /^[A-Z_.@?][\w.@?]*$/.test(name) && parseLiteral(name) === null && !RESERVED.has(name)
+              && table[name] === undefined && (!resolveExternal || resolveExternal(name) === null);
+          });
+          errors.push(`Line ${lineNum}: Undefined symbol ${missing || args}`);
+        }
+      }
+    }
+
+    result = { symbolTable: defined, lineAddresses, lineBytes, memoryMap, errors };
+    const stable = Object.keys(defined).length === Object.keys(symbols).length
+      && Object.keys(defined).every(k => symbols[k] === defined[k]);
+    symbols = defined;
+    if (finalPass || (stable && !unresolvedSeen)) break;
+    // Addresses settled but symbols are missing: skip ahead to the reporting pass
+    if (stable) pass = MAX_PASSES - 2;
+  }
+
+  return result;
+};
+
+// Contiguous image from the lowest to the highest emitted address (gaps are 0)
+export const buildBinaryImage = (memoryMap: { [address: number]: number }): BinaryImage | null => {
+  const addrs = Object.keys(memoryMap).map(Number);
+  if (addrs.length === 0) return null;
+  const start = Math.min(...addrs);
+  const end = Math.max(...addrs);
+  const bytes = new Uint8Array(end - start + 1);
+  addrs.forEach(a => { bytes[a - start] = memoryMap[a]; });
+  return { start, bytes };
+};
+
+// MSX cartridges come in 8/16/32KB sizes: pad with $FF up to the next one
+export const padRomImage = (bytes: Uint8Array): Uint8Array => {
+  let size = 0x2000;
+  while (size < bytes.length) size *= 2;
+  const rom = new Uint8Array(size).fill(0xFF);
+  rom.set(bytes);
+  return rom;
+};
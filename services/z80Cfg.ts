@@ -0,0 +1,109 @@
+import { AnalysisResult } from "../types";
+import { evaluateExpression } from "./z80Assembler";
+
+/**
+ * CONTROL-FLOW GRAPH
+ * ------------------
+ * One node per analyzed step (instruction), with edges for:
+ *   - fallthrough to the next instruction (not after JP/JR/RET/RETI/RETN)
+ *   - CALL / JP / JR / DJNZ / RST targets, with the fallthrough kept for the
+ *     conditional forms and for calls (the callee is assumed to return)
+ * Targets are resolved through labels first, then through the symbol table
+ * and the assembled addresses, so `CALL $4010` or `RST 38h` land on the
+ * right line when that code is part of the source. Indirect jumps (JP (HL))
+ * have no static successor.
+ */
+export interface ControlFlowGraph {
+  successors: number[][];   // Step index -> reachable step indexes
+  entries: number[];        // Step indexes execution can start from
+  stepForLine: (line: number) => number; // First step at or after a line, -1 if none
+}
+
+const CONDITIONS = ['NZ', 'Z', 'NC', 'C', 'PO', 'PE', 'P', 'M'];
+
+export const buildControlFlowGraph = (analysis: AnalysisResult): ControlFlowGraph => {
+  const { steps } = analysis;
+
+  const stepForLine = (line: number): number => steps.findIndex(s => s.lineNumber >= line);
+
+  const stepForAddress = (addr: number): number => {
+    const line = analysis.addressLines[addr & 0xFFFF];
+    return line !== undefined ? stepForLine(line) : -1;
+  };
+
+  // Label, symbol or expression -> step index (-1 when outside the source, e.g. BIOS)
+  const resolveTarget = (target: string, line: number): number => {
+    const name = target.trim().toUpperCase();
+    if (analysis.labels[name] !== undefined) return stepForLine(analysis.labels[name]);
+    const ctx = { symbols: analysis.symbolTable, pc: analysis.lineAddresses[line] ?? 0, unresolved: false };
+    const value = evaluateExpression(target, ctx);
+    return value !== null && !ctx.unresolved ? stepForAddress(value) : -1;
+  };
+
+  const successors: number[][] = steps.map((step, idx) => {
+    const op = step.opcode.toUpperCase();
+    const args = step.operands.split(',').map(a => a.trim()).filter(a => a);
+    const next = idx + 1 < steps.length ? idx + 1 : -1;
+    const edges: number[] = [];
+    const add = (target: number) => { if (target !== -1 && !edges.includes(target)) edges.push(target); };
+
+    const isConditional = args.length > 1 && CONDITIONS.includes(args[0].toUpperCase());
+    const target = args[args.length - 1] || '';
+
+    if (op === 'JP' || op === 'JR') {
+      if (!/^\((HL|IX|IY)\)$/i.test(target)) add(resolveTarget(target, step.lineNumber));
+      if (isConditional) add(next);
+    } else if (op === 'CALL' || op === 'DJNZ' || op === 'RST') {
+      add(resolveTarget(target, step.lineNumber));
+      add(next);
+    } else if (op === 'RET') {
+      if (args.length > 0) add(next); // RET cc
+    } else if (op !== 'RETI' && op !== 'RETN') {
+      add(next);
+    }
+    return edges;
+  });
+
+  // Entry points: the MSX ROM header hooks (INIT, STATEMENT, DEVICE, TEXT), else the analysis entry
+  const entries: number[] = [];
+  const addEntry = (idx: number) => { if (idx !== -1 && !entries.includes(idx)) entries.push(idx); };
+  Object.entries(analysis.lineBytes).forEach(([line, bytes]) => {
+    if (bytes[0] !== 0x41 || bytes[1] !== 0x42) return;
+    const base = analysis.lineAddresses[Number(line)];
+    if (base === undefined) return;
+    for (let offset = 2; offset <= 8; offset += 2) {
+      const addr = (analysis.memoryMap[base + offset] ?? 0) | ((analysis.memoryMap[base + offset + 1] ?? 0) << 8);
+      if (addr) addEntry(stepForAddress(addr));
+    }
+  });
+  if (entries.length === 0 && analysis.entryLine) addEntry(stepForLine(analysis.entryLine));
+  if (entries.length === 0 && steps.length > 0) entries.push(0);
+
+  return { successors, entries, stepForLine };
+};
+
+// Breadth-first search: shortest step path from any entry to `target` (null when unreachable)
+export const findShortestPath = (graph: ControlFlowGraph, target: number): number[] | null => {
+  const previous = new Map<number, number>();
+  const queue: number[] = [];
+  graph.entries.forEach(entry => {
+    previous.set(entry, -1);
+    queue.push(entry);
+  });
+
+  for (let head = 0; head < queue.length; head++) {
+    const node = queue[head];
+    if (node === target) {
+      const path: number[] = [];
+      for (let n = node; n !== -1; n = previous.get(n)!) path.unshift(n);
+      return path;
+    }
+    for (const succ of graph.successors[node]) {
+      if (!previous.has(succ)) {
+        previous.set(succ, node);
+        queue.push(succ);
+      }
+    }
+  }
+  return null;
+};
@@ -0,0 +1,660 @@
+import {
+  packFlags, unpackFlags, sz53p, FLAG_C, FLAG_PV, FLAG_S, FLAG_Z,
+  add8, sub8, cp8, and8, or8, xor8, inc8, dec8, neg8, cpl8, daa8, scf, ccf,
+  add16, adc16, sbc16, rlca, rrca, rla, rra, shift8, SHIFT_OPS, bitTest, rld, rrd,
+  ldiFlags, cpiFlags, ioBlockFlags, AluResult
+} from "./z80Alu";
+import { SimulationState, cloneSimulationState } from "./z80Simulator";
+import { applyBiosCall, settleClobbered, watchRegisterWrites } from "./biosHle";
+import { readIoPort, writeIoPort } from "./msxIo";
+import { readInstructionTiming } from "./z80Timing";
+import { KEYINT_EXIT, acceptInterrupt, isInterruptPending, leaveKeyintHook, waitForInterrupt } from "./interrupts";
+
+/**
+ * BYTE-LEVEL CPU CORE
+ * -------------------
+ * Fetch/decode/execute over the flat 64KB memory, driven by registers.pc.
+ * Unlike the source-line simulator this runs whatever bytes are in memory,
+ * so self-modifying code, jump tables and data executed as code behave as on
+ * the real machine. The source view follows the PC via AnalysisResult.addressLines.
+ *
+ * Decoding follows the usual x/y/z split of the opcode byte:
+ *   x = bits 7-6, y = bits 5-3, z = bits 2-0, p = y >> 1, q = y & 1
+ */
+
+export interface CpuOptions {
+  // Addresses emulated at high level instead of executed (BIOS entry points
+  // while no BIOS ROM is loaded): the side effects are applied, then it returns
+  isBiosStub?: (addr: number) => boolean;
+  // Size of the BIOS ROM mapped at $0000: writes below it are ignored
+  romSize?: number;
+}
+
+// Why a run stopped
+export type CpuStopReason = 'RETURNED' | 'BREAKPOINT' | 'HALT' | 'LIMIT';
+
+export interface CpuRunResult {
+  state: SimulationState;
+  instructions: number;
+  reason: CpuStopReason;
+}
+
+const ALU_OPS: ((a: number, b: number, f: number) => AluResult | number)[] = [
+  (a, b) => add8(a, b),
+  (a, b, f) => add8(a, b, f & FLAG_C),
+  (a, b) => sub8(a, b),
+  (a, b, f) => sub8(a, b, f & FLAG_C),
+  (a, b) => and8(a, b),
+  (a, b) => xor8(a, b),
+  (a, b) => or8(a, b),
+  (a, b) => cp8(a, b), // Flags only
+];
+
+const testCondition = (y: number, f: number): boolean => {
+  switch (y) {
+    case 0: return (f & FLAG_Z) === 0;   // NZ
+    case 1: return (f & FLAG_Z) !== 0;   // Z
+    case 2: return (f & FLAG_C) === 0;   // NC
+    case 3: return (f & FLAG_C) !== 0;   // C
+    case 4: return (f & FLAG_PV) === 0;  // PO
+    case 5: return (f & FLAG_PV) !== 0;  // PE
+    case 6: return (f & FLAG_S) === 0;   // P
+    default: return (f & FLAG_S) !== 0;  // M
+  }
+};
+
+// Opcode byte after any DD/FD prefixes
+const opcodeAt = (memory: Uint8Array, addr: number): number => {
+  let i = addr;
+  while ((memory[i & 0xFFFF] === 0xDD || memory[i & 0xFFFF] === 0xFD) && i - addr < 16) i++;
+  return memory[i & 0xFFFF];
+};
+
+// Conditional cost selection: conditions use the flags before execution,
+// DJNZ and the repeating block instructions look at the result
+const isBranchTaken = (op: number, pc: number, fBefore: number, after: SimulationState): boolean => {
+  if (op === 0x10) return after.registers.b !== 0;                    // DJNZ
+  if (op === 0xED) return after.registers.pc === pc;                  // LDIR... rewound PC
+  if ((op & 0xE7) === 0x20) return testCondition((op >> 3) & 3, fBefore); // JR cc
+  if ((op & 0xC7) === 0xC0 || (op & 0xC7) === 0xC4) return testCondition((op >> 3) & 7, fBefore); // RET cc / CALL cc
+  return true;
+};
+
+// An H.TIMI hook returned to the emulated KEYINT: the registers it saved come back at once
+const finishKeyint = (state: SimulationState, options: CpuOptions) => {
+  if (state.registers.pc !== KEYINT_EXIT || !(options.isBiosStub && options.isBiosStub(KEYINT_EXIT))) return;
+  const ret = leaveKeyintHook(state);
+  if (ret !== null) state.registers.pc = ret;
+};
+
+// Accepts a pending frame interrupt: the return address is pushed and PC moves to the handler
+const serviceInterrupt = (state: SimulationState, options: CpuOptions, returnAddress: number) => {
+  if (!isInterruptPending(state)) return;
+  const target = acceptInterrupt(state, returnAddress, addr => !(options.isBiosStub && options.isBiosStub(addr)));
+  state.registers.pc = target === null ? returnAddress : target;
+};
+
+/**
+ * Executes the instruction at PC in place and returns its T-states (also
+ * added to state.tStates). Prefix chains (DD/FD/CB/ED) are consumed as one
+ * instruction; block instructions run a single iteration and rewind PC while
+ * they repeat, exactly like the hardware. Emulated BIOS calls cost nothing
+ * beyond the CALL itself. A frame interrupt is accepted after the
+ * instruction (except after EI); HALT idles until it arrives. The time of
+ * both is included in the returned T-states.
+ */
+export const executeInstruction = (state: SimulationState, options: CpuOptions = {}): number => {
+  const pc = (state.registers.pc || 0) & 0xFFFF;
+  if (options.isBiosStub && options.isBiosStub(pc)) {
+    execute(state, options);
+    finishKeyint(state, options);
+    return 0;
+  }
+  // Everything that decides the cost is read before the instruction runs
+  const timing = readInstructionTiming(state.memory, pc);
+  const op = opcodeAt(state.memory, pc);
+  const fBefore = packFlags(state.flags);
+  const watch = watchRegisterWrites(state);
+  execute(state, options);
+  finishKeyint(state, options);
+  settleClobbered(state, watch);
+  const cost = isBranchTaken(op, pc, fBefore, state) ? timing.cycles : timing.cyclesNotTaken;
+  const start = state.tStates;
+  state.tStates += cost;
+
+  const halted = op === 0x76 && state.registers.pc === pc;
+  if (halted) waitForInterrupt(state);
+  if (op !== 0xFB) serviceInterrupt(state, options, halted ? (pc + 1) & 0xFFFF : state.registers.pc);
+  return state.tStates - start;
+};
+
+const execute = (state: SimulationState, options: CpuOptions): void => {
+  const regs = state.registers;
+  const mem = state.memory;
+  regs.pc = (regs.pc || 0) & 0xFFFF;
+  state.lastBlockOp = null;
+
+  const rb = (addr: number) => mem[addr & 0xFFFF];
+  const romSize = options.romSize || 0;
+  const wb = (addr: number, val: number) => {
+    if ((addr & 0xFFFF) >= romSize) mem[addr & 0xFFFF] = val & 0xFF;
+  };
+  const pop = (): number => {
+    const val = rb(regs.sp) | (rb(regs.sp + 1) << 8);
+    regs.sp = (regs.sp + 2) & 0xFFFF;
+    return val;
+  };
+  const push = (val: number) => {
+    regs.sp = (regs.sp - 2) & 0xFFFF;
+    wb(regs.sp, val);
+    wb(regs.sp + 1, val >> 8);
+  };
+
+  // BIOS high-level emulation: behave as if the routine ran and returned
+  if (options.isBiosStub && options.isBiosStub(regs.pc)) {
+    applyBiosCall(state, regs.pc);
+    regs.pc = pop();
+    return;
+  }
+
+  // F is only replaced when the instruction writes it (see settleClobbered)
+  let f = packFlags(state.flags);
+  let flagsWritten = false;
+  const setFlags = (val: number) => {
+    f = val & 0xFF;
+    flagsWritten = true;
+  };
+  const fetch = (): number => {
+    const val = mem[regs.pc];
+    regs.pc = (regs.pc + 1) & 0xFFFF;
+    return val;
+  };
+  const fetchWord = (): number => fetch() | (fetch() << 8);
+  const fetchDisp = (): number => { const d = fetch(); return d < 0x80 ? d : d - 0x100; };
+  // Memory refresh: R counts M1 cycles (one per opcode / prefix fetch)
+  const refresh = () => { regs.r = (regs.r & 0x80) | ((regs.r + 1) & 0x7F); };
+
+  // --- REGISTER ACCESS (with DD/FD substitution) ---
+  let prefix = 0;  // 0, 0xDD (IX) or 0xFD (IY)
+  let memAddr = 0; // Effective address of (HL) / (IX+d) / (IY+d)
+
+  const getHL = () => prefix === 0xDD ? regs.ix : prefix === 0xFD ? regs.iy : (regs.h << 8) | regs.l;
+  const setHL = (val: number) => {
+    const v = val & 0xFFFF;
+    if (prefix === 0xDD) regs.ix = v;
+    else if (prefix === 0xFD) regs.iy = v;
+    else { regs.h = v >> 8; regs.l = v & 0xFF; }
+  };
+  // rp table: BC DE HL SP (HL replaced by IX/IY under a prefix); rp2 has AF instead of SP
+  const getRP = (p: number, af = false): number => {
+    switch (p) {
+      case 0: return (regs.b << 8) | regs.c;
+      case 1: return (regs.d << 8) | regs.e;
+      case 2: return getHL();
+      default: return af ? (regs.a << 8) | f : regs.sp;
+    }
+  };
+  const setRP = (p: number, val: number, af = false) => {
+    const v = val & 0xFFFF;
+    switch (p) {
+      case 0: regs.b = v >> 8; regs.c = v & 0xFF; break;
+      case 1: regs.d = v >> 8; regs.e = v & 0xFF; break;
+      case 2: setHL(v); break;
+      default:
+        if (af) { regs.a = v >> 8; setFlags(v & 0xFF); }
+        else regs.sp = v;
+    }
+  };
+  // Resolves (HL) or (IX+d) once per instruction (the displacement follows the opcode)
+  const resolveMem = () => {
+    memAddr = prefix ? (getHL() + fetchDisp()) & 0xFFFF : getHL();
+  };
+  // r table: B C D E H L (HL) A. `halves` = H/L map to IXH/IXL under a prefix
+  const getR = (code: number, halves = true): number => {
+    switch (code) {
+      case 0: return regs.b;
+      case 1: return regs.c;
+      case 2: return regs.d;
+      case 3: return regs.e;
+      case 4: return prefix && halves ? getHL() >> 8 : regs.h;
+      case 5: return prefix && halves ? getHL() & 0xFF : regs.l;
+      case 6: return rb(memAddr);
+      default: return regs.a;
+    }
+  };
+  const setR = (code: number, val: number, halves = true) => {
+    const v = val & 0xFF;
+    switch (code) {
+      case 0: regs.b = v; break;
+      case 1: regs.c = v; break;
+      case 2: regs.d = v; break;
+      case 3: regs.e = v; break;
+      case 4: if (prefix && halves) setHL((getHL() & 0x00FF) | (v << 8)); else regs.h = v; break;
+      case 5: if (prefix && halves) setHL((getHL() & 0xFF00) | v); else regs.l = v; break;
+      case 6: wb(memAddr, v); break;
+      default: regs.a = v;
+    }
+  };
+
+  // --- CB PREFIX (rotates, BIT/RES/SET) ---
+  const executeCB = () => {
+    if (prefix) resolveMem();           // DD CB d op: displacement comes first
+    const op = fetch();
+    if (!prefix) refresh();
+    const x = op >> 6, y = (op >> 3) & 7, z = op & 7;
+    // Under a prefix the operand is always (IX+d); z != 6 also copies the result to r[z]
+    const src = prefix ? 6 : z;
+    if (src === 6 && !prefix) memAddr = getHL();
+    const val = getR(src, false);
+
+    let result: number;
+    if (x === 0) {
+      const res = shift8(SHIFT_OPS[y], val, f);
+      result = res.value;
+      setFlags(res.f);
+    } else if (x === 1) {
+      setFlags(bitTest(y, val, f));
+      return;
+    } else if (x === 2) {
+      result = val & ~(1 << y);
+    } else {
+      result = val | (1 << y);
+    }
+    setR(src, result, false);
+    if (prefix && z !== 6) setR(z, result, false);
+  };
+
+  // --- ED PREFIX ---
+  const executeED = () => {
+    const op = fetch();
+    refresh();
+    const x = op >> 6, y = (op >> 3) & 7, z = op & 7, p = y >> 1, q = y & 1;
+
+    if (x === 1) {
+      switch (z) {
+        case 0: { // IN r,(C) / IN (C)
+          const val = readIoPort(state, regs.c);
+          if (y !== 6) setR(y, val);
+          setFlags((f & FLAG_C) | sz53p(val));
+          break;
+        }
+        case 1: // OUT (C),r / OUT (C),0
+          writeIoPort(state, regs.c, y === 6 ? 0 : getR(y));
+          break;
+        case 2: { // SBC HL,rp / ADC HL,rp
+          const hl = getHL();
+          const res = q === 0 ? sbc16(hl, getRP(p), f & FLAG_C) : adc16(hl, getRP(p), f & FLAG_C);
+          setHL(res.value);
+          setFlags(res.f);
+          break;
+        }
+        case 3: { // LD (nn),rp / LD rp,(nn)
+          const addr = fetchWord();
+          if (q === 0) {
+            const val = getRP(p);
+            wb(addr, val);
+            wb(addr + 1, val >> 8);
+          } else {
+            setRP(p, rb(addr) | (rb(addr + 1) << 8));
+          }
+          break;
+        }
+        case 4: { // NEG
+          const res = neg8(regs.a);
+          regs.a = res.value;
+          setFlags(res.f);
+          break;
+        }
+        case 5: // RETN / RETI (both restore IFF1 from IFF2)
+          regs.pc = pop();
+          state.interrupts.iff1 = state.interrupts.iff2;
+          break;
+        case 6: // IM 0/1/2 (y = 1 is an undocumented IM 0)
+          state.interrupts.mode = [0, 0, 1, 2][y & 3];
+          break;
+        default:
+          if (y === 0) regs.i = regs.a;                      // LD I,A
+          else if (y === 1) regs.r = regs.a;                 // LD R,A
+          else if (y === 2 || y === 3) {                     // LD A,I / LD A,R (P/V = IFF2)
+            regs.a = y === 2 ? regs.i : regs.r;
+            setFlags((f & FLAG_C) | (sz53p(regs.a) & ~FLAG_PV) | (state.interrupts.iff2 ? FLAG_PV : 0));
+          }
+          else if (y === 4 || y === 5) {                     // RRD / RLD
+            memAddr = getHL();
+            const res = (y === 4 ? rrd : rld)(regs.a, rb(memAddr), f);
+            regs.a = res.a;
+            wb(memAddr, res.mem);
+            setFlags(res.f);
+          }
+          break;
+      }
+      return;
+    }
+
+    if (x === 2 && z <= 3 && y >= 4) {
+      // Block instructions: one iteration; repeating forms rewind PC by 2
+      const step = (y & 1) ? -1 : 1;
+      const repeat = y >= 6;
+      const hl = getHL();
+      let again = false;
+      if (z === 0) { // LDI / LDD / LDIR / LDDR
+        const val = rb(hl);
+        const de = getRP(1);
+        wb(de, val);
+        setHL(hl + step);
+        setRP(1, de + step);
+        const bc = (getRP(0) - 1) & 0xFFFF;
+        setRP(0, bc);
+        setFlags(ldiFlags(f, regs.a, val, bc));
+        again = bc !== 0;
+      } else if (z === 1) { // CPI / CPD / CPIR / CPDR
+        const val = rb(hl);
+        setHL(hl + step);
+        const bc = (getRP(0) - 1) & 0xFFFF;
+        setRP(0, bc);
+        setFlags(cpiFlags(f, regs.a, val, bc));
+        again = bc !== 0 && regs.a !== val;
+      } else if (z === 2) { // INI / IND / INIR / INDR
+        const val = readIoPort(state, regs.c);
+        wb(hl, val);
+        setHL(hl + step);
+        regs.b = (regs.b - 1) & 0xFF;
+        setFlags(ioBlockFlags(regs.b, val, val + ((regs.c + step) & 0xFF)));
+        again = regs.b !== 0;
+      } else { // OUTI / OUTD / OTIR / OTDR
+        const val = rb(hl);
+        regs.b = (regs.b - 1) & 0xFF;
+        writeIoPort(state, regs.c, val);
+        setHL(hl + step);
+        setFlags(ioBlockFlags(regs.b, val, val + regs.l));
+        again = regs.b !== 0;
+      }
+      if (repeat && again) regs.pc = (regs.pc - 2) & 0xFFFF;
+    }
+    // Anything else behind ED is a NOP
+  };
+
+  // --- UNPREFIXED / DD / FD OPCODES ---
+  const executeMain = (op: number) => {
+    const x = op >> 6, y = (op >> 3) & 7, z = op & 7, p = y >> 1, q = y & 1;
+
+    if (x === 1) {
+      if (op === 0x76) {
+        regs.pc = (regs.pc - 1) & 0xFFFF; // HALT: stay on the instruction
+        return;
+      }
+      // LD r,r' ; with (IX+d) the other operand uses the real H/L
+      const usesMem = y === 6 || z === 6;
+      if (usesMem) resolveMem();
+      setR(y, getR(z, !usesMem), !usesMem);
+      return;
+    }
+
+    if (x === 2) {
+      if (z === 6) resolveMem();
+      const res = ALU_OPS[y](regs.a, getR(z), f);
+      if (typeof res === 'number') setFlags(res);
+      else { regs.a = res.value; setFlags(res.f); }
+      return;
+    }
+
+    if (x === 0) {
+      switch (z) {
+        case 0:
+          if (y === 1) { // EX AF,AF'
+            const af = (regs.a << 8) | f;
+            const alt = regs.af_ || 0;
+            regs.a = alt >> 8;
+            setFlags(alt & 0xFF);
+            regs.af_ = af;
+          } else if (y === 2) { // DJNZ
+            const d = fetchDisp();
+            regs.b = (regs.b - 1) & 0xFF;
+            if (regs.b !== 0) regs.pc = (regs.pc + d) & 0xFFFF;
+          } else if (y >= 3) { // JR d / JR cc,d
+            const d = fetchDisp();
+            if (y === 3 || testCondition(y - 4, f)) regs.pc = (regs.pc + d) & 0xFFFF;
+          }
+          break;
+        case 1:
+          if (q === 0) setRP(p, fetchWord());
+          else {
+            const res = add16(getHL(), getRP(p), f);
+            setHL(res.value);
+            setFlags(res.f);
+          }
+          break;
+        case 2: {
+          if (p <= 1) {
+            const addr = getRP(p);
+            if (q === 0) wb(addr, regs.a); else regs.a = rb(addr);
+          } else {
+            const addr = fetchWord();
+            if (p === 2) {
+              if (q === 0) { const hl = getHL(); wb(addr, hl); wb(addr + 1, hl >> 8); }
+              else setHL(rb(addr) | (rb(addr + 1) << 8));
+            } else {
+              if (q === 0) wb(addr, regs.a); else regs.a = rb(addr);
+            }
+          }
+          break;
+        }
+        case 3:
+          setRP(p, getRP(p) + (q === 0 ? 1 : -1));
+          break;
+        case 4:
+        case 5: {
+          if (y === 6) resolveMem();
+          const res = (z === 4 ? inc8 : dec8)(getR(y), f);
+          setR(y, res.value);
+          setFlags(res.f);
+          break;
+        }
+        case 6:
+          if (y === 6) resolveMem();
+          setR(y, fetch());
+          break;
+        default: {
+          const ops = [rlca, rrca, rla, rra, daa8, cpl8];
+          if (y < 6) {
+            const res = ops[y](regs.a, f);
+            regs.a = res.value;
+            setFlags(res.f);
+          } else {
+            setFlags((y === 6 ? scf : ccf)(regs.a, f));
+          }
+        }
+      }
+      return;
+    }
+
+    // x === 3
+    switch (z) {
+      case 0:
+        if (testCondition(y, f)) regs.pc = pop();
+        break;
+      case 1:
+        if (q === 0) setRP(p, pop(), true);
+        else if (p === 0) regs.pc = pop();                  // RET
+        else if (p === 1) {                                 // EXX
+          const bc = getRP(0), de = getRP(1), hl = (regs.h << 8) | regs.l;
+          setRP(0, regs.bc_ || 0);
+          setRP(1, regs.de_ || 0);
+          regs.h = (regs.hl_ || 0) >> 8;
+          regs.l = (regs.hl_ || 0) & 0xFF;
+          regs.bc_ = bc; regs.de_ = de; regs.hl_ = hl;
+        }
+        else if (p === 2) regs.pc = getHL();                // JP (HL)
+        else regs.sp = getHL();                             // LD SP,HL
+        break;
+      case 2: {
+        const addr = fetchWord();
+        if (testCondition(y, f)) regs.pc = addr;
+        break;
+      }
+      case 3:
+        switch (y) {
+          case 0: regs.pc = fetchWord(); break;             // JP nn
+          case 2: writeIoPort(state, fetch(), regs.a); break; // OUT (n),A
+          case 3: regs.a = readIoPort(state, fetch()); break; // IN A,(n)
+          case 4: {                                         // EX (SP),HL
+            const val = rb(regs.sp) | (rb(regs.sp + 1) << 8);
+            const hl = getHL();
+            wb(regs.sp, hl);
+            wb(regs.sp + 1, hl >> 8);
+            setHL(val);
+            break;
+          }
+          case 5: {                                         // EX DE,HL (never indexed)
+            const de = getRP(1);
+            setRP(1, (regs.h << 8) | regs.l);
+            regs.h = de >> 8;
+            regs.l = de & 0xFF;
+            break;
+          }
+          default:                                          // DI / EI
+            state.interrupts.iff1 = y === 7;
+            state.interrupts.iff2 = y === 7;
+            break;
+        }
+        break;
+      case 4: {
+        const addr = fetchWord();
+        if (testCondition(y, f)) { push(regs.pc); regs.pc = addr; }
+        break;
+      }
+      case 5:
+        if (q === 0) push(getRP(p, true));
+        else { const addr = fetchWord(); push(regs.pc); regs.pc = addr; } // CALL nn
+        break;
+      case 6: {
+        const res = ALU_OPS[y](regs.a, fetch(), f);
+        if (typeof res === 'number') setFlags(res);
+        else { regs.a = res.value; setFlags(res.f); }
+        break;
+      }
+      default: // RST
+        push(regs.pc);
+        regs.pc = y * 8;
+    }
+  };
+
+  let op = fetch();
+  refresh();
+  while (op === 0xDD || op === 0xFD) {
+    prefix = op;
+    op = fetch();
+    refresh();
+  }
+  if (op === 0xCB) executeCB();
+  else if (op === 0xED) { prefix = 0; executeED(); }
+  else executeMain(op);
+
+  if (flagsWritten) state.flags = unpackFlags(f);
+};
+
+// --- INSTRUCTION CLASSIFICATION (for step over / step out) ---
+
+// Length of the CALL / RST at `addr`, or 0 when it is not a call
+export const getCallLength = (memory: Uint8Array, addr: number): number => {
+  const op = memory[addr & 0xFFFF];
+  if (op === 0xCD || (op & 0xC7) === 0xC4) return 3;
+  if ((op & 0xC7) === 0xC7) return 1;
+  return 0;
+};
+
+// RET, RET cc, RETI, RETN
+const isReturnAt = (memory: Uint8Array, addr: number): boolean => {
+  const op = memory[addr & 0xFFFF];
+  if (op === 0xC9 || (op & 0xC7) === 0xC0) return true;
+  return op === 0xED && (memory[(addr + 1) & 0xFFFF] & 0xC7) === 0x45;
+};
+
+// --- RUNNERS ---
+
+// Single instruction on a copy of the state (Step In)
+export const stepInstruction = (initialState: SimulationState, options: CpuOptions = {}): SimulationState => {
+  const state = cloneSimulationState(initialState);
+  executeInstruction(state, options);
+  return state;
+};
+
+/**
+ * Runs on a copy of the state until `stop` returns a reason, a breakpoint
+ * address is reached or the instruction limit is hit.
+ */
+const runUntil = (
+  initialState: SimulationState,
+  options: CpuOptions,
+  stop: (state: SimulationState, executedAt: number, wasReturn: boolean) => boolean,
+  breakpoints: Set<number>,
+  maxInstructions: number
+): CpuRunResult => {
+  const state = cloneSimulationState(initialState);
+  let instructions = 0;
+  while (instructions < maxInstructions) {
+    const pc = state.registers.pc;
+    const wasReturn = isReturnAt(state.memory, pc);
+    executeInstruction(state, options);
+    instructions++;
+    if (stop(state, pc, wasReturn)) return { state, instructions, reason: 'RETURNED' };
+    // Still on the HALT: no interrupt can end it (DI or IE0 off)
+    if (state.registers.pc === pc && state.memory[pc] === 0x76) return { state, instructions, reason: 'HALT' };
+    if (breakpoints.has(state.registers.pc)) return { state, instructions, reason: 'BREAKPOINT' };
+  }
+  return { state, instructions, reason: 'LIMIT' };
+};
+
+// Step Over: a CALL/RST runs until it returns to the next instruction
+export const stepOverInstruction = (
+  initialState: SimulationState,
+  options: CpuOptions = {},
+  breakpoints: Set<number> = new Set(),
+  maxInstructions: number = 50000
+): CpuRunResult => {
+  const pc = initialState.registers.pc;
+  const callLength = getCallLength(initialState.memory, pc);
+  const first = stepInstruction(initialState, options);
+  const sp = initialState.registers.sp;
+  // Not a call, or a conditional call that was not taken
+  if (!callLength || first.registers.sp !== ((sp - 2) & 0xFFFF)) {
+    return { state: first, instructions: 1, reason: 'RETURNED' };
+  }
+  const returnAddr = (pc + callLength) & 0xFFFF;
+  const rest = runUntil(first, options,
+    s => s.registers.pc === returnAddr && s.registers.sp === sp,
+    breakpoints, maxInstructions);
+  return { ...rest, instructions: rest.instructions + 1 };
+};
+
+// Step Out: runs until a return pops the current frame
+export const stepOutInstruction = (
+  initialState: SimulationState,
+  options: CpuOptions = {},
+  breakpoints: Set<number> = new Set(),
+  maxInstructions: number = 50000
+): CpuRunResult => {
+  const sp = initialState.registers.sp;
+  return runUntil(initialState, options,
+    (s, _pc, wasReturn) => wasReturn && s.registers.sp > sp,
+    breakpoints, maxInstructions);
+};
+
+// Entry points below $4000 without assembled code are BIOS calls to emulate,
+// unless a BIOS ROM of `romSize` bytes has the real code there
+export const createBiosStub = (addressLines: { [address: number]: number }, romSize: number = 0) =>
+  (addr: number): boolean => addr >= romSize && addr < 0x4000 && addressLines[addr] === undefined;
+
+// Maps the start address of every assembled instruction/data line to its source line
+export const buildAddressLineMap = (
+  lineAddresses: { [line: number]: number },
+  lineBytes: { [line: number]: number[] }
+): { [address: number]: number } => {
+  const map: { [address: number]: number } = {};
+  Object.keys(lineBytes).forEach(key => {
+    const line = Number(key);
+    const addr = lineAddresses[line];
+    if (addr !== undefined && map[addr] === undefined) map[addr] = line;
+  });
+  return map;
+};
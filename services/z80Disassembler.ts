@@ -0,0 +1,213 @@
+import { AnalysisResult } from "../types";
+import { MSX_KNOWLEDGE_BASE } from "./msxContext";
+
+/**
+ * DISASSEMBLER
+ * ------------
+ * Turns memory back into Z80 mnemonics for code that has no source line
+ * (BIOS ROM routines, code copied to RAM, data executed as code). Decoding
+ * uses the same x/y/z split as the CPU core:
+ *   x = bits 7-6, y = bits 5-3, z = bits 2-0, p = y >> 1, q = y & 1
+ * DD/FD turn HL into IX/IY, H/L into IXH/IXL and (HL) into (IX+d); a prefix
+ * followed by another prefix or ED does nothing and is shown as a NOP.
+ * Jump targets and (nn) operands are shown by name when a label is known.
+ */
+export interface DisassembledInstruction {
+  address: number;
+  bytes: number[];
+  text: string;
+}
+
+// Name for an address, or undefined to show it in hex
+export type LabelLookup = (address: number) => string | undefined;
+
+const R = ['B', 'C', 'D', 'E', 'H', 'L', '(HL)', 'A'];
+const RP = ['BC', 'DE', 'HL', 'SP'];
+const RP2 = ['BC', 'DE', 'HL', 'AF'];
+const CC = ['NZ', 'Z', 'NC', 'C', 'PO', 'PE', 'P', 'M'];
+const ALU = ['ADD A,', 'ADC A,', 'SUB ', 'SBC A,', 'AND ', 'XOR ', 'OR ', 'CP '];
+const ROT = ['RLC', 'RRC', 'RL', 'RR', 'SLA', 'SRA', 'SLL', 'SRL'];
+const ACC_OPS = ['RLCA', 'RRCA', 'RLA', 'RRA', 'DAA', 'CPL', 'SCF', 'CCF'];
+const IM_MODES = ['0', '0', '1', '2', '0', '0', '1', '2'];
+const ED_X1_Z7 = ['LD I,A', 'LD R,A', 'LD A,I', 'LD A,R', 'RRD', 'RLD', 'NOP', 'NOP'];
+const BLOCK_OPS = [
+  ['LDI', 'CPI', 'INI', 'OUTI'],
+  ['LDD', 'CPD', 'IND', 'OUTD'],
+  ['LDIR', 'CPIR', 'INIR', 'OTIR'],
+  ['LDDR', 'CPDR', 'INDR', 'OTDR']
+];
+
+const hex2 = (val: number) => `$${val.toString(16).toUpperCase().padStart(2, '0')}`;
+const hex4 = (val: number) => `$${val.toString(16).toUpperCase().padStart(4, '0')}`;
+const signed = (d: number) => d < 0x80 ? d : d - 0x100;
+// +d / -d as written after IX or IY
+const formatDisp = (d: number): string => d < 0 ? `-${hex2(-d)}` : `+${hex2(d)}`;
+
+export const disassembleInstruction = (
+  memory: Uint8Array,
+  address: number,
+  labelAt: LabelLookup = () => undefined
+): DisassembledInstruction => {
+  let pc = address & 0xFFFF;
+  const bytes: number[] = [];
+  const fetch = (): number => {
+    const val = memory[pc];
+    bytes.push(val);
+    pc = (pc + 1) & 0xFFFF;
+    return val;
+  };
+  const fetchWord = (): number => fetch() | (fetch() << 8);
+  const target = (addr: number) => labelAt(addr) ?? hex4(addr);
+  const result = (text: string): DisassembledInstruction => ({ address: address & 0xFFFF, bytes, text });
+
+  let op = fetch();
+  let index: string | null = null;
+  if (op === 0xDD || op === 0xFD) {
+    const next = memory[pc];
+    if (next === 0xDD || next === 0xFD || next === 0xED) return result('NOP');
+    index = op === 0xDD ? 'IX' : 'IY';
+    op = fetch();
+  }
+
+  // --- CB: rotations, shifts and bit operations ---
+  if (op === 0xCB) {
+    const mem = index ? `(${index}${formatDisp(signed(fetch()))})` : null;
+    const cb = fetch();
+    const x = cb >> 6, y = (cb >> 3) & 7, z = cb & 7;
+    // DDCB with a register other than (HL): the result is also copied to it
+    const operand = mem ? (z === 6 || x === 1 ? mem : `${mem},${R[z]}`) : R[z];
+    if (x === 0) return result(`${ROT[y]} ${operand}`);
+    return result(`${['', 'BIT', 'RES', 'SET'][x]} ${y},${operand}`);
+  }
+
+  // --- ED ---
+  if (op === 0xED) {
+    const ed = fetch();
+    const x = ed >> 6, y = (ed >> 3) & 7, z = ed & 7, p = y >> 1, q = y & 1;
+    if (x === 1) {
+      switch (z) {
+        case 0: return result(y === 6 ? 'IN (C)' : `IN ${R[y]},(C)`);
+        case 1: return result(y === 6 ? 'OUT (C),0' : `OUT (C),${R[y]}`);
+        case 2: return result(`${q ? 'ADC' : 'SBC'} HL,${RP[p]}`);
+        case 3: {
+          const nn = target(fetchWord());
+          return result(q ? `LD ${RP[p]},(${nn})` : `LD (${nn}),${RP[p]}`);
+        }
+        case 4: return result('NEG');
+        case 5: return result(y === 1 ? 'RETI' : 'RETN');
+        case 6: return result(`IM ${IM_MODES[y]}`);
+        default: return result(ED_X1_Z7[y]);
+      }
+    }
+    if (x === 2 && y >= 4 && z <= 3) return result(BLOCK_OPS[y - 4][z]);
+    return result(`DB $ED,${hex2(ed)}`);
+  }
+
+  // --- UNPREFIXED (or DD/FD on HL) ---
+  const x = op >> 6, y = (op >> 3) & 7, z = op & 7, p = y >> 1, q = y & 1;
+  const hl = index || 'HL';
+  const rp = (i: number) => i === 2 ? hl : RP[i];
+  const rp2 = (i: number) => i === 2 ? hl : RP2[i];
+  // `plainHL`: the other operand is (IX+d), so H and L keep their meaning
+  const reg = (i: number, plainHL: boolean = false): string => {
+    if (!index) return R[i];
+    if (i === 6) return `(${index}${formatDisp(signed(fetch()))})`;
+    if ((i === 4 || i === 5) && !plainHL) return `${index}${i === 4 ? 'H' : 'L'}`;
+    return R[i];
+  };
+  const relative = (): string => {
+    const d = signed(fetch());
+    return target((pc + d) & 0xFFFF);
+  };
+
+  if (x === 0) {
+    switch (z) {
+      case 0:
+        if (y === 0) return result('NOP');
+        if (y === 1) return result("EX AF,AF'");
+        if (y === 2) return result(`DJNZ ${relative()}`);
+        if (y === 3) return result(`JR ${relative()}`);
+        return result(`JR ${CC[y - 4]},${relative()}`);
+      case 1:
+        return result(q ? `ADD ${hl},${rp(p)}` : `LD ${rp(p)},${hex4(fetchWord())}`);
+      case 2: {
+        if (p < 2) return result(q ? `LD A,(${RP[p]})` : `LD (${RP[p]}),A`);
+        const nn = target(fetchWord());
+        const r = p === 2 ? hl : 'A';
+        return result(q ? `LD ${r},(${nn})` : `LD (${nn}),${r}`);
+      }
+      case 3: return result(`${q ? 'DEC' : 'INC'} ${rp(p)}`);
+      case 4: return result(`INC ${reg(y)}`);
+      case 5: return result(`DEC ${reg(y)}`);
+      case 6: {
+        const dst = reg(y);
+        return result(`LD ${dst},${hex2(fetch())}`);
+      }
+      default: return result(ACC_OPS[y]);
+    }
+  }
+
+  if (x === 1) {
+    if (op === 0x76) return result('HALT');
+    const indexed = y === 6 || z === 6;
+    const dst = reg(y, indexed);
+    const src = reg(z, indexed);
+    return result(`LD ${dst},${src}`);
+  }
+
+  if (x === 2) return result(`${ALU[y]}${reg(z)}`);
+
+  switch (z) {
+    case 0: return result(`RET ${CC[y]}`);
+    case 1:
+      if (!q) return result(`POP ${rp2(p)}`);
+      return result(['RET', 'EXX', `JP (${hl})`, `LD SP,${hl}`][p]);
+    case 2: return result(`JP ${CC[y]},${target(fetchWord())}`);
+    case 3:
+      switch (y) {
+        case 0: return result(`JP ${target(fetchWord())}`);
+        case 2: return result(`OUT (${hex2(fetch())}),A`);
+        case 3: return result(`IN A,(${hex2(fetch())})`);
+        case 4: return result(`EX (SP),${hl}`);
+        case 5: return result('EX DE,HL');
+        case 6: return result('DI');
+        default: return result('EI');
+      }
+    case 4: return result(`CALL ${CC[y]},${target(fetchWord())}`);
+    case 5:
+      if (!q) return result(`PUSH ${rp2(p)}`);
+      return result(`CALL ${target(fetchWord())}`);
+    case 6: return result(`${ALU[y]}${hex2(fetch())}`);
+    default: return result(`RST ${hex2(y * 8)}`);
+  }
+};
+
+// `count` consecutive instructions starting at `address`
+export const disassembleRange = (
+  memory: Uint8Array,
+  address: number,
+  count: number,
+  labelAt?: LabelLookup
+): DisassembledInstruction[] => {
+  const out: DisassembledInstruction[] = [];
+  let addr = address & 0xFFFF;
+  for (let i = 0; i < count; i++) {
+    const instr = disassembleInstruction(memory, addr, labelAt);
+    out.push(instr);
+    addr = (addr + instr.bytes.length) & 0xFFFF;
+  }
+  return out;
+};
+
+// Program labels first, then the MSX BIOS entry points and system variables
+export const createLabelLookup = (analysis: AnalysisResult | null): LabelLookup => {
+  const names: { [address: number]: string } = {};
+  Object.values(MSX_KNOWLEDGE_BASE).forEach(entry => { names[entry.address] = entry.label; });
+  if (analysis) {
+    Object.entries(analysis.labels).forEach(([label, line]) => {
+      const addr = analysis.lineAddresses[line];
+      if (addr !== undefined) names[addr] = label;
+    });
+  }
+  return (address: number) => names[address];
+};
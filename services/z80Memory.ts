@@ -0,0 +1,47 @@
+import { MemoryVariable } from "../types";
+
+/**
+ * FLAT 64KB ADDRESS SPACE
+ * -----------------------
+ * RAM is a single Uint8Array indexed by Z80 address. Labels are only views
+ * over it (symbol address + size), so two labels that alias the same byte
+ * always read the same value.
+ *
+ * The UI treats these arrays as immutable: the simulator copies the memory
+ * once per step (or once per executeSubroutine run) and writes into the copy,
+ * so history snapshots can keep a reference instead of cloning 64KB.
+ */
+export const MEMORY_SIZE = 0x10000;
+
+export type Memory = Uint8Array;
+
+// New address space, optionally based on an existing one, with the static
+// DB/DW bytes from the analysis written on top
+export const createMemory = (memoryMap?: { [address: number]: number }, base?: Memory): Memory => {
+  const mem = base ? base.slice() : new Uint8Array(MEMORY_SIZE);
+  if (memoryMap) {
+    for (const [addr, val] of Object.entries(memoryMap)) {
+      mem[Number(addr) & 0xFFFF] = val & 0xFF;
+    }
+  }
+  return mem;
+};
+
+export const readMem = (mem: Memory, addr: number): number => mem[addr & 0xFFFF];
+
+export const readMemWord = (mem: Memory, addr: number): number =>
+  mem[addr & 0xFFFF] | (mem[(addr + 1) & 0xFFFF] << 8);
+
+// Parses the '$C000' style address kept on MemoryVariable
+export const variableAddress = (variable: MemoryVariable): number | null => {
+  if (!variable.address) return null;
+  const addr = parseInt(variable.address.replace(/^[$#]/, ''), 16);
+  return isNaN(addr) ? null : addr;
+};
+
+// Current value of a label view (little endian for words)
+export const readVariable = (mem: Memory, variable: MemoryVariable): number | null => {
+  const addr = variableAddress(variable);
+  if (addr === null) return null;
+  return (variable.size || 1) >= 2 ? readMemWord(mem, addr) : readMem(mem, addr);
+};
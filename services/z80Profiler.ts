@@ -0,0 +1,112 @@
+import { SimulationState, executeSubroutine } from "./z80Simulator";
+import { FRAME_CYCLES, FrameStandard } from "./z80Timing";
+
+/**
+ * CYCLE-BUDGET PROFILER
+ * ---------------------
+ * Runs a routine through executeSubroutine and attributes every T-state to
+ * the user routine (label entered by CALL) that was executing it:
+ *   - exclusive: T-states of the routine's own lines
+ *   - inclusive: exclusive + everything called from it (recursion counted once)
+ * Jumps (JP/JR) into another label stay attributed to the calling routine.
+ * Frame interrupts taken during the run get their own row ("INT H.TIMI",
+ * "INT KEYINT", "INT IM 2") for the handler they run. Time spent in HALT
+ * waiting for the next VBLANK is not work: it goes to a separate HALT/idle
+ * row and stays out of every routine's cycles and the total.
+ *
+ * The run ends when the routine returns, or when it comes back to its first
+ * line (one iteration of a main loop such as `GAMELOOP: ... JP GAMELOOP`).
+ */
+
+const IDLE_LABEL = 'HALT/idle';
+
+export interface ProfileEntry {
+  label: string;
+  line: number;       // Source line of the label
+  calls: number;
+  inclusive: number;  // T-states
+  exclusive: number;  // T-states
+}
+
+export interface ProfileResult {
+  rootLabel: string;
+  totalCycles: number;
+  instructions: number;
+  completed: boolean; // False when the step limit stopped the run before the routine returned / looped
+  entries: ProfileEntry[];
+}
+
+// Label owning a line: the closest label at or before it
+const enclosingLabel = (line: number, labels: { [label: string]: number }): string | null => {
+  let best: string | null = null;
+  for (const [label, labelLine] of Object.entries(labels)) {
+    if (labelLine <= line && (best === null || labelLine > labels[best])) best = label;
+  }
+  return best;
+};
+
+export const profileSubroutine = (
+  startLine: number,
+  initialState: SimulationState,
+  lines: string[],
+  labels: { [label: string]: number },
+  symbolTable: { [label: string]: number },
+  maxSteps: number = 50000
+): ProfileResult => {
+  const rootLabel = enclosingLabel(startLine, labels) || `LINE ${startLine}`;
+  const entries = new Map<string, ProfileEntry>();
+  const entryFor = (label: string, line?: number): ProfileEntry => {
+    let entry = entries.get(label);
+    if (!entry) {
+      entry = { label, line: line || labels[label] || startLine, calls: 0, inclusive: 0, exclusive: 0 };
+      entries.set(label, entry);
+    }
+    return entry;
+  };
+
+  const stack: string[] = [rootLabel];
+  entryFor(rootLabel).calls = 1;
+  let instructions = 0;
+
+  executeSubroutine(startLine, initialState, lines, labels, symbolTable, maxSteps, {
+    onLine: (_line, cycles) => {
+      instructions++;
+      entryFor(stack[stack.length - 1]).exclusive += cycles;
+      new Set(stack).forEach(label => { entryFor(label).inclusive += cycles; });
+    },
+    onHalt: (line, idle) => {
+      const entry = entryFor(IDLE_LABEL, line);
+      entry.calls++;
+      entry.inclusive += idle;
+      entry.exclusive += idle;
+    },
+    onCall: (label, line) => {
+      entryFor(label, line).calls++;
+      stack.push(label);
+    },
+    onReturn: () => {
+      if (stack.length > 1) stack.pop();
+    },
+    shouldStop: (line) => instructions > 0 && line === startLine && stack.length === 1
+  });
+
+  return {
+    rootLabel,
+    totalCycles: entryFor(rootLabel).inclusive,
+    instructions,
+    completed: instructions < maxSteps,
+    entries: Array.from(entries.values())
+  };
+};
+
+// Frame share in percent
+export const frameShare = (cycles: number, frame: FrameStandard): number => (cycles / FRAME_CYCLES[frame]) * 100;
+
+export const profileToCsv = (profile: ProfileResult, frame: FrameStandard): string => {
+  const header = `Label,Line,Calls,Inclusive T,Exclusive T,Inclusive % ${frame} frame,Exclusive % ${frame} frame`;
+  const rows = profile.entries.map(e => [
+    e.label, e.line, e.calls, e.inclusive, e.exclusive,
+    frameShare(e.inclusive, frame).toFixed(2), frameShare(e.exclusive, frame).toFixed(2)
+  ].join(','));
+  return [header, ...rows].join('\n');
+};
@@ -1,6 +1,19 @@
 
-import { Z80Flags, Z80Registers, VDPState } from "../types";
+import { Z80Flags, Z80Registers, VDPState, PSGState, InterruptState, BlockOpSummary, RegisterName } from "../types";
 import { getMSXInfo } from "./msxContext";
+import {
+  packFlags, unpackFlags, FLAG_C, FLAG_PV, FLAG_S, FLAG_Z,
+  add8, sub8, cp8, and8, or8, xor8, inc8, dec8, neg8, cpl8, daa8, scf, ccf,
+  add16, adc16, sbc16, rlca, rrca, rla, rra, shift8, SHIFT_OPS, ShiftOp, bitTest, rld, rrd,
+  ldiFlags, cpiFlags, ioBlockFlags, sz53p
+} from "./z80Alu";
+import { Memory } from "./z80Memory";
+import { getSourceTiming } from "./z80Timing";
+import { cloneVdpState } from "./vdp";
+import { readIoPort, writeIoPort } from "./msxIo";
+import { clonePsgState } from "./psg";
+import { H_TIMI, cloneInterruptState, waitForInterrupt, isInterruptPending, acceptInterrupt, resolveHookJump, leaveKeyintHook } from "./interrupts";
+import { applyBiosCall, settleClobbered, watchRegisterWrites } from "./biosHle";
 
 // Helper to parse numerical values
 const parseValue = (valStr: string): number | null => {
@@ -29,13 +42,43 @@ const parseValue = (valStr: string): number | null => {
   return null;
 };
 
+const REG8 = ['A','B','C','D','E','H','L','IXH','IXL','IYH','IYL'];
+
+// Mnemonics encoded behind the ED / CB prefixes (used for R register refresh)
+const ED_OPCODES = new Set(['NEG','RETN','RETI','IM','RLD','RRD','LDI','LDD','LDIR','LDDR','CPI','CPD','CPIR','CPDR','INI','IND','INIR','INDR','OUTI','OUTD','OTIR','OTDR']);
+const CB_OPCODES = new Set(['BIT','SET','RES','RLC','RRC','RL','RR','SLA','SRA','SLL','SRL']);
+
 export interface SimulationState {
   registers: Z80Registers;
   flags: Z80Flags;
-  memory: { [name: string]: number };
+  memory: Memory; // Flat 64KB address space (see z80Memory)
   vdp: VDPState;
+  psg: PSGState;
+  interrupts: InterruptState; // IFF1/IFF2, IM and the frame timer (see interrupts)
+  clobbered: RegisterName[]; // Left undefined by a BIOS call (see biosHle)
+  tStates: number; // Running T-state total (MSX timing, see z80Timing)
+  lastBlockOp?: BlockOpSummary | null; // Set when the simulated line was a block instruction
+  lastIdle?: number; // T-states the simulated line spent halted until the frame interrupt
 }
 
+/**
+ * BLOCK INSTRUCTIONS
+ * ------------------
+ * T-States per iteration come from the timing table: on MSX a repeating
+ * instruction costs 23 while it loops back and 18 on the final iteration.
+ * The single forms cost 18.
+ */
+const BLOCK_OPS: { [op: string]: { kind: 'LD' | 'CP' | 'IN' | 'OUT'; step: 1 | -1; repeat: boolean } } = {
+  LDI:  { kind: 'LD',  step: 1,  repeat: false }, LDIR: { kind: 'LD',  step: 1,  repeat: true },
+  LDD:  { kind: 'LD',  step: -1, repeat: false }, LDDR: { kind: 'LD',  step: -1, repeat: true },
+  CPI:  { kind: 'CP',  step: 1,  repeat: false }, CPIR: { kind: 'CP',  step: 1,  repeat: true },
+  CPD:  { kind: 'CP',  step: -1, repeat: false }, CPDR: { kind: 'CP',  step: -1, repeat: true },
+  INI:  { kind: 'IN',  step: 1,  repeat: false }, INIR: { kind: 'IN',  step: 1,  repeat: true },
+  IND:  { kind: 'IN',  step: -1, repeat: false }, INDR: { kind: 'IN',  step: -1, repeat: true },
+  OUTI: { kind: 'OUT', step: 1,  repeat: false }, OTIR: { kind: 'OUT', step: 1,  repeat: true },
+  OUTD: { kind: 'OUT', step: -1, repeat: false }, OTDR: { kind: 'OUT', step: -1, repeat: true },
+};
+
 /**
  * Z80 JUMP CONDITION LIST
  * -----------------------
@@ -48,38 +91,51 @@ export interface SimulationState {
  * P  : Plus/Positive (S = 0)
  * M  : Minus/Negative(S = 1)
  */
-export const checkCondition = (condition: string, flags: Z80Flags): boolean => {
+export const checkCondition = (condition: string, flags: Z80Flags | number): boolean => {
+  // Accepts either the flag record or the packed F register byte
+  const f = typeof flags === 'number' ? flags : packFlags(flags);
   const c = condition.trim().toUpperCase();
   switch (c) {
-    case 'NZ': return !flags.z;
-    case 'Z': return flags.z;
-    case 'NC': return !flags.c;
-    case 'C': return flags.c;
-    case 'P': return !flags.s;     // Positive
-    case 'M': return flags.s;      // Minus
-    case 'PO': return !flags.pv;   // Parity Odd
-    case 'PE': return flags.pv;    // Parity Even
-    default: return true;          // Unconditional
+    case 'NZ': return (f & FLAG_Z) === 0;
+    case 'Z': return (f & FLAG_Z) !== 0;
+    case 'NC': return (f & FLAG_C) === 0;
+    case 'C': return (f & FLAG_C) !== 0;
+    case 'P': return (f & FLAG_S) === 0;     // Positive
+    case 'M': return (f & FLAG_S) !== 0;     // Minus
+    case 'PO': return (f & FLAG_PV) === 0;   // Parity Odd
+    case 'PE': return (f & FLAG_PV) !== 0;   // Parity Even
+    default: return true;                    // Unconditional
   }
 };
 
+export const cloneSimulationState = (state: SimulationState): SimulationState => ({
+    registers: { ...state.registers },
+    flags: { ...state.flags },
+    memory: state.memory.slice(),
+    vdp: cloneVdpState(state.vdp),
+    psg: clonePsgState(state.psg),
+    interrupts: cloneInterruptState(state.interrupts),
+    clobbered: [...state.clobbered],
+    tStates: state.tStates,
+    lastBlockOp: state.lastBlockOp || null
+});
+
+// Pure variant used by the UI: every step gets its own copy of the state
 export const simulateLine = (
   lineCode: string, 
   currentState: SimulationState,
-  symbolTable: { [label: string]: number },
-  memoryMap?: { [address: number]: number } 
+  symbolTable: { [label: string]: number }
+): SimulationState => executeLine(lineCode, cloneSimulationState(currentState), symbolTable);
+
+// Executes one source line IN PLACE on the given state (used by the run loops,
+// which clone once up front instead of once per instruction)
+export const executeLine = (
+  lineCode: string, 
+  nextState: SimulationState,
+  symbolTable: { [label: string]: number }
 ): SimulationState => {
-  const nextState = {
-    registers: { ...currentState.registers },
-    flags: { ...currentState.flags },
-    memory: { ...currentState.memory },
-    vdp: { 
-        vram: [...currentState.vdp.vram], 
-        addressRegister: currentState.vdp.addressRegister,
-        writeLatch: currentState.vdp.writeLatch,
-        registerLatch: currentState.vdp.registerLatch
-    }
-  };
+  nextState.lastBlockOp = null;
+  nextState.lastIdle = 0;
 
   const clean = lineCode.split(';')[0].trim();
   if (!clean) return nextState;
@@ -101,6 +157,23 @@ export const simulateLine = (
   const arg0 = args[0] ? args[0].toUpperCase() : '';
   const arg1 = args[1] ? args[1].toUpperCase() : '';
 
+  // Cost of the line; conditions are evaluated on the flags before execution
+  const timing = getSourceTiming(opcode, operands);
+  const flagsBefore = packFlags(nextState.flags);
+  const watch = watchRegisterWrites(nextState);
+
+  // Memory refresh: R counts opcode fetches (7 bits); prefixed instructions fetch twice.
+  // Only lines that assemble to an opcode fetch; block instructions refresh per iteration.
+  const refresh = (fetches: number) => {
+    const r = nextState.registers.r || 0;
+    nextState.registers.r = (r & 0x80) | ((r + fetches) & 0x7F);
+  };
+  const isPrefixed = /\b(IX|IY|IXH|IXL|IYH|IYL)\b|\(I[XY]/.test(operands.toUpperCase())
+      || ED_OPCODES.has(opcode) || CB_OPCODES.has(opcode)
+      || ((opcode === 'ADC' || opcode === 'SBC') && arg0 === 'HL')
+      || (opcode === 'LD' && (['I','R'].includes(arg0) || ['I','R'].includes(arg1)));
+  if (timing && !BLOCK_OPS[opcode]) refresh(isPrefixed ? 2 : 1);
+
   const resolveValue = (valStr: string): number | null => {
     // 1. Try Direct Parse (Handles Hex, Dec, Bin, simple '*')
     const direct = parseValue(valStr);
@@ -142,78 +215,52 @@ export const simulateLine = (
     return null;
   };
 
-  // Helper to find reverse label for address (for updating named variables in liveMemory)
-  const findLabelForAddress = (addr: number): string | null => {
-      // Prioritize exact match
-      const entry = Object.entries(symbolTable).find(([_, val]) => val === addr);
-      return entry ? entry[0] : null;
-  };
-
-  const readByte = (addr: number): number => {
-      // 1. Check if dynamic memory has this address via a Label name
-      const label = findLabelForAddress(addr);
-      if (label && nextState.memory[label] !== undefined) return nextState.memory[label];
-      
-      // 2. Check if dynamic memory has this address directly or stack key
-      const stackKey = `STACK:${addr}`;
-      if (nextState.memory[stackKey] !== undefined) return nextState.memory[stackKey];
-
-      // 3. Check Static Map (Source code DB/DW data)
-      if (memoryMap && memoryMap[addr] !== undefined) return memoryMap[addr];
-      
-      return 0;
-  };
+  // Memory access (flat address space, static DB/DW data is seeded by the caller)
+  const readByte = (addr: number): number => nextState.memory[addr & 0xFFFF];
 
   const writeByte = (addr: number, val: number) => {
-      const v = val & 0xFF;
-      // 1. If we have a label for this address, update by name (so UI sees it)
-      const label = findLabelForAddress(addr);
-      if (label) {
-          nextState.memory[label] = v;
-      }
-      // 2. Always store in generic stack/RAM map for persistence
-      nextState.memory[`STACK:${addr}`] = v;
+      nextState.memory[addr & 0xFFFF] = val & 0xFF;
   };
 
-  // Helpers for Flag Calculation
-  const calculateParity = (val: number): boolean => {
-      let v = val & 0xFF;
-      v ^= v >> 4;
-      v ^= v >> 2;
-      v ^= v >> 1;
-      return (~v & 1) === 1; // Even parity -> 1
-  };
+  // Helpers for Flag Calculation (F is handled as a packed byte, see z80Alu)
+  const getF = (): number => packFlags(nextState.flags);
+  const setF = (f: number) => { nextState.flags = unpackFlags(f); };
 
-  const updateFlagsLogic = (val: number, isLogicOp: boolean) => {
-      nextState.flags.z = (val & 0xFF) === 0;
-      nextState.flags.s = (val & 0x80) !== 0; // Bit 7 set
-      if (isLogicOp) {
-          nextState.flags.pv = calculateParity(val);
-      }
-  };
+  const isReg8 = (name: string) => REG8.includes(name);
 
   const setReg = (name: string, val: number) => {
       const v = val & 0xFF;
+      const regs = nextState.registers;
       switch(name) {
-          case 'A': nextState.registers.a = v; break;
-          case 'B': nextState.registers.b = v; break;
-          case 'C': nextState.registers.c = v; break;
-          case 'D': nextState.registers.d = v; break;
-          case 'E': nextState.registers.e = v; break;
-          case 'H': nextState.registers.h = v; break;
-          case 'L': nextState.registers.l = v; break;
+          case 'A': regs.a = v; break;
+          case 'B': regs.b = v; break;
+          case 'C': regs.c = v; break;
+          case 'D': regs.d = v; break;
+          case 'E': regs.e = v; break;
+          case 'H': regs.h = v; break;
+          case 'L': regs.l = v; break;
+          // Undocumented halves of the index registers
+          case 'IXH': regs.ix = (v << 8) | (regs.ix & 0xFF); break;
+          case 'IXL': regs.ix = (regs.ix & 0xFF00) | v; break;
+          case 'IYH': regs.iy = (v << 8) | (regs.iy & 0xFF); break;
+          case 'IYL': regs.iy = (regs.iy & 0xFF00) | v; break;
       }
   };
 
   const getReg = (name: string): number => {
+      const regs = nextState.registers;
       switch(name) {
-          case 'A': return nextState.registers.a;
-          case 'B': return nextState.registers.b;
-          case 'C': return nextState.registers.c;
-          case 'D': return nextState.registers.d;
-          case 'E': return nextState.registers.e;
-          case 'H': return nextState.registers.h;
-          case 'L': return nextState.registers.l;
+          case 'A': return regs.a;
+          case 'B': return regs.b;
+          case 'C': return regs.c;
+          case 'D': return regs.d;
+          case 'E': return regs.e;
+          case 'H': return regs.h;
+          case 'L': return regs.l;
+          case 'IXH': return (regs.ix >> 8) & 0xFF;
+          case 'IXL': return regs.ix & 0xFF;
+          case 'IYH': return (regs.iy >> 8) & 0xFF;
+          case 'IYL': return regs.iy & 0xFF;
           default: return 0;
       }
   };
@@ -224,12 +271,12 @@ export const simulateLine = (
       if (pair === 'HL') { nextState.registers.h = high; nextState.registers.l = low; }
       else if (pair === 'BC') { nextState.registers.b = high; nextState.registers.c = low; }
       else if (pair === 'DE') { nextState.registers.d = high; nextState.registers.e = low; }
+      else if (pair === 'IX') { nextState.registers.ix = val & 0xFFFF; }
+      else if (pair === 'IY') { nextState.registers.iy = val & 0xFFFF; }
+      else if (pair === 'SP') { nextState.registers.sp = val & 0xFFFF; }
       else if (pair === 'AF') { 
           nextState.registers.a = high; 
-          nextState.flags.z = (low & 0x40) !== 0;
-          nextState.flags.s = (low & 0x80) !== 0;
-          nextState.flags.c = (low & 0x01) !== 0;
-          nextState.flags.pv = (low & 0x04) !== 0;
+          setF(low);
       }
   };
   
@@ -237,50 +284,79 @@ export const simulateLine = (
       if (pair === 'HL') return (nextState.registers.h << 8) | nextState.registers.l;
       if (pair === 'BC') return (nextState.registers.b << 8) | nextState.registers.c;
       if (pair === 'DE') return (nextState.registers.d << 8) | nextState.registers.e;
-      if (pair === 'AF') {
-          let f = 0;
-          if(nextState.flags.z) f |= 0x40;
-          if(nextState.flags.s) f |= 0x80;
-          if(nextState.flags.c) f |= 0x01;
-          if(nextState.flags.pv) f |= 0x04;
-          return (nextState.registers.a << 8) | f;
-      }
+      if (pair === 'IX') return nextState.registers.ix;
+      if (pair === 'IY') return nextState.registers.iy;
+      if (pair === 'SP') return nextState.registers.sp;
+      if (pair === 'AF') return (nextState.registers.a << 8) | getF();
       return 0;
   };
 
+  // Effective address of (IX+d) / (IY-d) / (IX). Returns null for any other operand.
+  const getIndexedAddress = (opStr: string): number | null => {
+      const m = opStr.replace(/\s+/g, '').match(/^\((IX|IY)(?:([+-])(.+))?\)$/);
+      if (!m) return null;
+      let disp = 0;
+      if (m[3]) {
+          const val = resolveValue(m[3]);
+          if (val === null) return null;
+          disp = m[2] === '-' ? -val : val;
+      }
+      // Displacement is a signed byte
+      disp = ((disp & 0xFF) ^ 0x80) - 0x80;
+      return (getPair(m[1]) + disp) & 0xFFFF;
+  };
+
+  // Address of a byte memory operand usable by ALU/bit ops: (HL), (IX+d), (IY+d)
+  const getMemOperandAddress = (opStr: string): number | null => {
+      if (opStr === '(HL)') return getPair('HL');
+      return getIndexedAddress(opStr);
+  };
+
   // Helper for ALU operations to resolve Register or Value
   const getOperandValue = (opStr: string): number | null => {
-      if (['A','B','C','D','E','H','L'].includes(opStr)) {
+      if (isReg8(opStr)) {
           return getReg(opStr);
       }
-      // Handle (HL)
-      if (opStr === '(HL)') {
-          const addr = getPair('HL');
-          return readByte(addr);
-      }
+      // Handle (HL), (IX+d), (IY+d)
+      const memAddr = getMemOperandAddress(opStr);
+      if (memAddr !== null) return readByte(memAddr);
       
       return resolveValue(opStr);
   };
 
+  // ALU source operand: accepts both "SUB n" and "SUB A,n" forms
+  const getAluSource = (): number | null => {
+      if (args.length > 1 && arg0 === 'A') return getOperandValue(arg1);
+      return getOperandValue(arg0);
+  };
+
+  // --- I/O PORTS (see msxIo) ---
+  const writePort = (port: number, val: number) => writeIoPort(nextState, port, val);
+  const readPort = (port: number): number => readIoPort(nextState, port);
+
   // --- INSTRUCTION LOGIC ---
 
   // 1. LD (Load)
   if (opcode === 'LD') {
-     const isReg8 = ['A','B','C','D','E','H','L'].includes(arg0);
-     const isReg16 = ['BC','DE','HL','SP','IX','IY'].includes(arg0);
+     const isDestReg16 = ['BC','DE','HL','SP','IX','IY'].includes(arg0);
 
-     if (isReg8) {
+     if (isReg8(arg0)) {
         // Destination is an 8-bit Register
-        if (['A','B','C','D','E','H','L'].includes(arg1)) {
+        if (isReg8(arg1)) {
             setReg(arg0, getReg(arg1));
+        } else if (arg0 === 'A' && (arg1 === 'I' || arg1 === 'R')) {
+            // LD A,I / LD A,R: S, Z from value, H = N = 0, P/V = IFF2
+            const val = arg1 === 'I' ? nextState.registers.i : nextState.registers.r;
+            setReg('A', val);
+            setF((getF() & FLAG_C) | (val & 0xA8) | (val === 0 ? FLAG_Z : 0) | (nextState.interrupts.iff2 ? FLAG_PV : 0));
         } else if (arg1.startsWith('(') && arg1.endsWith(')')) {
-             // Indirect Loading: LD r, (nn) or LD r, (HL/BC/DE)
+             // Indirect Loading: LD r, (nn) or LD r, (HL/BC/DE/IX+d/IY+d)
              const content = arg1.slice(1,-1).trim();
+             const memAddr = getMemOperandAddress(arg1);
 
              // Check Register Pairs first
-             if (content === 'HL') {
-                 const addr = getPair('HL');
-                 setReg(arg0, readByte(addr));
+             if (memAddr !== null) {
+                 setReg(arg0, readByte(memAddr));
              } else if (content === 'BC' && arg0 === 'A') {
                  // LD A, (BC)
                  const addr = getPair('BC');
@@ -289,17 +365,11 @@ export const simulateLine = (
                  // LD A, (DE)
                  const addr = getPair('DE');
                  setReg(arg0, readByte(addr));
-             } else if (content.startsWith('IX') || content.startsWith('IY')) {
-                 // Simplified Indexing support (Treat as offset 0 for now)
-                 const reg = content.substring(0, 2);
-                 setReg(arg0, readByte(getPair(reg))); 
              } else {
                  // Absolute Address: LD A, (nn)
                  const addr = resolveValue(content);
                  if (addr !== null) {
                      setReg(arg0, readByte(addr));
-                 } else if (nextState.memory[content.toUpperCase()] !== undefined) {
-                     setReg(arg0, nextState.memory[content.toUpperCase()]);
                  } else {
                      setReg(arg0, 0); 
                  }
@@ -310,9 +380,14 @@ export const simulateLine = (
             if (val !== null) setReg(arg0, val);
         }
      }
-     else if (isReg16) {
-        if (arg0 === 'SP' && arg1 === 'HL') {
-            nextState.registers.sp = getPair('HL');
+     else if ((arg0 === 'I' || arg0 === 'R') && arg1 === 'A') {
+        // LD I,A / LD R,A
+        if (arg0 === 'I') nextState.registers.i = nextState.registers.a;
+        else nextState.registers.r = nextState.registers.a;
+     }
+     else if (isDestReg16) {
+        if (arg0 === 'SP' && ['HL','IX','IY'].includes(arg1)) {
+            nextState.registers.sp = getPair(arg1);
         } 
         else if (arg1.startsWith('(') && arg1.endsWith(')')) {
             const content = arg1.slice(1,-1).trim();
@@ -320,29 +395,23 @@ export const simulateLine = (
             if (addr !== null) {
                 const low = readByte(addr);
                 const high = readByte(addr + 1);
-                const val = (high << 8) | low;
-                
-                if (arg0 === 'SP') nextState.registers.sp = val;
-                else setPair(arg0, val);
+                setPair(arg0, (high << 8) | low);
             }
         }
         else {
             const val = resolveValue(arg1);
-            if (val !== null) {
-                if (arg0 === 'SP') nextState.registers.sp = val & 0xFFFF;
-                else setPair(arg0, val);
-            }
+            if (val !== null) setPair(arg0, val);
         }
      }
      else if (arg0.startsWith('(') && arg0.endsWith(')')) {
-        // Store to Memory: LD (nn), r  OR LD (HL), r
+        // Store to Memory: LD (nn), r  OR LD (HL), r  OR LD (IX+d), r
         const targetRaw = arg0.slice(1, -1).trim();
+        const memAddr = getMemOperandAddress(arg0);
 
-        // Check if destination is (HL), (BC), (DE)
-        if (targetRaw === 'HL') {
-             const addr = getPair('HL');
-             const val = ['A','B','C','D','E','H','L'].includes(arg1) ? getReg(arg1) : resolveValue(arg1);
-             if (val !== null) writeByte(addr, val);
+        // Check if destination is (HL), (IX+d), (IY+d), (BC), (DE)
+        if (memAddr !== null) {
+             const val = isReg8(arg1) ? getReg(arg1) : resolveValue(arg1);
+             if (val !== null) writeByte(memAddr, val);
         }
         else if (targetRaw === 'BC' && arg1 === 'A') {
              writeByte(getPair('BC'), getReg('A'));
@@ -356,26 +425,19 @@ export const simulateLine = (
             
             if (addr !== null) {
                 if (['BC','DE','HL','SP','IX','IY'].includes(arg1)) {
-                    const val = (arg1 === 'SP') ? nextState.registers.sp : getPair(arg1);
+                    const val = getPair(arg1);
                     writeByte(addr, val & 0xFF);
                     writeByte(addr + 1, (val >> 8) & 0xFF);
                 } 
                 else {
                     let valToWrite: number | null = null;
-                    if (['A','B','C','D','E','H','L'].includes(arg1)) valToWrite = getReg(arg1);
+                    if (isReg8(arg1)) valToWrite = getReg(arg1);
                     else valToWrite = resolveValue(arg1);
 
                     if (valToWrite !== null) {
                        writeByte(addr, valToWrite & 0xFF);
                     }
                 }
-            } 
-            else if (nextState.memory[targetRaw.toUpperCase()] !== undefined) {
-                 // Fallback for named variables that weren't resolved to addresses
-                 let valToWrite: number | null = null;
-                 if (['A','B','C','D','E','H','L'].includes(arg1)) valToWrite = getReg(arg1);
-                 else valToWrite = resolveValue(arg1);
-                 if (valToWrite !== null) nextState.memory[targetRaw.toUpperCase()] = valToWrite & 0xFF;
             }
         }
      }
@@ -393,8 +455,11 @@ export const simulateLine = (
           setPair('DE', hl);
           setPair('HL', de);
       }
-      else if (op1 === 'AF' && op2 === "AF'") {
-          // EX AF, AF' (Shadow regs placeholder)
+      else if (op1 === 'AF' && (op2 === "AF'" || op2 === 'AF')) {
+          // EX AF, AF' (some assemblers accept the form without the prime)
+          const af = getPair('AF');
+          setPair('AF', nextState.registers.af_ || 0);
+          nextState.registers.af_ = af;
       }
       else if (op1 === '(SP)' && (op2 === 'HL' || op2 === 'IX' || op2 === 'IY')) {
           // EX (SP), HL/IX/IY
@@ -403,29 +468,39 @@ export const simulateLine = (
           const high = readByte(sp + 1);
           const memVal = (high << 8) | low;
           
-          const regVal = (op2 === 'HL') ? getPair('HL') : getPair(op2); // Assuming IX/IY getter logic exists or maps to pair
+          const regVal = getPair(op2);
           
           // Swap
           writeByte(sp, regVal & 0xFF);
           writeByte(sp + 1, (regVal >> 8) & 0xFF);
-          
-          if (op2 === 'HL') setPair('HL', memVal);
-          // If IX/IY, we don't have explicit setPair logic for them in this basic sim, but HL works.
+          setPair(op2, memVal);
       }
   }
 
+  // 2b. EXX (Swap BC, DE, HL with the shadow set)
+  else if (opcode === 'EXX') {
+      const regs = nextState.registers;
+      const bc = getPair('BC'), de = getPair('DE'), hl = getPair('HL');
+      setPair('BC', regs.bc_ || 0);
+      setPair('DE', regs.de_ || 0);
+      setPair('HL', regs.hl_ || 0);
+      regs.bc_ = bc;
+      regs.de_ = de;
+      regs.hl_ = hl;
+  }
+
   // 3. PUSH / POP
   else if (opcode === 'PUSH') {
       const val = getPair(arg0); 
       nextState.registers.sp = (nextState.registers.sp - 2) & 0xFFFF;
       const sp = nextState.registers.sp;
-      nextState.memory[`STACK:${sp}`] = (val & 0xFF); 
-      nextState.memory[`STACK:${sp+1}`] = ((val >> 8) & 0xFF); 
+      writeByte(sp, val & 0xFF);
+      writeByte(sp + 1, (val >> 8) & 0xFF);
   }
   else if (opcode === 'POP') {
       const sp = nextState.registers.sp;
-      const low = nextState.memory[`STACK:${sp}`] || 0;
-      const high = nextState.memory[`STACK:${sp+1}`] || 0;
+      const low = readByte(sp);
+      const high = readByte(sp + 1);
       const val = (high << 8) | low;
       
       setPair(arg0, val);
@@ -434,186 +509,155 @@ export const simulateLine = (
 
   // 4. CP (Compare A)
   else if (opcode === 'CP') {
-      const val = getOperandValue(arg0);
+      const val = getAluSource();
       if (val !== null) {
-          const result = nextState.registers.a - val;
-          nextState.flags.z = (result === 0);
-          nextState.flags.c = (nextState.registers.a < val);
-          nextState.flags.s = (result & 0x80) !== 0;
-          // Calculate Overflow: (A xor val) & (A xor result) & 0x80
-          const a = nextState.registers.a;
-          const overflow = ((a ^ val) & (a ^ result) & 0x80) !== 0;
-          nextState.flags.pv = overflow;
+          setF(cp8(nextState.registers.a, val & 0xFF));
       }
   }
 
   // 5. INC / DEC
   else if (opcode === 'INC' || opcode === 'DEC') {
       const diff = opcode === 'INC' ? 1 : -1;
+      const step8 = (val: number) => opcode === 'INC' ? inc8(val, getF()) : dec8(val, getF());
 
-      if (['BC','DE','HL','SP'].includes(arg0)) {
-          if (arg0 === 'SP') nextState.registers.sp = (nextState.registers.sp + diff) & 0xFFFF;
-          else {
-              const current = getPair(arg0);
-              setPair(arg0, (current + diff) & 0xFFFF);
-          }
+      if (['BC','DE','HL','SP','IX','IY'].includes(arg0)) {
+          // 16-bit INC/DEC do not touch the flags
+          setPair(arg0, (getPair(arg0) + diff) & 0xFFFF);
       } 
-      else if (['A','B','C','D','E','H','L'].includes(arg0)) {
-          const current = getReg(arg0);
-          const newVal = (current + diff) & 0xFF;
-          setReg(arg0, newVal);
-          updateFlagsLogic(newVal, false);
-          // PV for INC/DEC 8bit is Overflow
-          nextState.flags.pv = (current === (opcode === 'INC' ? 0x7F : 0x80)); 
+      else if (isReg8(arg0)) {
+          const res = step8(getReg(arg0));
+          setReg(arg0, res.value);
+          setF(res.f);
       }
-      else if (arg0.startsWith('(') && arg0.endsWith(')')) {
-          if (arg0 === '(HL)') {
-             const addr = getPair('HL');
-             const current = readByte(addr);
-             const newVal = (current + diff) & 0xFF;
-             writeByte(addr, newVal);
-             updateFlagsLogic(newVal, false);
-             nextState.flags.pv = (current === (opcode === 'INC' ? 0x7F : 0x80));
+      else {
+          // (HL), (IX+d), (IY+d)
+          const addr = getMemOperandAddress(arg0);
+          if (addr !== null) {
+             const res = step8(readByte(addr));
+             writeByte(addr, res.value);
+             setF(res.f);
           }
       }
   }
 
   // 6. LOGIC OPS (XOR, OR, AND)
-  else if (opcode === 'XOR') {
-     const val = getOperandValue(arg0);
+  else if (opcode === 'XOR' || opcode === 'OR' || opcode === 'AND') {
+     const val = getAluSource();
      if (val !== null) {
-         nextState.registers.a = nextState.registers.a ^ val;
-         updateFlagsLogic(nextState.registers.a, true);
-         nextState.flags.c = false;
+         const op = opcode === 'XOR' ? xor8 : opcode === 'OR' ? or8 : and8;
+         const res = op(nextState.registers.a, val & 0xFF);
+         nextState.registers.a = res.value;
+         setF(res.f);
      }
   }
-  else if (opcode === 'OR') {
-      const val = getOperandValue(arg0);
-      if (val !== null) {
-          nextState.registers.a = nextState.registers.a | val;
-          updateFlagsLogic(nextState.registers.a, true);
-          nextState.flags.c = false;
-      }
-  }
-  else if (opcode === 'AND') {
-      const val = getOperandValue(arg0);
-      if (val !== null) {
-          nextState.registers.a = nextState.registers.a & val;
-          updateFlagsLogic(nextState.registers.a, true);
-          nextState.flags.c = false;
-      }
-  }
 
-  // 7. MATH (ADD, SUB)
-  else if (opcode === 'ADD') {
-      if (arg0 === 'A') {
-          const val = getOperandValue(arg1);
-          if (val !== null) {
-              const current = nextState.registers.a;
-              const res = current + val;
-              nextState.registers.a = res & 0xFF;
-              nextState.flags.c = res > 255;
-              updateFlagsLogic(nextState.registers.a, false);
-              // Overflow calculation for Add
-              const overflow = ((current ^ res) & (val ^ res) & 0x80) !== 0;
-              nextState.flags.pv = overflow;
-          }
-      } else if (['HL','IX','IY'].includes(arg0)) {
+  // 7. MATH (ADD, ADC, SUB, SBC)
+  else if (opcode === 'ADD' || opcode === 'ADC' || opcode === 'SUB' || opcode === 'SBC') {
+      const withCarry = opcode === 'ADC' || opcode === 'SBC';
+      const carryIn = withCarry && nextState.flags.c ? 1 : 0;
+
+      if (['HL','IX','IY'].includes(arg0) && args.length > 1) {
+          // 16-bit: ADD HL,rr / ADC HL,rr / SBC HL,rr
           const current = getPair(arg0);
           let val = 0;
-          if (['BC','DE','HL','SP'].includes(arg1)) val = getPair(arg1);
+          if (['BC','DE','HL','SP','IX','IY'].includes(arg1)) val = getPair(arg1);
           else val = resolveValue(arg1) || 0;
-          
-          const res = current + val;
-          setPair(arg0, res & 0xFFFF);
-          nextState.flags.c = res > 65535;
+
+          const res = opcode === 'ADD' ? add16(current, val, getF())
+                    : opcode === 'ADC' ? adc16(current, val, carryIn)
+                    : sbc16(current, val, carryIn);
+          setPair(arg0, res.value);
+          setF(res.f);
+      } else {
+          const val = getAluSource();
+          if (val !== null) {
+              const isAdd = opcode === 'ADD' || opcode === 'ADC';
+              const res = isAdd ? add8(nextState.registers.a, val & 0xFF, carryIn)
+                                : sub8(nextState.registers.a, val & 0xFF, carryIn);
+              nextState.registers.a = res.value;
+              setF(res.f);
+          }
       }
   }
-  else if (opcode === 'SUB') {
-      const val = getOperandValue(arg0); 
-      if (val !== null) {
-          const current = nextState.registers.a;
-          const res = current - val;
-          nextState.registers.a = res & 0xFF;
-          nextState.flags.c = current < val;
-          updateFlagsLogic(nextState.registers.a, false);
-          // Overflow calculation for Sub
-          const overflow = ((current ^ val) & (current ^ res) & 0x80) !== 0;
-          nextState.flags.pv = overflow;
-      }
+
+  // 7b. ACCUMULATOR SPECIALS (DAA, CPL, NEG)
+  else if (opcode === 'DAA' || opcode === 'CPL' || opcode === 'NEG') {
+      const a = nextState.registers.a;
+      const res = opcode === 'DAA' ? daa8(a, getF()) : opcode === 'CPL' ? cpl8(a, getF()) : neg8(a);
+      nextState.registers.a = res.value;
+      setF(res.f);
   }
   
   // 8. BIT INSTRUCTIONS (Critical for JP Z / JP NZ)
   else if (opcode === 'BIT') {
-      const bit = parseInt(arg0);
+      const bit = parseInt(arg0) & 7;
       let val = 0;
-      if (['A','B','C','D','E','H','L'].includes(arg1)) val = getReg(arg1);
-      else if (arg1 === '(HL)') val = readByte(getPair('HL'));
-      
-      const res = val & (1 << bit);
-      nextState.flags.z = (res === 0);
-      nextState.flags.s = (bit === 7 && res !== 0);
-      // H flag should be 1, N should be 0. PV is unknown for BIT in some docs but usually Z matches.
-  }
-  else if (opcode === 'SET') {
-      const bit = parseInt(arg0);
-      if (['A','B','C','D','E','H','L'].includes(arg1)) {
-          const val = getReg(arg1);
-          setReg(arg1, val | (1 << bit));
-      } else if (arg1 === '(HL)') {
-          const addr = getPair('HL');
-          const val = readByte(addr);
-          writeByte(addr, val | (1 << bit));
+      if (isReg8(arg1)) val = getReg(arg1);
+      else {
+          const addr = getMemOperandAddress(arg1);
+          if (addr !== null) val = readByte(addr);
       }
+      
+      setF(bitTest(bit, val, getF()));
   }
-  else if (opcode === 'RES') {
-      const bit = parseInt(arg0);
-      if (['A','B','C','D','E','H','L'].includes(arg1)) {
-          const val = getReg(arg1);
-          setReg(arg1, val & ~(1 << bit));
-      } else if (arg1 === '(HL)') {
-          const addr = getPair('HL');
-          const val = readByte(addr);
-          writeByte(addr, val & ~(1 << bit));
+  else if (opcode === 'SET' || opcode === 'RES') {
+      const bit = parseInt(arg0) & 7;
+      const apply = (val: number) => opcode === 'SET' ? val | (1 << bit) : val & ~(1 << bit);
+      if (isReg8(arg1)) {
+          setReg(arg1, apply(getReg(arg1)));
+      } else {
+          const addr = getMemOperandAddress(arg1);
+          if (addr !== null) {
+              const res = apply(readByte(addr)) & 0xFF;
+              writeByte(addr, res);
+              // Undocumented "SET b,(IX+d),r" also copies the result into r
+              const copyTo = args[2] ? args[2].toUpperCase() : '';
+              if (isReg8(copyTo)) setReg(copyTo, res);
+          }
       }
   }
 
   // 9. ROTATES (Critical for JP C / JP NC)
   else if (['RLCA','RRCA','RLA','RRA'].includes(opcode)) {
-      let a = nextState.registers.a;
-      let c = nextState.flags.c ? 1 : 0;
-      
-      if (opcode === 'RLCA') { // Rotate Left Circular Acc
-          const bit7 = (a >> 7) & 1;
-          a = ((a << 1) | bit7) & 0xFF;
-          nextState.flags.c = bit7 === 1;
-      }
-      else if (opcode === 'RRCA') { // Rotate Right Circular Acc
-          const bit0 = a & 1;
-          a = ((a >> 1) | (bit0 << 7)) & 0xFF;
-          nextState.flags.c = bit0 === 1;
-      }
-      else if (opcode === 'RLA') { // Rotate Left Acc through Carry
-          const bit7 = (a >> 7) & 1;
-          a = ((a << 1) | c) & 0xFF;
-          nextState.flags.c = bit7 === 1;
-      }
-      else if (opcode === 'RRA') { // Rotate Right Acc through Carry
-          const bit0 = a & 1;
-          a = ((a >> 1) | (c << 7)) & 0xFF;
-          nextState.flags.c = bit0 === 1;
+      const a = nextState.registers.a;
+      const f = getF();
+      const res = opcode === 'RLCA' ? rlca(a, f)
+                : opcode === 'RRCA' ? rrca(a, f)
+                : opcode === 'RLA' ? rla(a, f)
+                : rra(a, f);
+      nextState.registers.a = res.value;
+      setF(res.f);
+  }
+  else if (SHIFT_OPS.includes(opcode as ShiftOp)) {
+      // RLC/RRC/RL/RR/SLA/SRA/SLL/SRL r|(HL)|(IX+d)|(IY+d)
+      if (isReg8(arg0)) {
+          const res = shift8(opcode as ShiftOp, getReg(arg0), getF());
+          setReg(arg0, res.value);
+          setF(res.f);
+      } else {
+          const addr = getMemOperandAddress(arg0);
+          if (addr !== null) {
+              const res = shift8(opcode as ShiftOp, readByte(addr), getF());
+              writeByte(addr, res.value);
+              setF(res.f);
+              if (isReg8(arg1)) setReg(arg1, res.value); // Undocumented "RLC (IX+d),r"
+          }
       }
-      
-      nextState.registers.a = a;
-      // Flags N and H are reset
+  }
+  else if (opcode === 'RLD' || opcode === 'RRD') {
+      const addr = getPair('HL');
+      const res = (opcode === 'RLD' ? rld : rrd)(nextState.registers.a, readByte(addr), getF());
+      nextState.registers.a = res.a;
+      writeByte(addr, res.mem);
+      setF(res.f);
   }
   
   // 10. FLAGS
   else if (opcode === 'SCF') {
-      nextState.flags.c = true;
+      setF(scf(nextState.registers.a, getF()));
   }
   else if (opcode === 'CCF') {
-      nextState.flags.c = !nextState.flags.c;
+      setF(ccf(nextState.registers.a, getF()));
   }
   
   // 11. DJNZ
@@ -642,28 +686,7 @@ export const simulateLine = (
           target = resolveValue(arg0);
       }
       
-      if (target === 0x004D) { // WRTVRM
-          const addr = getPair('HL') & 0x3FFF;
-          const val = nextState.registers.a;
-          nextState.vdp.vram[addr] = val;
-      }
-      else if (target === 0x005C) { // LDIRVM
-          let src = getPair('HL');
-          let dst = getPair('DE') & 0x3FFF;
-          let len = getPair('BC');
-          for (let i = 0; i < len; i++) {
-               let val = readByte(src + i);
-               nextState.vdp.vram[(dst + i) & 0x3FFF] = val;
-          }
-      }
-      else if (target === 0x0056) { // FILVRM
-          let addr = getPair('HL') & 0x3FFF;
-          let len = getPair('BC');
-          const val = nextState.registers.a;
-          for(let i=0; i<len; i++) {
-              nextState.vdp.vram[(addr + i) & 0x3FFF] = val;
-          }
-      }
+      if (target !== null) applyBiosCall(nextState, target);
   }
   else if (opcode === 'RET' || opcode === 'RETI' || opcode === 'RETN') {
       let perform = true;
@@ -674,63 +697,195 @@ export const simulateLine = (
       
       if (perform) {
            nextState.registers.sp = (nextState.registers.sp + 2) & 0xFFFF;
+           // Back from an H.TIMI hook: the emulated KEYINT restores the registers it saved
+           leaveKeyintHook(nextState);
       }
+      // RETN (and RETI, which the Z80 implements the same way) restore IFF1 from IFF2
+      if (opcode !== 'RET') nextState.interrupts.iff1 = nextState.interrupts.iff2;
+  }
+
+  // 13. INTERRUPT CONTROL (acceptance is handled by the run loops, see interrupts)
+  else if (opcode === 'EI' || opcode === 'DI') {
+      nextState.interrupts.iff1 = opcode === 'EI';
+      nextState.interrupts.iff2 = opcode === 'EI';
+  }
+  else if (opcode === 'IM') {
+      const mode = parseValue(arg0);
+      if (mode !== null && mode >= 0 && mode <= 2) nextState.interrupts.mode = mode;
   }
 
   // --- VDP / MSX SPECIFIC OPS ---
 
+  else if (opcode === 'IN') {
+     // IN A,(n) leaves the flags alone; IN r,(C) and IN (C) / IN F,(C) set S/Z/P from the value
+     const portArg = args.length > 1 ? arg1 : arg0;
+     const portStr = portArg.replace('(', '').replace(')', '').trim();
+     if (portStr === 'C') {
+        const val = readPort(nextState.registers.c);
+        if (args.length > 1 && isReg8(arg0)) setReg(arg0, val);
+        setF((getF() & FLAG_C) | sz53p(val));
+     } else {
+        const port = resolveValue(portStr);
+        if (port !== null) nextState.registers.a = readPort(port);
+     }
+  }
   else if (opcode === 'OUT') {
+     // OUT (n),A or OUT (C),r
      const portStr = arg0.replace('(', '').replace(')', '').trim();
-     const val = ['A','B','C','D','E','H','L'].includes(arg1) ? getReg(arg1) : resolveValue(arg1);
+     const port = portStr === 'C' ? nextState.registers.c : resolveValue(portStr);
+     const val = isReg8(arg1) ? getReg(arg1) : resolveValue(arg1);
 
-     if (val !== null) {
-        if (portStr === '$98' || portStr === '98H' || portStr === '152') {
-             const vramAddr = nextState.vdp.addressRegister & 0x3FFF;
-             nextState.vdp.vram[vramAddr] = val & 0xFF;
-             nextState.vdp.addressRegister = (nextState.vdp.addressRegister + 1) & 0x3FFF;
-             nextState.vdp.writeLatch = false;
-        }
-        else if (portStr === '$99' || portStr === '99H' || portStr === '153') {
-             if (!nextState.vdp.writeLatch) {
-                 nextState.vdp.registerLatch = val & 0xFF;
-                 nextState.vdp.writeLatch = true;
-             } else {
-                 const high = val & 0xFF;
-                 const low = nextState.vdp.registerLatch;
-                 if ((high & 0xC0) === 0x40) {
-                     // Register Write
-                 } else {
-                     const addr = ((high & 0x3F) << 8) | low;
-                     nextState.vdp.addressRegister = addr;
-                 }
-                 nextState.vdp.writeLatch = false;
-             }
-        }
+     if (port !== null && val !== null) {
+        writePort(port, val);
      }
   }
 
+  // --- BLOCK TRANSFER / SEARCH / I/O (LDIR, CPIR, INIR, OTIR...) ---
+  else if (BLOCK_OPS[opcode]) {
+      const { kind, step, repeat } = BLOCK_OPS[opcode];
+      const regs = nextState.registers;
+      let iterations = 0;
+      let cycles = 0;
+
+      while (true) {
+          refresh(2);
+          const hl = getPair('HL');
+          let again = false;
+
+          if (kind === 'LD') {
+              // (DE) <- (HL), HL/DE step, BC--
+              const val = readByte(hl);
+              const de = getPair('DE');
+              writeByte(de, val);
+              setPair('HL', hl + step);
+              setPair('DE', de + step);
+              const bc = (getPair('BC') - 1) & 0xFFFF;
+              setPair('BC', bc);
+              setF(ldiFlags(getF(), regs.a, val, bc));
+              again = bc !== 0;
+          }
+          else if (kind === 'CP') {
+              // Compare A with (HL), stop on match or BC = 0
+              const val = readByte(hl);
+              setPair('HL', hl + step);
+              const bc = (getPair('BC') - 1) & 0xFFFF;
+              setPair('BC', bc);
+              setF(cpiFlags(getF(), regs.a, val, bc));
+              again = bc !== 0 && regs.a !== val;
+          }
+          else if (kind === 'IN') {
+              // (HL) <- port (C), B--
+              const val = readPort(regs.c);
+              writeByte(hl, val);
+              setPair('HL', hl + step);
+              regs.b = (regs.b - 1) & 0xFF;
+              const k = val + ((regs.c + step) & 0xFF);
+              setF(ioBlockFlags(regs.b, val, k));
+              again = regs.b !== 0;
+          }
+          else {
+              // port (C) <- (HL), B-- (B is decremented before the port write)
+              const val = readByte(hl);
+              regs.b = (regs.b - 1) & 0xFF;
+              writePort(regs.c, val);
+              setPair('HL', hl + step);
+              setF(ioBlockFlags(regs.b, val, val + regs.l));
+              again = regs.b !== 0;
+          }
+
+          // The counter advances per iteration, so each OUTI/OTIR port write gets its own time
+          iterations++;
+          const looping = repeat && again;
+          const cost = timing ? (looping ? timing.cycles : timing.cyclesNotTaken) : 0;
+          cycles += cost;
+          nextState.tStates += cost;
+          if (!looping) break;
+      }
+
+      nextState.lastBlockOp = { opcode, iterations, cycles };
+  }
+
+  // --- TIMING --- (block instructions were counted per iteration above)
+  if (!nextState.lastBlockOp && timing) {
+      let taken = true;
+      if (opcode === 'DJNZ') taken = nextState.registers.b !== 0;
+      else if (['JR', 'JP', 'CALL'].includes(opcode) && args.length > 1) taken = checkCondition(arg0, flagsBefore);
+      else if (opcode === 'RET' && arg0) taken = checkCondition(arg0, flagsBefore);
+      nextState.tStates += taken ? timing.cycles : timing.cyclesNotTaken;
+  }
+  // HALT idles until the next frame interrupt
+  if (opcode === 'HALT') {
+      const haltedAt = nextState.tStates;
+      waitForInterrupt(nextState);
+      nextState.lastIdle = nextState.tStates - haltedAt;
+  }
+  settleClobbered(nextState, watch);
+
   return nextState;
 };
 
+// Target of JP (HL) / JP (IX) / JP (IY)
+export const getIndirectJumpTarget = (target: string, registers: Z80Registers): number => {
+  const t = target.trim().toUpperCase();
+  if (t === '(IX)') return registers.ix;
+  if (t === '(IY)') return registers.iy;
+  return (registers.h << 8) | registers.l;
+};
+
+// Optional observer of executeSubroutine (used by the profiler)
+export interface ExecutionTracer {
+  onLine?: (line: number, cycles: number) => void; // After every executed line, with its T-states (HALT's wait excluded)
+  onHalt?: (line: number, idle: number) => void;   // A HALT idled `idle` T-states waiting for the frame interrupt
+  onCall?: (label: string, line: number) => void;  // A CALL entered a user routine, or an interrupt its handler ("INT H.TIMI")
+  onReturn?: () => void;                           // A RET left the routine entered last
+  shouldStop?: (line: number) => boolean;          // Checked before every line; true ends the run
+}
+
+/**
+ * Source-level interrupt dispatch: accepts a pending frame interrupt and
+ * returns the line of the program's handler that runs next (its own $0038
+ * code, the routine H.TIMI jumps to, or the IM 2 vector). The return address
+ * is pushed when known; the caller resumes at its own line on RET / RETI.
+ * Returns null when nothing is pending or no handler line exists (the
+ * emulated KEYINT already did the work).
+ */
+export const dispatchSourceInterrupt = (
+  state: SimulationState,
+  returnAddress: number | null,
+  findLine: (addr: number) => number | undefined
+): number | null => {
+  if (!isInterruptPending(state)) return null;
+  const target = acceptInterrupt(state, returnAddress, addr => findLine(addr) !== undefined);
+  if (target === null) return null;
+  return findLine(target === H_TIMI ? resolveHookJump(state.memory, H_TIMI) : target) ?? null;
+};
+
+// Line of the user label defined at an address (reverse lookup through the symbol table)
+const findLabelLine = (
+  addr: number,
+  labels: { [label: string]: number },
+  symbolTable: { [label: string]: number }
+): number | undefined => {
+  const labelEntry = Object.entries(symbolTable).find(([name, val]) => val === addr && labels[name]);
+  return labelEntry ? labels[labelEntry[0]] : undefined;
+};
+
 export const executeSubroutine = (
   startLine: number, // 1-based line number (visual)
   initialState: SimulationState,
   lines: string[],
   labels: { [label: string]: number },
   symbolTable: { [label: string]: number },
-  memoryMap: { [address: number]: number },
-  maxSteps: number = 50000 
+  maxSteps: number = 50000,
+  tracer?: ExecutionTracer
 ): SimulationState => {
-  let state = {
-      registers: { ...initialState.registers },
-      flags: { ...initialState.flags },
-      memory: { ...initialState.memory },
-      vdp: { ...initialState.vdp, vram: [...initialState.vdp.vram] }
-  };
+  // Clone once, then every line runs in place on this copy
+  const state = cloneSimulationState(initialState);
   
   let pc = startLine;
   let steps = 0;
   const callStack: number[] = []; 
+  let afterEi = false; // No interrupt is accepted right after EI
   
   while (steps < maxSteps) {
       if (!lines[pc - 1]) break; 
@@ -743,9 +898,30 @@ export const executeSubroutine = (
           continue;
       }
       
+      if (tracer?.shouldStop?.(pc)) break;
+
+      // Frame interrupt: the handler runs as if called from this line
+      if (!afterEi) {
+          const handlerLine = dispatchSourceInterrupt(state, null, addr => findLabelLine(addr, labels, symbolTable));
+          if (handlerLine !== null) {
+              // A frame of its own, so that the handler's RET / RETI has a call to match
+              const entry = state.interrupts.log[state.interrupts.log.length - 1];
+              callStack.push(pc);
+              tracer?.onCall?.(`INT ${entry.via}`, handlerLine);
+              pc = handlerLine;
+              steps++;
+              continue;
+          }
+      }
+      afterEi = /^EI$/i.test(clean);
+
       // Execute Logic (State Update)
       // This will now update SP correctly for CALL/RET/RETI/RETN
-      state = simulateLine(line, state, symbolTable, memoryMap);
+      const before = state.tStates;
+      executeLine(line, state, symbolTable);
+      const idle = state.lastIdle || 0;
+      tracer?.onLine?.(pc, state.tStates - before - idle);
+      if (idle > 0) tracer?.onHalt?.(pc, idle);
       
       // Flow Logic
       
@@ -771,6 +947,7 @@ export const executeSubroutine = (
                // If it's a known user label, we jump into it
                if (labels[targetLabel]) {
                    callStack.push(pc + 1);
+                   tracer?.onCall?.(targetLabel, labels[targetLabel]);
                    pc = labels[targetLabel];
                    steps++;
                    continue;
@@ -797,6 +974,7 @@ export const executeSubroutine = (
                    break;
                }
                const retLine = callStack.pop();
+               tracer?.onReturn?.();
                if (retLine !== undefined) {
                    pc = retLine;
                    steps++;
@@ -821,13 +999,13 @@ export const executeSubroutine = (
             if (perform) {
                 const upperTarget = target.trim().toUpperCase();
                 
-                // Indirect Jump: JP (HL)
-                if (upperTarget === '(HL)') {
-                    const addr = (state.registers.h << 8) | state.registers.l;
+                // Indirect Jump: JP (HL) / JP (IX) / JP (IY)
+                if (['(HL)','(IX)','(IY)'].includes(upperTarget)) {
+                    const addr = getIndirectJumpTarget(upperTarget, state.registers);
                     // Reverse Lookup: Address -> Label -> Line
-                    const labelEntry = Object.entries(symbolTable).find(([_, val]) => val === addr);
-                    if (labelEntry && labels[labelEntry[0]]) {
-                        pc = labels[labelEntry[0]];
+                    const targetLine = findLabelLine(addr, labels, symbolTable);
+                    if (targetLine !== undefined) {
+                        pc = targetLine;
                         steps++;
                         continue;
                     }
@@ -867,15 +1045,9 @@ export const executeLoopUntilCompletion = (
   initialState: SimulationState,
   lines: string[],
   labels: { [label: string]: number },
-  symbolTable: { [label: string]: number },
-  memoryMap: { [address: number]: number }
+  symbolTable: { [label: string]: number }
 ): SimulationState => {
-   let state = {
-      registers: { ...initialState.registers },
-      flags: { ...initialState.flags },
-      memory: { ...initialState.memory },
-      vdp: { ...initialState.vdp, vram: [...initialState.vdp.vram] }
-   };
+   const state = cloneSimulationState(initialState);
 
    // Ensure target exists
    const targetLine = labels[targetLabel.toUpperCase()];
@@ -907,6 +1079,8 @@ export const executeLoopUntilCompletion = (
                  // But wait, our outer loop 'i' handles the repetition.
                  // We just need to decrement B in the state to reflect reality.
                  state.registers.b = (state.registers.b - 1) & 0xFF;
+                 const djnz = getSourceTiming('DJNZ', targetLabel);
+                 if (djnz) state.tStates += state.registers.b !== 0 ? djnz.cycles : djnz.cyclesNotTaken;
                  break;
              }
 
@@ -916,7 +1090,7 @@ export const executeLoopUntilCompletion = (
              }
 
              // Simulate instruction
-             state = simulateLine(line, state, symbolTable, memoryMap);
+             executeLine(line, state, symbolTable);
              
              // Handle internal flow control (Jumps inside the loop body)
              if (/^(JP|JR)\b/i.test(clean)) {
@@ -953,8 +1127,7 @@ export const simulateStepsAhead = (
   lines: string[],
   symbolTable: { [label: string]: number },
   labels: { [label: string]: number },
-  memoryMap: { [address: number]: number },
   maxSteps: number = 2000
 ): SimulationState => {
-    return executeSubroutine(startLine, initialState, lines, labels, symbolTable, memoryMap, maxSteps);
+    return executeSubroutine(startLine, initialState, lines, labels, symbolTable, maxSteps);
 };
@@ -0,0 +1,171 @@
+import { assembleZ80 } from "./z80Assembler";
+
+/**
+ * Z80 INSTRUCTION TIMING
+ * ----------------------
+ * T-states per opcode for a plain Z80, indexed by the opcode byte, plus the
+ * MSX wait state: the MSX inserts one extra T-state on every M1 (opcode
+ * fetch) cycle, so each prefix byte (CB, ED, DD, FD) costs one more.
+ * DDCB/FDCB instructions have two M1 cycles (the displacement and the final
+ * opcode are ordinary memory reads).
+ *
+ * Conditional instructions have a "taken" and a "not taken" cost. For the
+ * repeating block instructions (LDIR, OTIR...) "taken" means the instruction
+ * loops back, "not taken" is the final iteration.
+ */
+export const MSX_M1_WAIT = 1;
+export const MSX_CPU_CLOCK = 3579545; // Hz
+
+// T-states per video frame on MSX (3.579545 MHz): 262 lines at 60Hz, 313 at 50Hz
+export const FRAME_CYCLES = { NTSC: 59736, PAL: 71364 };
+
+export type FrameStandard = keyof typeof FRAME_CYCLES;
+
+export interface InstructionTiming {
+  cycles: number;         // T-states when the branch is taken / the block instruction repeats
+  cyclesNotTaken: number; // T-states when the condition fails / last iteration (= cycles if unconditional)
+}
+
+// --- TABLES (plain Z80, without wait states) ---
+
+const timing = (cycles: number, cyclesNotTaken: number = cycles): InstructionTiming => ({ cycles, cyclesNotTaken });
+
+const withWaits = (t: InstructionTiming, m1: number, wait: number): InstructionTiming =>
+  timing(t.cycles + m1 * wait, t.cyclesNotTaken + m1 * wait);
+
+// Unprefixed opcodes. Prefix slots (CB, DD, ED, FD) are never read from here.
+const MAIN_CYCLES = [
+  //0  1   2   3   4   5   6   7   8   9   A   B   C   D   E   F
+   4, 10,  7,  6,  4,  4,  7,  4,  4, 11,  7,  6,  4,  4,  7,  4, // 0x
+  13, 10,  7,  6,  4,  4,  7,  4, 12, 11,  7,  6,  4,  4,  7,  4, // 1x
+  12, 10, 16,  6,  4,  4,  7,  4, 12, 11, 16,  6,  4,  4,  7,  4, // 2x
+  12, 10, 13,  6, 11, 11, 10,  4, 12, 11, 13,  6,  4,  4,  7,  4, // 3x
+   4,  4,  4,  4,  4,  4,  7,  4,  4,  4,  4,  4,  4,  4,  7,  4, // 4x
+   4,  4,  4,  4,  4,  4,  7,  4,  4,  4,  4,  4,  4,  4,  7,  4, // 5x
+   4,  4,  4,  4,  4,  4,  7,  4,  4,  4,  4,  4,  4,  4,  7,  4, // 6x
+   7,  7,  7,  7,  7,  7,  4,  7,  4,  4,  4,  4,  4,  4,  7,  4, // 7x
+   4,  4,  4,  4,  4,  4,  7,  4,  4,  4,  4,  4,  4,  4,  7,  4, // 8x
+   4,  4,  4,  4,  4,  4,  7,  4,  4,  4,  4,  4,  4,  4,  7,  4, // 9x
+   4,  4,  4,  4,  4,  4,  7,  4,  4,  4,  4,  4,  4,  4,  7,  4, // Ax
+   4,  4,  4,  4,  4,  4,  7,  4,  4,  4,  4,  4,  4,  4,  7,  4, // Bx
+  11, 10, 10, 10, 17, 11,  7, 11, 11, 10, 10,  0, 17, 17,  7, 11, // Cx
+  11, 10, 10, 11, 17, 11,  7, 11, 11,  4, 10, 11, 17,  0,  7, 11, // Dx
+  11, 10, 10, 19, 17, 11,  7, 11, 11,  4, 10,  4, 17,  0,  7, 11, // Ex
+  11, 10, 10,  4, 17, 11,  7, 11, 11,  6, 10,  4, 17,  0,  7, 11, // Fx
+];
+
+// Costs of the conditional unprefixed opcodes when the branch is not taken
+const MAIN_NOT_TAKEN: { [op: number]: number } = {
+  0x10: 8,                                            // DJNZ (B reached 0)
+  0x20: 7, 0x28: 7, 0x30: 7, 0x38: 7,                 // JR cc
+  0xC0: 5, 0xC8: 5, 0xD0: 5, 0xD8: 5,                 // RET cc
+  0xE0: 5, 0xE8: 5, 0xF0: 5, 0xF8: 5,
+  0xC4: 10, 0xCC: 10, 0xD4: 10, 0xDC: 10,             // CALL cc
+  0xE4: 10, 0xEC: 10, 0xF4: 10, 0xFC: 10,
+};
+
+// ED xx: x=1 column by z (y picks the exceptions), x=2 block instructions
+const edCycles = (op: number): InstructionTiming => {
+  const x = op >> 6, y = (op >> 3) & 7, z = op & 7;
+  if (x === 1) {
+    switch (z) {
+      case 0: case 1: return timing(12);                   // IN r,(C) / OUT (C),r
+      case 2: return timing(15);                           // SBC/ADC HL,rr
+      case 3: return timing(20);                           // LD (nn),rr / LD rr,(nn)
+      case 4: return timing(8);                            // NEG
+      case 5: return timing(14);                           // RETN / RETI
+      case 6: return timing(8);                            // IM n
+      default: return timing(y < 4 ? 9 : y < 6 ? 18 : 8); // LD I/R,A / LD A,I/R ; RRD / RLD ; NOP
+    }
+  }
+  if (x === 2 && y >= 4 && z <= 3) {
+    return y >= 6 ? timing(21, 16) : timing(16);           // LDIR... / LDI...
+  }
+  return timing(8); // Undefined ED opcodes behave as two NOPs
+};
+
+// CB xx on a register / (HL): BIT reads only, the others read-modify-write
+const cbCycles = (op: number): number => {
+  const memory = (op & 7) === 6;
+  if ((op >> 6) === 1) return memory ? 12 : 8;
+  return memory ? 15 : 8;
+};
+
+/**
+ * Timing of the instruction encoded in `bytes` (opcode first). `m1Wait` is
+ * the extra T-states per M1 cycle: 1 on MSX, 0 for a plain Z80.
+ */
+export const getInstructionTiming = (bytes: ArrayLike<number>, m1Wait: number = MSX_M1_WAIT): InstructionTiming => {
+  let i = 0;
+  let prefixes = 0;
+  // Chained DD/FD prefixes: only the last one counts, the others are 4T NOPs
+  while (i < bytes.length && (bytes[i] === 0xDD || bytes[i] === 0xFD)) {
+    prefixes++;
+    i++;
+  }
+  const op = bytes[i] ?? 0;
+  const extraPrefixes = Math.max(0, prefixes - 1) * 4;
+
+  if (prefixes === 0) {
+    if (op === 0xCB) return withWaits(timing(cbCycles(bytes[1] ?? 0)), 2, m1Wait);
+    if (op === 0xED) return withWaits(edCycles(bytes[1] ?? 0), 2, m1Wait);
+    const base = MAIN_CYCLES[op];
+    return withWaits(timing(base, MAIN_NOT_TAKEN[op] ?? base), 1, m1Wait);
+  }
+
+  const m1 = prefixes + 1;
+  // DDCB d op: BIT b,(IX+d) 20, the rest 23
+  if (op === 0xCB) {
+    const cbOp = bytes[i + 2] ?? 0;
+    return withWaits(timing(((cbOp >> 6) === 1 ? 20 : 23) + extraPrefixes), m1, m1Wait);
+  }
+  // DD ED behaves as a NOP followed by the ED instruction
+  if (op === 0xED) {
+    const ed = edCycles(bytes[i + 1] ?? 0);
+    return withWaits(timing(ed.cycles + 4 * prefixes, ed.cyclesNotTaken + 4 * prefixes), m1 + 1, m1Wait);
+  }
+
+  const base = MAIN_CYCLES[op];
+  const notTaken = MAIN_NOT_TAKEN[op] ?? base;
+  // (HL) operand turned into (IX+d): displacement fetch + address calculation
+  const x = op >> 6, y = (op >> 3) & 7, z = op & 7;
+  const usesIndexedMemory = op !== 0x76 && (
+    (x === 1 && (y === 6 || z === 6)) || (x === 2 && z === 6) || op === 0x34 || op === 0x35 || op === 0x36
+  );
+  const extra = (usesIndexedMemory ? (op === 0x36 ? 9 : 12) : 4) + extraPrefixes;
+  return withWaits(timing(base + extra, notTaken + extra), m1, m1Wait);
+};
+
+// Timing of the instruction at `addr` in memory
+export const readInstructionTiming = (memory: Uint8Array, addr: number, m1Wait: number = MSX_M1_WAIT): InstructionTiming => {
+  const bytes: number[] = [];
+  let k = addr;
+  // Prefix chain, then the opcode and the (at most 3) bytes that can still matter
+  while ((memory[k & 0xFFFF] === 0xDD || memory[k & 0xFFFF] === 0xFD) && bytes.length < 16) bytes.push(memory[k++ & 0xFFFF]);
+  for (let n = 0; n < 4; n++) bytes.push(memory[(k + n) & 0xFFFF]);
+  return getInstructionTiming(bytes, m1Wait);
+};
+
+// --- SOURCE LEVEL ---
+
+const sourceTimingCache = new Map<string, InstructionTiming | null>();
+
+/**
+ * Timing of a source instruction, found by assembling it on its own. Symbols
+ * are resolved to 0 since the operand values never change the cost.
+ * Returns null for lines that do not assemble to an instruction.
+ */
+export const getSourceTiming = (opcode: string, operands: string): InstructionTiming | null => {
+  const key = `${opcode.toUpperCase()} ${operands.trim().toUpperCase()}`;
+  const cached = sourceTimingCache.get(key);
+  if (cached !== undefined) return cached;
+
+  const result = assembleZ80(
+    [{ lineNum: 1, labels: [], directive: opcode.toUpperCase(), args: operands.trim() }],
+    () => 0
+  );
+  const bytes = result.lineBytes[1];
+  const value = result.errors.length === 0 && bytes && bytes.length > 0 ? getInstructionTiming(bytes) : null;
+  sourceTimingCache.set(key, value);
+  return value;
+};
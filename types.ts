@@ -12,7 +12,8 @@ export enum StepType {
 export interface MemoryVariable {
   name: string;
   address?: string; // Hex string like C000 if defined via EQU
-  value: number; // The byte value (0-255)
+  value: number; // The byte value (0-255), or word value for DW
+  size?: number; // Bytes covered by the label view (1 = DB, 2 = DW)
   lastModifiedStepId: number;
 }
 
@@ -30,7 +31,8 @@ export interface ExecutionStep {
   type: StepType;
   description: string; // "Call init_sprites", "Loop repeats 10 times"
   riskLevel?: 'LOW' | 'MEDIUM' | 'HIGH'; // For bugs
-  cycles: number; // T-States
+  cycles: number; // T-States on MSX (branch taken / block instruction repeating)
+  cyclesNotTaken?: number; // Set for conditional instructions: cost when the condition fails
   
   // State Simulation
   registerA?: number | null; // Value of Accumulator at this step
@@ -47,6 +49,8 @@ export interface AnalysisResult {
   labels: { [label: string]: number }; // Map of labels to Line Numbers (source code)
   memoryMap: { [address: number]: number }; // Static memory map (Address -> Value) from DB statements
   lineAddresses: { [line: number]: number }; // Map of Visual Line Number -> Memory Address
+  lineBytes: { [line: number]: number[] }; // Assembled machine code per Visual Line Number
+  addressLines: { [address: number]: number }; // Instruction start address -> Visual Line Number
   entryLine?: number; // Visual line number where execution starts (e.g. from ROM header)
 }
 
@@ -64,11 +68,29 @@ export interface ReachabilityResult {
   labelLine: number;
 }
 
+export interface CycleDetail {
+  lineNumber: number;
+  instruction: string;
+  cycles: number;          // Same value as ExecutionStep.cycles
+  cyclesNotTaken?: number; // Conditional instructions only
+}
+
+export interface CycleSelection {
+  total: number;    // Sum of `cycles` (branches taken / block instructions repeating)
+  minTotal: number; // Cheapest outcome of every conditional instruction
+  maxTotal: number; // Most expensive outcome of every conditional instruction
+  details: CycleDetail[];
+}
+
 export interface Z80Flags {
-  z: boolean;  // Zero Flag
-  c: boolean;  // Carry Flag
-  s: boolean;  // Sign Flag (Negative)
-  pv: boolean; // Parity/Overflow Flag (New)
+  s: boolean;  // Sign Flag (Negative)         - bit 7
+  z: boolean;  // Zero Flag                    - bit 6
+  f5: boolean; // Undocumented (Y) flag        - bit 5
+  h: boolean;  // Half Carry Flag              - bit 4
+  f3: boolean; // Undocumented (X) flag        - bit 3
+  pv: boolean; // Parity/Overflow Flag         - bit 2
+  n: boolean;  // Add/Subtract Flag (for DAA)  - bit 1
+  c: boolean;  // Carry Flag                   - bit 0
 }
 
 export interface Z80Registers {
@@ -80,13 +102,104 @@ export interface Z80Registers {
   h: number;
   l: number;
   sp: number; // Stack Pointer
+  pc: number; // Program Counter (driven by the byte-level CPU execution mode)
+  ix: number; // Index Register X (16-bit)
+  iy: number; // Index Register Y (16-bit)
+  i: number;  // Interrupt Vector Register
+  r: number;  // Memory Refresh Register (7-bit counter, bit 7 kept)
+  // Shadow (alternate) register set, stored as 16-bit pairs
+  af_: number; // AF' (A' << 8 | F')
+  bc_: number; // BC'
+  de_: number; // DE'
+  hl_: number; // HL'
 }
 
+// Registers that can be left undefined by a BIOS call ('f' is the flag register)
+export type RegisterName = keyof Z80Registers | 'f';
+
 export interface VDPState {
-  vram: number[]; // 16KB VRAM (0-16383)
-  addressRegister: number; // The pointer set by Port $99
+  vram: Uint8Array; // 128KB VRAM (V9938); TMS9918 programs use the first 16KB
+  addressRegister: number; // The pointer set by Port $99 (bits 13-0, R#14 holds 16-14)
   writeLatch: boolean; // Toggle for Port $99 first/second byte
   registerLatch: number; // Temp storage for first byte of address
+  readAhead: number; // Read-ahead buffer returned by the next Port $98 read
+  registers: number[]; // R#0-R#46 (see services/vdp)
+  status: number; // Status register S#0: F (VBLANK), 5S, C, fifth sprite number
+  palette: number[]; // 16 entries as 0x0RGB (3 bits per component)
+  paletteLatch: number | null; // First byte of a Port $9A palette write
+  command: VdpCommandTransfer | null; // CPU transfer in progress (HMMC / LMMC / LMCM), CE set
+  commandColor: number; // S#7: color read by POINT / LMCM
+  borderX: number; // S#8-S#9: X coordinate found by SRCH
+  borderFound: boolean; // BD flag (S#2) of the last SRCH
+}
+
+// Progress of a command that moves data through R#44 / S#7 (see services/vdpCommands)
+export interface VdpCommandTransfer {
+  opcode: number;      // R#46 high nibble
+  logicalOp: number;   // R#46 low nibble
+  startX: number;
+  x: number;           // Next pixel (or byte) to transfer
+  y: number;
+  width: number;       // NX and NY of the rectangle
+  height: number;
+  stepX: 1 | -1;       // DIX / DIY
+  stepY: 1 | -1;
+  column: number;      // Pixels done on the current row
+  row: number;         // Rows done
+}
+
+export interface PSGState {
+  registers: number[]; // R#0-R#15 (see services/psg)
+  selected: number; // Register latched by Port $A0
+  log: PsgLogBuffer; // Shared by every copy of the state; only the range below differs
+  logStart: number; // Sequence number of the first write since the log was last cleared
+  logEnd: number; // One past the last write made by this state
+  logBase: number[] | null; // Registers before the first logged write
+}
+
+export interface PsgLogBuffer {
+  entries: PsgLogEntry[]; // Ring: write n is kept at n % PSG_LOG_LIMIT
+  head: number; // One past the highest sequence number ever written
+}
+
+export interface PsgLogEntry {
+  tStates: number; // Running T-state total at the write
+  register: number;
+  value: number;
+}
+
+export interface InterruptState {
+  iff1: boolean; // Interrupts enabled (EI / DI)
+  iff2: boolean; // Copy of IFF1 restored by RETN
+  mode: number; // IM 0 / 1 / 2 (the MSX BIOS runs in IM 1)
+  framePeriod: number; // T-states between two VBLANK interrupts
+  nextFrame: number; // T-state total at which the next VBLANK sets the VDP F flag
+  frames: number; // VBLANKs since the last reset
+  log: InterruptEntry[]; // Accepted interrupts, oldest first (see services/interrupts)
+  hookFrames: number[]; // SP of each emulated KEYINT exit address still on the stack, innermost last
+}
+
+export interface InterruptEntry {
+  tStates: number; // Running T-state total when the interrupt was accepted
+  frame: number;
+  returnAddress: number | null; // Pushed PC (null when a source-level run cannot tell)
+  handler: number; // Program code that ran: $0038, the routine H.TIMI jumps to or the IM 2 vector
+  via: 'KEYINT' | 'H.TIMI' | 'IM 2';
+}
+
+export interface BlockOpSummary {
+  opcode: string;     // LDIR, CPIR, OTIR...
+  iterations: number; // Bytes moved / compared / transferred
+  cycles: number;     // Total T-States for every iteration
+}
+
+// SOURCE: interpret source lines; CPU: fetch/decode/execute the assembled bytes
+export type ExecutionMode = 'SOURCE' | 'CPU';
+
+// Main ROM mapped at $0000 for CPU mode (see services/biosRom)
+export interface BiosRom {
+  name: string;
+  data: Uint8Array; // 16KB or 32KB
 }
 
 export interface NavigationSnapshot {
@@ -96,8 +209,13 @@ export interface NavigationSnapshot {
   // Snapshot of simulation state
   liveRegisters: Z80Registers;
   liveFlags: Z80Flags;
-  liveMemory: { [name: string]: number };
+  liveMemory: Uint8Array; // Shared with AppState, never mutated in place
   liveVDP: VDPState; // Added VDP State
+  livePSG: PSGState;
+  liveInterrupts: InterruptState;
+  liveClobbered: RegisterName[];
+  liveTStates: number;
+  lastBlockOp: BlockOpSummary | null;
 }
 
 export interface AppState {
@@ -113,6 +231,9 @@ export interface AppState {
   isPlaying: boolean; // Auto-run mode
   breakpoints: Set<number>; // Line numbers
   showVDP: boolean; // Show VDP Dialog
+  showPSG: boolean; // Show PSG Dialog
+  executionMode: ExecutionMode;
+  biosRom: BiosRom | null; // Real BIOS code instead of the emulated entry points
   
   // Recursive Navigation State
   manualLine: number | null; // If not null, we are stepping manually at this line number (off-road)
@@ -124,6 +245,11 @@ export interface AppState {
   // Live Simulation State
   liveRegisters: Z80Registers;
   liveFlags: Z80Flags; // CPU Flags
-  liveMemory: { [name: string]: number }; // Map of VariableName -> Value
+  liveMemory: Uint8Array; // Flat 64KB address space (labels are views, see z80Memory)
   liveVDP: VDPState; // Added VDP State
+  livePSG: PSGState; // AY-3-8910 registers
+  liveInterrupts: InterruptState; // IFF1/IFF2, IM and the VBLANK frame timer
+  liveClobbered: RegisterName[]; // Registers left undefined by a BIOS call (see biosHle)
+  liveTStates: number; // Running T-state total since the last reset
+  lastBlockOp: BlockOpSummary | null; // Result of the last LDIR/OTIR-style instruction stepped over
 }